@@ -0,0 +1,14 @@
+import { Recording, decodeRecording } from "../shared/recording";
+
+import faceJson from "./face.json?raw";
+import handsJson from "./hands.json?raw";
+
+function load(json: string): Recording {
+  return decodeRecording(new TextEncoder().encode(json).buffer as ArrayBuffer);
+}
+
+/** Three frames of a single face drifting right and opening its mouth, then an empty frame. */
+export const faceRecording = load(faceJson);
+
+/** Two hands with an open palm, then the right hand alone closing into a fist. */
+export const handsRecording = load(handsJson);
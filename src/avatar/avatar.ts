@@ -17,47 +17,64 @@ import {
   GLTFLoader,
   GLTF
 } from "three/examples/jsm/loaders/GLTFLoader";
+import { VRM, VRMLoaderPlugin, VRMUtils } from "@pixiv/three-vrm";
 import {
-  FilesetResolver,
-  FaceLandmarker,
-  Classifications,
-} from "@mediapipe/tasks-vision";
-
-/**
- * Returns the world-space dimensions of the viewport at `depth` units away from
- * the camera.
- */
-function getViewportSizeAtDepth(
-  camera: THREE.PerspectiveCamera,
-  depth: number
-): THREE.Vector2 {
-  const viewportHeightAtDepth =
-    2 * depth * Math.tan(THREE.MathUtils.degToRad(0.5 * camera.fov));
-  const viewportWidthAtDepth = viewportHeightAtDepth * camera.aspect;
-  return new THREE.Vector2(viewportWidthAtDepth, viewportHeightAtDepth);
-}
-
-/**
- * Creates a `THREE.Mesh` which fully covers the `camera` viewport, is `depth`
- * units away from the camera and uses `material`.
- */
-function createCameraPlaneMesh(
-  camera: THREE.PerspectiveCamera,
-  depth: number,
-  material: THREE.Material
-): THREE.Mesh {
-  if (camera.near > depth || depth > camera.far) {
-    console.warn("Camera plane geometry will be clipped by the `camera`!");
-  }
-  const viewportSize = getViewportSizeAtDepth(camera, depth);
-  const cameraPlaneGeometry = new THREE.PlaneGeometry(
-    viewportSize.width,
-    viewportSize.height
-  );
-  cameraPlaneGeometry.translate(0, 0, -depth);
-
-  return new THREE.Mesh(cameraPlaneGeometry, material);
-}
+  NeutralPoseRecorder,
+  getLastCalibrationUser,
+  getReferenceMatrix,
+  getRelativeMatrix,
+  loadCalibration,
+} from "../shared/calibration";
+import { getFaceMatrix } from "../shared/coords";
+import { FaceTracker } from "../shared/faces";
+import { FaceResultFilter } from "../shared/filters";
+import { getIrisGaze, hasIrisLandmarks } from "../shared/gaze";
+import { addCalibrationFolder, addFaceFilterFolders, addMotionExportFolder } from "../shared/gui";
+import { createFaceLandmarker, resolveNumFaces } from "../shared/landmarker";
+import { FaceDetector, LandmarkRecorder, RecordingPlayer, attachRecorderControls } from "../shared/recording";
+import {
+  FrameSource,
+  createFrameTexture,
+  mountFrameSource,
+  onFileDrop,
+  pickFile,
+  selectFrameSource,
+} from "../shared/source";
+import { disposeObject } from "../shared/dispose";
+import { LoadingOverlay } from "../shared/overlay";
+import { createCameraPlaneMesh } from "../shared/viewport";
+import { GUI } from "three/examples/jsm/libs/lil-gui.module.min";
+import {
+  setupCaptureGUI,
+  setupGazeGUI,
+  setupHeadChainGUI,
+  setupMappingGUI,
+  setupModelGUI,
+  setupRetargetGUI,
+} from "./gui";
+import {
+  ARKIT_MAPPING,
+  BlendshapeMapping,
+  VRM1_MAPPING,
+  MappingReport,
+  applyMapping,
+  findMorphTarget,
+  getMappingReport,
+  loadBlendshapeMapping,
+} from "./mapping";
+import { DEFAULT_PROFILE, RetargetProfile, loadRetargetProfile, retarget } from "./retarget";
+import {
+  DEFAULT_HEAD_CHAIN,
+  EYES,
+  EyeBones,
+  HEAD_CHAIN,
+  HeadBoneChain,
+  HeadChainSettings,
+  findEyeBones,
+  findHeadChainBones,
+} from "./bones";
+import { AnimationCapture } from "./capture";
+import { GazeSource, getGazeAngles, limitGaze } from "./vrm";
 
 type RenderCallback = (delta: number) => void;
 
@@ -70,7 +87,7 @@ class BasicScene {
   lastTime: number = 0;
   callbacks: RenderCallback[] = [];
 
-  constructor() {
+  constructor(source: FrameSource) {
     // Initialize the canvas with the same aspect ratio as the video input
     const ratio = 4/3;
     this.width = window.innerWidth;
@@ -104,8 +121,7 @@ class BasicScene {
     orbitTarget.z -= 5;
 
     // Add a video background
-    const video = document.getElementById("video") as HTMLVideoElement;
-    const inputFrameTexture = new THREE.VideoTexture(video);
+    const inputFrameTexture = createFrameTexture(source);
     if (!inputFrameTexture) {
       throw new Error("Failed to get the 'input_frame' texture!");
     }
@@ -151,63 +167,309 @@ class BasicScene {
 }
 
 interface MatrixRetargetOptions {
+  /**
+   * Split the matrix and turn the spine, neck and head bones instead of the
+   * whole model, which then at most follows the translation, see
+   * `followHead`. Models without those bones turn as a whole. Always on for
+   * VRM models.
+   */
   decompose?: boolean;
+  /**
+   * With `decompose`, whether the model still moves with the head. Off keeps
+   * the head where it was when following stopped, so a half-body avatar stays
+   * anchored and only its bones turn.
+   */
+  followHead?: boolean;
   scale?: number;
+  /** Rest head transform from the calibration; rotations are taken relative to it. */
+  reference?: THREE.Matrix4 | null;
 }
 
+/** VRM models are in meters, MediaPipe's facial transformation in centimeters. */
+const VRM_SCALE = 100;
+
 class Avatar {
   scene: THREE.Scene;
-  loader: GLTFLoader = new GLTFLoader();
+  loader: GLTFLoader = new GLTFLoader().register((parser) => new VRMLoaderPlugin(parser));
   gltf: GLTF | null;
+  /** Set when the loaded model is a VRM. */
+  vrm: VRM | null = null;
   root: THREE.Bone | null;
+  bones: THREE.Bone[] = [];
+  headChain: HeadBoneChain | null = null;
+  headChainSettings: HeadChainSettings = structuredClone(DEFAULT_HEAD_CHAIN);
+  /** Eye bones of plain glTF rigs. VRM eyes go through `vrm.lookAt`. */
+  eyes: EyeBones | null = null;
+  gazeSource: GazeSource = "iris";
   morphTargetMeshes: THREE.Mesh[] = [];
+  profile: RetargetProfile = structuredClone(DEFAULT_PROFILE);
+  /** Mapping picked by the user, or `null` to follow the kind of model. */
+  mapping: BlendshapeMapping | null = null;
+  /** Every target name the mapping produced since the model was loaded. */
+  producedTargets = new Set<string>();
+  /** Produced target names no mesh of the model has. */
+  missingTargets = new Set<string>();
+  /** Plays a captured clip instead of following the face, see `preview`. */
+  mixer: THREE.AnimationMixer | null = null;
+  /** Number of `loadModel` calls, to drop the results of stale ones. */
+  private loadCount = 0;
+  /** Position of the head bone in the model at rest. */
+  headOffset = new THREE.Vector3();
+  /** Whether the model shows, kept across model switches. */
+  visible = true;
+  /** Where the head stays while the model does not follow it, see `applyDecomposedMatrix`. */
+  private headAnchor: THREE.Vector3 | null = null;
   url: string;
 
-  constructor(url: string, scene: THREE.Scene) {
-    this.url = url;
+  constructor(scene: THREE.Scene) {
+    this.url = "";
     this.scene = scene;
-    this.loadModel(this.url);
 
     this.gltf = null;
     this.root = null;
   }
 
-  loadModel(url: string) {
-    this.url = url;
-    this.loader.load(
-      // URL of the model you want to load
-      url,
-      // Callback when the resource is loaded
-      (gltf) => {
-        if (this.gltf) {
-          // Reset GLTF and morphTargetMeshes if a previous model was loaded.
-          this.gltf.scene.remove();
-          this.morphTargetMeshes = [];
+  get activeMapping(): BlendshapeMapping {
+    return this.mapping ?? (this.vrm ? VRM1_MAPPING : ARKIT_MAPPING);
+  }
+
+  /**
+   * Loads a glTF, GLB or VRM model from a URL or a local file and swaps it in
+   * for the current one, which is disposed. When loads overlap, the last one
+   * started wins.
+   * @param model
+   * @param onProgress Called with the loaded fraction, or `null` when the
+   * total size is unknown.
+   */
+  loadModel(model: string | File, onProgress?: (fraction: number | null) => void): Promise<void> {
+    const url = typeof model === "string" ? model : URL.createObjectURL(model);
+    const release = () => {
+      if (url !== model) URL.revokeObjectURL(url);
+    };
+    const load = ++this.loadCount;
+
+    return new Promise((resolve, reject) => {
+      this.loader.load(
+        // URL of the model you want to load
+        url,
+        // Callback when the resource is loaded
+        (gltf) => {
+          release();
+          if (load !== this.loadCount) {
+            // A newer model was requested in the meantime.
+            disposeObject(gltf.scene);
+            resolve();
+            return;
+          }
+          this.url = typeof model === "string" ? model : model.name;
+          this.setModel(gltf);
+          resolve();
+        },
+        // Called while loading is progressing
+        (progress) => onProgress?.(progress.total ? progress.loaded / progress.total : null),
+        // Called when loading has errors
+        (error) => {
+          release();
+          reject(error);
         }
-        this.gltf = gltf;
-        console.log();
-        this.scene.add(gltf.scene);
-        this.init(gltf);
-      },
-
-      // Called while loading is progressing
-      (progress) =>
-        console.log(
-          "Loading model...",
-          100.0 * (progress.loaded / progress.total),
-          "%"
-        ),
-      // Called when loading has errors
-      (error) => console.error(error)
-    );
+      );
+    });
+  }
+
+  /**
+   * Replaces the current model with `gltf`, disposing the old one.
+   * @param gltf
+   */
+  setModel(gltf: GLTF) {
+    if (this.gltf) {
+      // Reset the rig state of the previous model.
+      this.stopPreview();
+      disposeObject(this.gltf.scene);
+      this.root = null;
+      this.bones = [];
+      this.morphTargetMeshes = [];
+      this.headChain = null;
+      this.eyes = null;
+      this.producedTargets.clear();
+      this.missingTargets.clear();
+    }
+    this.gltf = gltf;
+    this.vrm = gltf.userData.vrm ?? null;
+    if (this.vrm) {
+      this.initVRM(this.vrm);
+    }
+    this.init(gltf);
+    this.initHeadChain(gltf.scene);
+    if (!this.vrm) {
+      this.eyes = new EyeBones(gltf.scene, findEyeBones(this.bones));
+    }
+    gltf.scene.visible = this.visible;
+    this.scene.add(gltf.scene);
+  }
+
+  /**
+   * Shows or hides the model, also the ones loaded later.
+   * @param visible
+   */
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    if (this.gltf) this.gltf.scene.visible = visible;
+  }
+
+  /**
+   * Removes the model from the scene and disposes it. Loads still in flight
+   * are dropped.
+   */
+  dispose() {
+    this.loadCount++;
+    this.stopPreview();
+    if (this.gltf) {
+      disposeObject(this.gltf.scene);
+      this.gltf = null;
+      this.vrm = null;
+    }
+  }
+
+  /**
+   * Makes this avatar retarget like `other`: same profile, mapping and head
+   * bone settings.
+   * @param other
+   */
+  shareSettings(other: Avatar) {
+    this.profile = other.profile;
+    this.headChainSettings = other.headChainSettings;
+    if (this.gazeSource !== other.gazeSource) {
+      this.gazeSource = other.gazeSource;
+      this.eyes?.reset();
+    }
+    if (this.mapping !== other.mapping) {
+      this.setMapping(other.mapping);
+    }
+  }
+
+  initVRM(vrm: VRM) {
+    VRMUtils.removeUnnecessaryVertices(vrm.scene);
+    // VRM 0.x models face -Z, turn them towards the camera like VRM 1.0 ones.
+    VRMUtils.rotateVRM0(vrm);
+  }
+
+  /**
+   * Finds the spine, neck and head bones, from the humanoid of a VRM or by
+   * name otherwise, and where the head sits in the model.
+   * @param model
+   */
+  initHeadChain(model: THREE.Object3D) {
+    const humanoid = this.vrm?.humanoid;
+    const bones = humanoid
+      ? {
+          spine: humanoid.getNormalizedBoneNode("spine"),
+          neck: humanoid.getNormalizedBoneNode("neck"),
+          head: humanoid.getNormalizedBoneNode("head"),
+        }
+      : findHeadChainBones(this.bones);
+    this.headChain = new HeadBoneChain(model, bones);
+
+    this.headOffset.set(0, 0, 0);
+    this.headAnchor = null;
+    if (bones.head) {
+      this.headOffset.copy(model.worldToLocal(bones.head.getWorldPosition(new THREE.Vector3())));
+    }
+  }
+
+  /**
+   * Advances the VRM runtime (humanoid, expressions, look at, spring bones).
+   * @param delta Seconds since the previous call.
+   */
+  update(delta: number) {
+    if (this.mixer) {
+      this.mixer.update(delta);
+      return;
+    }
+    this.vrm?.update(delta);
+  }
+
+  get previewing(): boolean {
+    return this.mixer !== null;
+  }
+
+  /**
+   * Loops `clip` on the model until `stopPreview` is called.
+   * @param clip
+   */
+  preview(clip: THREE.AnimationClip) {
+    if (!this.gltf) {
+      return;
+    }
+    this.stopPreview();
+    // The clip animates position, rotation and scale, not the matrix.
+    this.gltf.scene.matrixAutoUpdate = true;
+    this.mixer = new THREE.AnimationMixer(this.gltf.scene);
+    this.mixer.clipAction(clip).play();
+  }
+
+  stopPreview() {
+    this.mixer?.stopAllAction();
+    this.mixer = null;
+  }
+
+  /**
+   * Nodes whose transform follows the face: the model itself and the head
+   * bones. For a VRM these are the raw bones, which are the ones skinned.
+   */
+  getAnimatedNodes(): THREE.Object3D[] {
+    if (!this.gltf) {
+      return [];
+    }
+    const humanoid = this.vrm?.humanoid;
+    const bones = humanoid
+      ? [...HEAD_CHAIN, ...EYES].flatMap((name) => humanoid.getRawBoneNode(name) ?? [])
+      : [...this.headChain?.bones ?? [], ...this.eyes?.bones ?? []];
+    return [this.gltf.scene, ...bones];
+  }
+
+  /**
+   * Loads the retarget profile for this avatar. By default it is looked up
+   * next to the other profiles as `/profiles/<model name>.json`; the default
+   * profile is kept when there is none.
+   * @param url
+   */
+  async loadProfile(url: string = `/profiles/${this.url.split("/").pop()?.replace(/\.\w+$/, "")}.json`) {
+    try {
+      this.profile = await loadRetargetProfile(url);
+    } catch (e: unknown) {
+      console.warn(`Using the default retarget profile: ${e}`);
+      this.profile = structuredClone(DEFAULT_PROFILE);
+    }
+  }
+
+  /**
+   * Switches to a built-in mapping by name, or loads a custom one from a URL.
+   * The current mapping is kept when loading fails.
+   * @param nameOrUrl
+   */
+  async loadMapping(nameOrUrl: string) {
+    try {
+      this.setMapping(await loadBlendshapeMapping(nameOrUrl));
+    } catch (e: unknown) {
+      console.warn(`Keeping the ${this.activeMapping.name} blendshape mapping: ${e}`);
+    }
+  }
+
+  setMapping(mapping: BlendshapeMapping | null) {
+    this.mapping = mapping;
+    this.producedTargets.clear();
+    this.missingTargets.clear();
   }
 
   init(gltf: GLTF) {
     gltf.scene.traverse((object) => {
       // Register first bone found as the root
-      if ((object as THREE.Bone).isBone && !this.root) {
-        this.root = object as THREE.Bone;
-        console.log(object);
+      if ((object as THREE.Bone).isBone) {
+        this.bones.push(object as THREE.Bone);
+        if (!this.root) {
+          this.root = object as THREE.Bone;
+          console.log(object);
+        }
       }
       // Return early if no mesh is found.
       if (!(object as THREE.Mesh).isMesh) {
@@ -231,23 +493,87 @@ class Avatar {
   }
 
   updateBlendshapes(blendshapes: Map<string, number>) {
-    for (const mesh of this.morphTargetMeshes) {
-      if (!mesh.morphTargetDictionary || !mesh.morphTargetInfluences) {
-        // console.warn(`Mesh ${mesh.name} does not have morphable targets`);
+    const expressionManager = this.vrm?.expressionManager;
+    const lookAt = this.vrm?.lookAt;
+    if (lookAt && this.gazeSource === "blendshapes") {
+      const { yaw, pitch } = getGazeAngles(blendshapes);
+      lookAt.yaw = yaw;
+      lookAt.pitch = pitch;
+    }
+
+    for (const [name, value] of applyMapping(blendshapes, this.activeMapping)) {
+      if (lookAt && expressionManager?.lookAtExpressionNames.includes(name)) {
+        // Driven by the look at component.
         continue;
       }
-      for (const [name, value] of blendshapes) {
-        if (!Object.keys(mesh.morphTargetDictionary).includes(name)) {
-          // console.warn(`Model morphable target ${name} not found`);
+      this.producedTargets.add(name);
+
+      let found = false;
+      if (expressionManager) {
+        const idx = findMorphTarget(this.getExpressionDictionary(), name);
+        if (idx !== undefined) {
+          expressionManager.expressions[idx].weight = value;
+          found = true;
+        }
+      }
+      for (const mesh of expressionManager ? [] : this.morphTargetMeshes) {
+        if (!mesh.morphTargetDictionary || !mesh.morphTargetInfluences) {
+          continue;
+        }
+        const idx = findMorphTarget(mesh.morphTargetDictionary, name);
+        if (idx === undefined) {
           continue;
         }
-
-        const idx = mesh.morphTargetDictionary[name];
         mesh.morphTargetInfluences[idx] = value;
+        found = true;
+      }
+
+      if (!found && this.gltf && !this.missingTargets.has(name)) {
+        this.missingTargets.add(name);
+        console.warn(`Model morphable target ${name} not found (${this.activeMapping.name} mapping)`);
       }
     }
   }
 
+  /**
+   * Turns the eyes of the avatar, through the VRM look at or the eye bones,
+   * when the gaze comes from the iris landmarks.
+   * @param gaze Eye rotation in the head, see `getIrisGaze`.
+   */
+  updateGaze(gaze: { yaw: number; pitch: number }) {
+    if (this.gazeSource !== "iris") {
+      return;
+    }
+    const { yaw, pitch } = limitGaze(gaze);
+    const lookAt = this.vrm?.lookAt;
+    if (lookAt) {
+      lookAt.yaw = yaw;
+      lookAt.pitch = pitch;
+    } else {
+      this.eyes?.apply(yaw, pitch);
+    }
+  }
+
+  /**
+   * Indices of the VRM expressions by name, shaped like a morph target
+   * dictionary.
+   */
+  getExpressionDictionary(): { [name: string]: number } {
+    const expressions = this.vrm?.expressionManager?.expressions ?? [];
+    return Object.fromEntries(expressions.map((expression, i) => [expression.expressionName, i]));
+  }
+
+  /**
+   * Lists the mapped targets the model lacks and the morph targets (or VRM
+   * expressions) of the model nothing drives.
+   */
+  getMappingReport(): MappingReport {
+    const targetNames = this.vrm?.expressionManager
+      ? Object.keys(this.getExpressionDictionary())
+      : this.morphTargetMeshes.flatMap((mesh) => Object.keys(mesh.morphTargetDictionary ?? {}));
+    return getMappingReport(targetNames, this.producedTargets);
+  }
+
   /**
    * Apply a position, rotation, scale matrix to current GLTF.scene
    * @param matrix
@@ -258,10 +584,19 @@ class Avatar {
     matrix: THREE.Matrix4,
     matrixRetargetOptions?: MatrixRetargetOptions
   ): void {
-    const { decompose = false, scale = 1 } = matrixRetargetOptions || {};
+    const { decompose = false, followHead = false, scale = 1, reference = null } = matrixRetargetOptions || {};
     if (!this.gltf) {
       return;
     }
+    if (reference) {
+      matrix = getRelativeMatrix(matrix, reference);
+    }
+    if (decompose || this.vrm) {
+      this.applyDecomposedMatrix(matrix, this.vrm ? VRM_SCALE : scale, followHead);
+      return;
+    }
+    this.headChain?.reset();
+    this.headAnchor = null;
     // Three.js will update the object matrix when it render the page
     // according the object position, scale, rotation.
     // To manually set the object matrix, you have to set autoupdate to false.
@@ -271,6 +606,37 @@ class Avatar {
     this.gltf.scene.matrix.copy(matrix);
   }
 
+  /**
+   * Spreads the rotation of `matrix` over the head bones, following
+   * `headChainSettings`. The rest of the body keeps its orientation. The
+   * model moves so its head sits at the translation of `matrix` when
+   * `followHead` is set, and stays anchored where it last was otherwise.
+   * @param matrix
+   * @param scale
+   * @param followHead
+   */
+  applyDecomposedMatrix(matrix: THREE.Matrix4, scale: number, followHead = false): void {
+    if (!this.gltf) {
+      return;
+    }
+    const model = this.gltf.scene;
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    matrix.decompose(position, rotation, new THREE.Vector3());
+
+    model.matrixAutoUpdate = true;
+    model.scale.setScalar(scale);
+    if (this.headChain && !this.headChain.empty) {
+      this.headChain.apply(rotation, this.headChainSettings);
+    } else {
+      model.quaternion.copy(rotation);
+    }
+
+    if (followHead || !this.headAnchor) this.headAnchor = position;
+    const headOffset = this.headOffset.clone().multiplyScalar(scale).applyQuaternion(model.quaternion);
+    model.position.copy(this.headAnchor).sub(headOffset);
+  }
+
   /**
    * Takes the root object in the avatar and offsets its position for retargetting.
    * @param offset
@@ -289,114 +655,178 @@ class Avatar {
   }
 }
 
-let faceLandmarker: FaceLandmarker;
-let video: HTMLVideoElement;
-
-const scene = new BasicScene();
-const avatar = new Avatar(
-  "/monke.glb",
-  scene.scene
-);
+let faceLandmarker: FaceDetector;
+
+const video = document.getElementById("video") as HTMLVideoElement;
+const player = RecordingPlayer.fromQuery();
+const source = player ? mountFrameSource(player, video) : selectFrameSource(video);
+const recorder = new LandmarkRecorder();
+const scene = new BasicScene(source);
+const params = new URLSearchParams(window.location.search);
+const avatar = new Avatar(scene.scene);
+const overlay = new LoadingOverlay();
+
+/** Models shipped in `public/`, by name. */
+const BUNDLED_MODELS: { [name: string]: string } = {
+  Monke: "/monke.glb",
+};
+// `?model=file` asks for a local .vrm or .glb file instead of loading a URL.
+const model = params.get("model") ?? BUNDLED_MODELS.Monke;
+/** Model every avatar shows, as last picked. */
+let currentModel: string | File = model;
+const matrixOptions: MatrixRetargetOptions = { scale: 15, decompose: false, followHead: false };
+const filter = new FaceResultFilter();
+const gui = new GUI();
+addFaceFilterFolders(gui, filter);
+const calibration = { calibration: loadCalibration(getLastCalibrationUser()) };
+const neutralPose = new NeutralPoseRecorder();
+addCalibrationFolder(gui, calibration, neutralPose);
+const capture = new AnimationCapture();
+const motionRecorder = new LandmarkRecorder();
+addMotionExportFolder(gui, motionRecorder, calibration);
 
-function detectFaceLandmarks(time: DOMHighResTimeStamp): void {
-  if (!faceLandmarker) {
+/**
+ * Avatar of every tracked face. The first face to show up drives `avatar`,
+ * which the GUI edits; every other face gets its own copy of the model that
+ * retargets like it, and loses it when the face leaves. `avatar` hides while
+ * no face drives it and shows again for the next face to show up.
+ */
+const avatars = new Map<number, Avatar>();
+const tracker = new FaceTracker();
+tracker.onEnter = (id) => {
+  if (![...avatars.values()].includes(avatar)) {
+    avatars.set(id, avatar);
+    avatar.setVisible(true);
     return;
   }
-  const landmarks = faceLandmarker.detectForVideo(video, time);
-
-  // Apply transformation
-  const transformationMatrices = landmarks.facialTransformationMatrixes;
-  
-  if (transformationMatrices && transformationMatrices.length > 0) {
-    let matrix = new THREE.Matrix4().fromArray(transformationMatrices[0].data);
-    
-    // Example of applying matrix directly to the avatar
-    avatar.applyMatrix(matrix, { scale: 15 });
+  const follower = new Avatar(scene.scene);
+  follower.loadModel(currentModel).catch((e: unknown) => console.error(`Failed to load model: ${e}`));
+  avatars.set(id, follower);
+};
+tracker.onLeave = (id) => {
+  const leaving = avatars.get(id);
+  avatars.delete(id);
+  filter.forget(id);
+  if (leaving === avatar) avatar.setVisible(false);
+  else leaving?.dispose();
+};
+scene.callbacks.push((delta) => {
+  avatar.update(delta);
+  for (const other of avatars.values()) {
+    if (other !== avatar) other.update(delta);
   }
+});
 
-  // Apply Blendshapes
-  const blendshapes = landmarks.faceBlendshapes;
-  if (blendshapes && blendshapes.length > 0) {
-    const coefsMap = retarget(blendshapes);
-    avatar.updateBlendshapes(coefsMap);
+function detectFaceLandmarks(time: DOMHighResTimeStamp): void {
+  if (!faceLandmarker || avatar.previewing) {
+    return;
   }
-}
+  const detection = faceLandmarker.detectForVideo(source.element, time);
+  recorder.record(time, detection);
+  const ids = tracker.update(detection);
+  const landmarks = filter.filter(detection, time, ids);
+  neutralPose.record(time, landmarks);
+  motionRecorder.record(time, landmarks);
+
+  ids.forEach((id, i) => {
+    const target = avatars.get(id);
+    if (!target) return;
+    if (target !== avatar) target.shareSettings(avatar);
+
+    // Apply transformation
+    const matrix = getFaceMatrix(landmarks, i);
+    if (matrix) {
+      // Example of applying matrix directly to the avatar
+      target.applyMatrix(matrix, {
+        ...matrixOptions,
+        reference: getReferenceMatrix(calibration.calibration),
+      });
+    }
 
-function retarget(blendshapes: Classifications[]) {
-  const categories = blendshapes[0].categories;
-  let coefsMap = new Map<string, number>();
-  for (let i = 0; i < categories.length; ++i) {
-    const blendshape = categories[i];
-    // Adjust certain blendshape values to be less prominent.
-    switch (blendshape.categoryName) {
-      case "browOuterUpLeft":
-        blendshape.score *= 1.2;
-        break;
-      case "browOuterUpRight":
-        blendshape.score *= 1.2;
-        break;
-      case "eyeBlinkLeft":
-        blendshape.score *= 1.2;
-        break;
-      case "eyeBlinkRight":
-        blendshape.score *= 1.2;
-        break;
-      default:
+    // Turn the eyes towards where the irises look
+    const faceLandmarks = landmarks.faceLandmarks[i];
+    if (faceLandmarks && hasIrisLandmarks(faceLandmarks)) {
+      target.updateGaze(getIrisGaze(faceLandmarks, source.width / source.height).combined);
     }
-    coefsMap.set(categories[i].categoryName, categories[i].score);
-  }
-  return coefsMap;
-}
 
-function onVideoFrame(time: DOMHighResTimeStamp): void {
-  // Do something with the frame.
-  detectFaceLandmarks(time);
-  // Re-register the callback to be notified about the next frame.
-  video.requestVideoFrameCallback(onVideoFrame);
-}
+    // Apply Blendshapes
+    const blendshapes = landmarks.faceBlendshapes?.[i];
+    if (blendshapes) {
+      const coefsMap = retarget([blendshapes], target.profile, calibration.calibration.blendshapes);
+      target.updateBlendshapes(coefsMap);
+    }
+  });
 
-// Stream webcam into landmarker loop (and also make video visible)
-async function streamWebcamThroughFaceLandmarker(): Promise<void> {
-  video = document.getElementById("video") as HTMLVideoElement;
+  // VRM expressions reach the morph targets on the next `avatar.update`, so
+  // their samples trail by one frame.
+  capture.capture(time);
+}
 
-  function onAcquiredUserMedia(stream: MediaStream): void {
-    video.srcObject = stream;
-    video.onloadedmetadata = () => {
-      video.play();
-      video.hidden = true;
-    };
-  }
+const retargetGUI = setupRetargetGUI(gui, avatar);
+const mappingGUI = setupMappingGUI(gui, avatar);
+const captureGUI = setupCaptureGUI(gui, avatar, capture);
+let modelRequests = 0;
 
+/**
+ * Swaps in `model` along with its retarget profile, showing the progress.
+ * @param model
+ * @param profileUrl Defaults to the profile named after the model.
+ */
+async function switchModel(model: string | File, profileUrl?: string) {
+  const request = ++modelRequests;
+  overlay.show(`Loading ${typeof model === "string" ? model.split("/").pop() : model.name}…`);
+  currentModel = model;
+  captureGUI.refresh();
   try {
-    const evt = await navigator.mediaDevices.getUserMedia({
-      audio: false,
-      video: {
-        facingMode: "user",
+    for (const other of avatars.values()) {
+      if (other !== avatar) {
+        other.loadModel(model).catch((e: unknown) => console.error(`Failed to load model: ${e}`));
       }
-    });
-    onAcquiredUserMedia(evt);
-    video.requestVideoFrameCallback(onVideoFrame);
+    }
+    await avatar.loadModel(model, (fraction) => overlay.progress(fraction));
+    await avatar.loadProfile(profileUrl);
+    retargetGUI.refresh();
+    mappingGUI.refresh();
   } catch (e: unknown) {
-    console.error(`Failed to acquire camera feed: ${e}`);
+    console.error(`Failed to load model: ${e}`);
+  } finally {
+    if (request === modelRequests) overlay.hide();
   }
 }
 
 async function runDemo() {
-  await streamWebcamThroughFaceLandmarker();
-  const vision = await FilesetResolver.forVisionTasks(
-    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.1.0-alpha-16/wasm"
-  );
-  faceLandmarker = await FaceLandmarker.createFromModelPath(
-    vision,
-    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task"
+  await switchModel(
+    model === "file" ? await pickFile(".vrm,.glb") : model,
+    params.get("profile") ?? undefined
   );
-  await faceLandmarker.setOptions({
-    baseOptions: {
-      delegate: "CPU"
-    },
+  const mapping = params.get("mapping");
+  if (mapping) {
+    await avatar.loadMapping(mapping);
+    mappingGUI.refresh();
+  }
+
+  const models = Object.values(BUNDLED_MODELS).includes(model) || model === "file"
+    ? BUNDLED_MODELS
+    : { ...BUNDLED_MODELS, [model.split("/").pop()!]: model };
+  setupModelGUI(gui, models, model, (model) => switchModel(model));
+  setupHeadChainGUI(gui, avatar, matrixOptions);
+  setupGazeGUI(gui, avatar);
+  onFileDrop(document.body, [".vrm", ".glb"], (file) => switchModel(file));
+
+  try {
+    await source.start();
+    source.element.hidden = true;
+    source.onFrame(detectFaceLandmarks);
+    attachRecorderControls(recorder, source);
+  } catch (e: unknown) {
+    console.error(`Failed to start frame source: ${e}`);
+  }
+
+  faceLandmarker = player ?? await createFaceLandmarker({
     runningMode: "VIDEO",
     outputFaceBlendshapes: true,
-    outputFacialTransformationMatrixes: true
+    outputFacialTransformationMatrixes: true,
+    numFaces: resolveNumFaces(),
   });
 
   console.log("Finished Loading MediaPipe Model.");
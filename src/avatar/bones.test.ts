@@ -0,0 +1,133 @@
+import { Bone, Euler, Group, MathUtils, Quaternion, Vector3 } from "three";
+import { describe, expect, it } from "vitest";
+
+import { EyeBones, HeadBoneChain, HeadChainSettings, findEyeBones, findHeadChainBones, limitRotation } from "./bones";
+
+const rotationY = (degrees: number) => new Quaternion().setFromEuler(new Euler(0, MathUtils.degToRad(degrees), 0));
+
+/** Hips > Spine > Spine1 > Spine2 > Neck > Head, with twisted rest poses. */
+function createSkeleton() {
+  const model = new Group();
+  const names = ["Hips", "Spine", "Spine1", "Spine2", "Neck", "Head", "HeadTop_End"];
+  const bones = names.map((name) => Object.assign(new Bone(), { name }));
+  bones.reduce<Group | Bone>((parent, bone, i) => {
+    bone.position.set(0, 10, 0);
+    bone.quaternion.setFromEuler(new Euler(0.1 * i, -0.2 * i, 0.3));
+    parent.add(bone);
+    return bone;
+  }, model);
+  return { model, bones };
+}
+
+const worldRotation = (bone: Bone) => {
+  bone.updateWorldMatrix(true, false);
+  return bone.getWorldQuaternion(new Quaternion());
+};
+
+describe("findHeadChainBones", () => {
+  it("picks the upper spine, neck and head of a Mixamo style rig", () => {
+    const { bones } = createSkeleton();
+    const chain = findHeadChainBones(bones);
+
+    expect(chain.spine?.name).toBe("Spine2");
+    expect(chain.neck?.name).toBe("Neck");
+    expect(chain.head?.name).toBe("Head");
+  });
+
+  it("leaves out bones it cannot find", () => {
+    expect(findHeadChainBones([Object.assign(new Bone(), { name: "Root" })])).toEqual({});
+  });
+});
+
+describe("limitRotation", () => {
+  it("takes the weighted share of the rotation", () => {
+    const share = limitRotation(rotationY(40), { weight: 0.5, limit: 90 });
+
+    expect(share.angleTo(rotationY(20))).toBeCloseTo(0);
+  });
+
+  it("caps the share at the limit", () => {
+    const share = limitRotation(rotationY(80), { weight: 1, limit: 30 });
+
+    expect(share.angleTo(rotationY(30))).toBeCloseTo(0);
+  });
+});
+
+describe("HeadBoneChain", () => {
+  const unlimited: HeadChainSettings = {
+    spine: { weight: 0.2, limit: 180 },
+    neck: { weight: 0.3, limit: 180 },
+    head: { weight: 0.5, limit: 180 },
+  };
+
+  it("turns the head by the full rotation across twisted bones", () => {
+    const { model, bones } = createSkeleton();
+    const head = bones[5];
+    const rest = worldRotation(head);
+    const rotation = new Quaternion().setFromEuler(new Euler(0.3, 0.6, -0.1));
+
+    new HeadBoneChain(model, findHeadChainBones(bones)).apply(rotation, unlimited);
+
+    expect(worldRotation(head).angleTo(rotation.clone().multiply(rest))).toBeCloseTo(0);
+  });
+
+  it("keeps the body and the bones in between at rest", () => {
+    const { model, bones } = createSkeleton();
+    const [hips, spine, spine1] = bones.map((bone) => bone.quaternion.clone());
+
+    new HeadBoneChain(model, findHeadChainBones(bones)).apply(rotationY(45), unlimited);
+
+    expect(bones[0].quaternion.equals(hips)).toBe(true);
+    expect(bones[1].quaternion.equals(spine)).toBe(true);
+    expect(bones[2].quaternion.equals(spine1)).toBe(true);
+  });
+
+  it("restores the rest pose", () => {
+    const { model, bones } = createSkeleton();
+    const rest = bones[5].quaternion.clone();
+    const chain = new HeadBoneChain(model, findHeadChainBones(bones));
+
+    chain.apply(rotationY(45));
+    expect(bones[5].quaternion.angleTo(rest)).toBeGreaterThan(0);
+    chain.reset();
+
+    expect(bones[5].quaternion.equals(rest)).toBe(true);
+    expect(new HeadBoneChain(model, {}).empty).toBe(true);
+  });
+});
+
+describe("EyeBones", () => {
+  /** The skeleton with a twisted eye bone on each side of the head. */
+  function createEyes() {
+    const { model, bones } = createSkeleton();
+    const eyes = ["LeftEye", "eye.R"].map((name) => Object.assign(new Bone(), { name }));
+    eyes.forEach((eye) => {
+      eye.quaternion.setFromEuler(new Euler(0.4, 1.2, -0.5));
+      bones[5].add(eye);
+    });
+    return { model, bones: [...bones, ...eyes], eyes };
+  }
+
+  /** Direction the rest pose's +Z ends up pointing to in the model root. */
+  const lookDirection = (eye: Bone, restRotation: Quaternion) =>
+    new Vector3(0, 0, 1).applyQuaternion(worldRotation(eye).multiply(restRotation.clone().invert()));
+
+  it("finds eye bones named in common ways", () => {
+    const { bones } = createEyes();
+    const eyes = findEyeBones(bones);
+
+    expect(eyes.leftEye?.name).toBe("LeftEye");
+    expect(eyes.rightEye?.name).toBe("eye.R");
+  });
+
+  it("turns the eyes left and up around the rest frame of the model", () => {
+    const { model, bones, eyes } = createEyes();
+    const rest = worldRotation(eyes[0]);
+
+    new EyeBones(model, findEyeBones(bones)).apply(30, 20);
+    const direction = lookDirection(eyes[0], rest);
+
+    expect(direction.x).toBeCloseTo(Math.sin(MathUtils.degToRad(30)) * Math.cos(MathUtils.degToRad(20)));
+    expect(direction.y).toBeCloseTo(Math.sin(MathUtils.degToRad(20)));
+  });
+});
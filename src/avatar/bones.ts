@@ -0,0 +1,223 @@
+import { Euler, MathUtils, Object3D, Quaternion } from "three";
+
+/** Bones that share the head rotation, from the torso up. */
+export const HEAD_CHAIN = ["spine", "neck", "head"] as const;
+export type HeadBoneName = typeof HEAD_CHAIN[number];
+
+/** Eye bones, named after the avatar's sides. */
+export const EYES = ["leftEye", "rightEye"] as const;
+export type EyeBoneName = typeof EYES[number];
+
+/**
+ * How much of the head rotation a bone carries.
+ */
+export interface BoneRotationSettings {
+  /** Share of the rotation, from 0 to 1. */
+  weight: number;
+  /** Largest rotation of the bone, in degrees. */
+  limit: number;
+}
+
+export type HeadChainSettings = { [bone in HeadBoneName]: BoneRotationSettings };
+
+export const DEFAULT_HEAD_CHAIN: HeadChainSettings = {
+  spine: { weight: 0.1, limit: 15 },
+  neck: { weight: 0.35, limit: 40 },
+  head: { weight: 0.55, limit: 70 },
+};
+
+/**
+ * Name patterns of the chain bones in common rigs (Mixamo, Ready Player Me,
+ * Blender metarigs), most specific first.
+ */
+const BONE_PATTERNS: { [bone in HeadBoneName]: RegExp[] } = {
+  spine: [/upper_?chest/i, /spine_?2$/i, /chest/i, /spine_?1$/i, /spine$/i],
+  neck: [/neck$/i, /neck/i],
+  head: [/head$/i, /head(?!_?(end|top))/i],
+};
+
+const EYE_PATTERNS: { [bone in EyeBoneName]: RegExp[] } = {
+  leftEye: [/left_?eye$/i, /eye[._]?l(eft)?$/i],
+  rightEye: [/right_?eye$/i, /eye[._]?r(ight)?$/i],
+};
+
+function findBones<T extends string>(
+  bones: Object3D[],
+  names: readonly T[],
+  patterns: { [bone in T]: RegExp[] }
+): { [bone in T]?: Object3D } {
+  const found: { [bone in T]?: Object3D } = {};
+  for (const name of names) {
+    for (const pattern of patterns[name]) {
+      const bone = bones.find((bone) => pattern.test(bone.name));
+      if (bone) {
+        found[name] = bone;
+        break;
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Finds the chain bones of a plain glTF skeleton by name.
+ */
+export function findHeadChainBones(bones: Object3D[]): { [bone in HeadBoneName]?: Object3D } {
+  return findBones(bones, HEAD_CHAIN, BONE_PATTERNS);
+}
+
+/**
+ * Finds the eye bones of a plain glTF skeleton by name.
+ */
+export function findEyeBones(bones: Object3D[]): { [bone in EyeBoneName]?: Object3D } {
+  return findBones(bones, EYES, EYE_PATTERNS);
+}
+
+/**
+ * Share of `rotation` for one bone: `weight` of it, at most `limit` degrees.
+ */
+export function limitRotation(rotation: Quaternion, { weight, limit }: BoneRotationSettings): Quaternion {
+  const share = new Quaternion().slerp(rotation, weight);
+  const angle = share.angleTo(new Quaternion());
+  const max = MathUtils.degToRad(limit);
+  if (angle > max) {
+    share.copy(new Quaternion().slerp(share, max / angle));
+  }
+  return share;
+}
+
+interface ChainLink {
+  bone: Object3D;
+  /** Local rotation of the bone at rest. */
+  rest: Quaternion;
+  /** Rotation of the bone relative to the parent of the model root at rest. */
+  world: Quaternion;
+}
+
+/**
+ * Records the rest pose of `bones` relative to the parent of `root`.
+ */
+function createLinks<T extends string>(
+  root: Object3D,
+  names: readonly T[],
+  bones: { [bone in T]?: Object3D | null }
+): Partial<Record<T, ChainLink>> {
+  root.updateWorldMatrix(true, true);
+  const parentInverse = root.parent?.getWorldQuaternion(new Quaternion()).invert() ?? new Quaternion();
+
+  const links: Partial<Record<T, ChainLink>> = {};
+  for (const name of names) {
+    const bone = bones[name];
+    if (!bone) continue;
+    links[name] = {
+      bone,
+      rest: bone.quaternion.clone(),
+      world: parentInverse.clone().multiply(bone.getWorldQuaternion(new Quaternion())),
+    };
+  }
+  return links;
+}
+
+/**
+ * Turns the bone of `link` by `rotation` away from its rest pose, around the
+ * axes of the frame the links were recorded in.
+ */
+function rotateLink(link: ChainLink, rotation: Quaternion) {
+  // Express the rotation in the bone's rest frame: rest * world^-1 * rotation * world.
+  link.bone.quaternion
+    .copy(link.world)
+    .invert()
+    .multiply(rotation)
+    .multiply(link.world)
+    .premultiply(link.rest);
+}
+
+/**
+ * Spreads a head rotation over the spine, neck and head bones. The rotation is
+ * given in the frame the model root lives in, e.g. camera space when the root
+ * sits directly in the scene. Each bone turns by its share around those axes,
+ * whatever its rest orientation, so the shares chain up into the full
+ * rotation. Bones in between keep their rest pose.
+ */
+export class HeadBoneChain {
+  private links: Partial<Record<HeadBoneName, ChainLink>> = {};
+
+  /**
+   * @param root Model root, whose parent frame the rotations are given in.
+   * @param bones Chain bones, in their rest pose.
+   */
+  constructor(root: Object3D, bones: { [bone in HeadBoneName]?: Object3D | null }) {
+    this.links = createLinks(root, HEAD_CHAIN, bones);
+  }
+
+  /** The bones found, from the torso up. */
+  get bones(): Object3D[] {
+    return HEAD_CHAIN.flatMap((name) => this.links[name]?.bone ?? []);
+  }
+
+  get empty(): boolean {
+    return Object.keys(this.links).length === 0;
+  }
+
+  apply(rotation: Quaternion, settings: HeadChainSettings = DEFAULT_HEAD_CHAIN) {
+    for (const name of HEAD_CHAIN) {
+      const link = this.links[name];
+      if (!link) continue;
+
+      rotateLink(link, limitRotation(rotation, settings[name]));
+    }
+  }
+
+  reset() {
+    for (const link of Object.values(this.links)) {
+      link.bone.quaternion.copy(link.rest);
+    }
+  }
+}
+
+
+/**
+ * Turns the eye bones of a rig. Like `HeadBoneChain`, rotations are given
+ * around the axes of the model root's parent frame at rest, where the model
+ * faces +Z; the eyes then turn inside the head whatever its pose.
+ */
+export class EyeBones {
+  private links: Partial<Record<EyeBoneName, ChainLink>> = {};
+
+  /**
+   * @param root Model root, facing +Z at rest.
+   * @param bones Eye bones, in their rest pose.
+   */
+  constructor(root: Object3D, bones: { [bone in EyeBoneName]?: Object3D | null }) {
+    this.links = createLinks(root, EYES, bones);
+  }
+
+  get bones(): Object3D[] {
+    return EYES.flatMap((name) => this.links[name]?.bone ?? []);
+  }
+
+  get empty(): boolean {
+    return Object.keys(this.links).length === 0;
+  }
+
+  /**
+   * Turns both eyes.
+   * @param yaw Degrees towards the avatar's left.
+   * @param pitch Degrees up.
+   */
+  apply(yaw: number, pitch: number) {
+    // Up is a turn from +Z towards +Y, a negative turn around X.
+    const rotation = new Quaternion().setFromEuler(
+      new Euler(-MathUtils.degToRad(pitch), MathUtils.degToRad(yaw), 0, "YXZ")
+    );
+    for (const link of Object.values(this.links)) {
+      rotateLink(link, rotation);
+    }
+  }
+
+  reset() {
+    for (const link of Object.values(this.links)) {
+      link.bone.quaternion.copy(link.rest);
+    }
+  }
+}
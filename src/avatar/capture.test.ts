@@ -0,0 +1,129 @@
+import {
+  AnimationMixer,
+  BufferGeometry,
+  Group,
+  Mesh,
+  NumberKeyframeTrack,
+  Quaternion,
+  QuaternionKeyframeTrack,
+  Vector3,
+} from "three";
+import { describe, expect, it } from "vitest";
+
+import { AnimationCapture, reduceClip, reduceKeyframes } from "./capture";
+
+function createModel() {
+  const model = new Group();
+  const mesh = new Mesh(new BufferGeometry());
+  mesh.morphTargetInfluences = [0, 0];
+  model.add(mesh);
+  return { model, mesh };
+}
+
+describe("AnimationCapture", () => {
+  it("records morph influences and transforms into a clip", () => {
+    const { model, mesh } = createModel();
+    const capture = new AnimationCapture();
+
+    capture.start([mesh], [model]);
+    for (let i = 0; i < 3; i++) {
+      mesh.morphTargetInfluences = [i / 2, 1 - i / 2];
+      model.position.set(i, 0, 0);
+      capture.capture(1000 + i * 100);
+    }
+    const clip = capture.stop("test");
+
+    expect(capture.recording).toBe(false);
+    expect(clip.duration).toBeCloseTo(0.2);
+    expect(clip.tracks.map((track) => track.name)).toEqual([
+      `${mesh.uuid}.morphTargetInfluences`,
+      `${model.uuid}.position`,
+      `${model.uuid}.quaternion`,
+      `${model.uuid}.scale`,
+    ]);
+    expect(Array.from(clip.tracks[0].values)).toEqual([0, 1, 0.5, 0.5, 1, 0]);
+  });
+
+  it("reads the matrix of nodes that are not auto-updated", () => {
+    const { model } = createModel();
+    model.matrixAutoUpdate = false;
+    model.matrix.makeTranslation(4, 5, 6);
+    const capture = new AnimationCapture();
+
+    capture.start([], [model]);
+    capture.capture(0);
+
+    expect(Array.from(capture.stop().tracks[0].values)).toEqual([4, 5, 6]);
+  });
+
+  it("plays back on the captured model", () => {
+    const { model, mesh } = createModel();
+    const capture = new AnimationCapture();
+    capture.start([mesh], [model]);
+    mesh.morphTargetInfluences = [1, 0];
+    capture.capture(0);
+    mesh.morphTargetInfluences = [0, 1];
+    capture.capture(1000);
+    const clip = capture.stop();
+
+    const mixer = new AnimationMixer(model);
+    mixer.clipAction(clip).play();
+    mixer.update(0.5);
+
+    expect(mesh.morphTargetInfluences).toEqual([0.5, 0.5].map((value) => expect.closeTo(value, 5)));
+  });
+});
+
+describe("reduceKeyframes", () => {
+  it("drops keyframes on a straight line and keeps the corners", () => {
+    const track = new NumberKeyframeTrack(".x", [0, 1, 2, 3, 4], [0, 1, 2, 0, 0]);
+    const reduced = reduceKeyframes(track, 0.01);
+
+    expect(Array.from(reduced.times)).toEqual([0, 2, 3, 4]);
+    expect(Array.from(reduced.values)).toEqual([0, 2, 0, 0]);
+  });
+
+  it("keeps noise above the tolerance", () => {
+    const track = new NumberKeyframeTrack(".x", [0, 1, 2], [0, 0.1, 0]);
+
+    expect(reduceKeyframes(track, 0.05).times).toHaveLength(3);
+    expect(reduceKeyframes(track, 0.2).times).toHaveLength(2);
+  });
+
+  it("stays within the tolerance on a slow curve", () => {
+    const times = Array.from({ length: 101 }, (_, i) => i);
+    const track = new NumberKeyframeTrack(".x", times, times.map((t) => (t / 100) ** 2));
+    const reduced = reduceKeyframes(track, 0.005);
+    const interpolant = reduced.createInterpolant();
+
+    const maxError = Math.max(...times.map((t) => Math.abs(interpolant.evaluate(t)[0] - (t / 100) ** 2)));
+    expect(reduced.times.length).toBeLessThan(times.length);
+    expect(maxError).toBeLessThanOrEqual(0.005 + 1e-6);
+  });
+
+  it("slerps rotations and keeps their angle within the tolerance", () => {
+    const times = Array.from({ length: 101 }, (_, i) => i);
+    const rotate = (angle: number) => new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), angle);
+    const steady = new QuaternionKeyframeTrack(".quaternion", times, times.flatMap((t) => rotate(t / 50).toArray()));
+    const curve = (t: number) => rotate(Math.PI * (t / 100) ** 2);
+    const track = new QuaternionKeyframeTrack(".quaternion", times, times.flatMap((t) => curve(t).toArray()));
+    const reduced = reduceKeyframes(track, 0.01);
+    const interpolant = reduced.createInterpolant();
+
+    const maxError = Math.max(...times.map((t) => new Quaternion().fromArray(interpolant.evaluate(t)).angleTo(curve(t))));
+    expect(reduceKeyframes(steady, 0.001).times).toHaveLength(2);
+    expect(reduced.times.length).toBeLessThan(times.length);
+    expect(maxError).toBeLessThanOrEqual(0.01 + 1e-4);
+  });
+
+  it("reduces every track of a clip", () => {
+    const { model, mesh } = createModel();
+    const capture = new AnimationCapture();
+    capture.start([mesh], [model]);
+    for (let i = 0; i < 10; i++) capture.capture(i * 33);
+
+    const clip = reduceClip(capture.stop(), 0.001);
+
+    expect(clip.tracks.every((track) => track.times.length === 2)).toBe(true);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  AnimationClip,
+  KeyframeTrack,
+  Matrix4,
+  Mesh,
+  NumberKeyframeTrack,
+  Object3D,
+  Quaternion,
+  QuaternionKeyframeTrack,
+  Vector3,
+  VectorKeyframeTrack,
+} from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter";
+
+interface TransformSamples {
+  positions: number[];
+  quaternions: number[];
+  scales: number[];
+}
+
+/**
+ * Records the morph target influences of some meshes and the local transform
+ * of some nodes once per `capture()` call, and turns them into an
+ * `AnimationClip`. Tracks address their targets by uuid, so the clip plays
+ * back on the captured model and exports with it.
+ */
+export class AnimationCapture {
+  private startTime: number | null = null;
+  private times: number[] = [];
+  private morphs = new Map<Mesh, number[]>();
+  private transforms = new Map<Object3D, TransformSamples>();
+  private active = false;
+
+  get recording(): boolean {
+    return this.active;
+  }
+
+  /** Number of samples captured so far. */
+  get length(): number {
+    return this.times.length;
+  }
+
+  /**
+   * Starts a new capture of `meshes` and `nodes`.
+   * @param meshes Meshes whose morph target influences are recorded.
+   * @param nodes Nodes whose position, rotation and scale are recorded.
+   */
+  start(meshes: Mesh[], nodes: Object3D[]) {
+    this.startTime = null;
+    this.times = [];
+    this.morphs = new Map(meshes.filter((mesh) => mesh.morphTargetInfluences?.length).map((mesh) => [mesh, []]));
+    this.transforms = new Map(nodes.map((node) => [node, { positions: [], quaternions: [], scales: [] }]));
+    this.active = true;
+  }
+
+  /**
+   * Samples the current state of the captured objects.
+   * @param timestamp Time of the sample in ms.
+   */
+  capture(timestamp: number) {
+    if (!this.active) return;
+    this.startTime ??= timestamp;
+    this.times.push((timestamp - this.startTime) / 1000);
+
+    for (const [mesh, values] of this.morphs) {
+      values.push(...mesh.morphTargetInfluences!);
+    }
+
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    const scale = new Vector3();
+    for (const [node, samples] of this.transforms) {
+      // Nodes driven through `matrix` do not keep their TRS properties in sync.
+      if (node.matrixAutoUpdate) {
+        position.copy(node.position);
+        quaternion.copy(node.quaternion);
+        scale.copy(node.scale);
+      } else {
+        new Matrix4().copy(node.matrix).decompose(position, quaternion, scale);
+      }
+      samples.positions.push(...position.toArray());
+      samples.quaternions.push(...quaternion.toArray());
+      samples.scales.push(...scale.toArray());
+    }
+  }
+
+  /**
+   * Ends the capture and returns the recorded clip.
+   */
+  stop(name = "capture"): AnimationClip {
+    this.active = false;
+    const tracks: KeyframeTrack[] = [];
+    if (this.times.length === 0) return new AnimationClip(name, 0, tracks);
+
+    for (const [mesh, values] of this.morphs) {
+      tracks.push(new NumberKeyframeTrack(`${mesh.uuid}.morphTargetInfluences`, this.times, values));
+    }
+    for (const [node, samples] of this.transforms) {
+      tracks.push(new VectorKeyframeTrack(`${node.uuid}.position`, this.times, samples.positions));
+      tracks.push(new QuaternionKeyframeTrack(`${node.uuid}.quaternion`, this.times, samples.quaternions));
+      tracks.push(new VectorKeyframeTrack(`${node.uuid}.scale`, this.times, samples.scales));
+    }
+    return new AnimationClip(name, -1, tracks);
+  }
+}
+
+/**
+ * Drops the keyframes that interpolation between the kept ones reproduces
+ * within `tolerance`, by Ramer–Douglas–Peucker: a segment keeps its farthest
+ * keyframe and is split there until every keyframe in between is within
+ * `tolerance` of it. The first and last keyframes are always kept.
+ *
+ * Quaternion tracks are slerped and measured by the angle to the recorded
+ * rotation in radians, every other track is lerped and measured per component.
+ */
+export function reduceKeyframes<T extends KeyframeTrack>(track: T, tolerance: number): T {
+  const { times, values } = track;
+  const size = track.getValueSize();
+  if (times.length <= 2) return track;
+
+  const startRotation = new Quaternion();
+  const endRotation = new Quaternion();
+  const expectedRotation = new Quaternion();
+  const recordedRotation = new Quaternion();
+
+  // Largest deviation of keyframe `i` from the segment.
+  const getError = (start: number, end: number, i: number) => {
+    const t = (times[i] - times[start]) / (times[end] - times[start]);
+    if (track instanceof QuaternionKeyframeTrack) {
+      startRotation.fromArray(values, start * 4);
+      endRotation.fromArray(values, end * 4);
+      expectedRotation.slerpQuaternions(startRotation, endRotation, t);
+      return expectedRotation.angleTo(recordedRotation.fromArray(values, i * 4));
+    }
+    let error = 0;
+    for (let j = 0; j < size; j++) {
+      const expected = values[start * size + j] + (values[end * size + j] - values[start * size + j]) * t;
+      error = Math.max(error, Math.abs(values[i * size + j] - expected));
+    }
+    return error;
+  };
+
+  const keep = new Array<boolean>(times.length).fill(false);
+  keep[0] = keep[times.length - 1] = true;
+  const segments: [number, number][] = [[0, times.length - 1]];
+  for (let segment = segments.pop(); segment; segment = segments.pop()) {
+    const [start, end] = segment;
+    let farthest = -1;
+    let maxError = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const error = getError(start, end, i);
+      if (error > maxError) {
+        farthest = i;
+        maxError = error;
+      }
+    }
+    if (farthest < 0) continue;
+    keep[farthest] = true;
+    segments.push([start, farthest], [farthest, end]);
+  }
+  const kept = keep.flatMap((isKept, i) => isKept ? [i] : []);
+
+  const reduced = track.clone() as T;
+  reduced.times = new Float32Array(kept.map((i) => times[i]));
+  reduced.values = new Float32Array(kept.flatMap((i) => Array.from(values.subarray(i * size, (i + 1) * size))));
+  return reduced;
+}
+
+/**
+ * Returns a copy of `clip` with `reduceKeyframes` applied to every track.
+ */
+export function reduceClip(clip: AnimationClip, tolerance: number): AnimationClip {
+  return new AnimationClip(clip.name, clip.duration, clip.tracks.map((track) => reduceKeyframes(track, tolerance)));
+}
+
+/**
+ * Exports `model` with `clips` as a binary glTF.
+ */
+export async function exportGLB(model: Object3D, clips: AnimationClip[]): Promise<ArrayBuffer> {
+  const result = await new GLTFExporter().parseAsync(model, { binary: true, animations: clips });
+  if (!(result instanceof ArrayBuffer)) throw new Error("GLTFExporter did not return a binary glTF.");
+  return result;
+}
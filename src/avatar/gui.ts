@@ -0,0 +1,316 @@
+import { AnimationClip, Mesh, Object3D } from "three";
+import { GUI } from "three/examples/jsm/libs/lil-gui.module.min";
+
+import { downloadBlob, downloadJSON, readJSONFile } from "../shared/download";
+import { pickFile } from "../shared/source";
+import { EyeBones, HEAD_CHAIN, HeadChainSettings } from "./bones";
+import { AnimationCapture, exportGLB, reduceClip } from "./capture";
+import { BUILTIN_MAPPINGS, BlendshapeMapping, MappingReport, getBuiltinMapping, parseBlendshapeMapping } from "./mapping";
+import {
+  MEDIAPIPE_BLENDSHAPES,
+  RESPONSE_CURVES,
+  RetargetProfile,
+  getBlendshapeRetarget,
+  parseRetargetProfile,
+} from "./retarget";
+import { GAZE_SOURCES, GazeSource } from "./vrm";
+
+/**
+ * A GUI folder whose fields mirror some outside state. `refresh` updates them
+ * after that state was replaced, e.g. when another model was loaded.
+ */
+export interface RefreshableFolder {
+  folder: GUI;
+  refresh(): void;
+}
+
+/**
+ * Adds a "Retarget" folder that edits `holder.profile` live, one MediaPipe
+ * category at a time, and loads or saves it as JSON.
+ */
+export function setupRetargetGUI(gui: GUI, holder: { profile: RetargetProfile }): RefreshableFolder {
+  const folder = gui.addFolder("Retarget");
+
+  const editor = {
+    profile: holder.profile.name,
+    blendshape: MEDIAPIPE_BLENDSHAPES[1],
+    gain: 1,
+    offset: 0,
+    clamped: false,
+    clampMin: 0,
+    clampMax: 1,
+    curve: "linear",
+    target: "",
+    load: async () => {
+      try {
+        holder.profile = parseRetargetProfile(await readJSONFile(await pickFile("application/json")));
+        select();
+      } catch (e) {
+        console.error(`Failed to load retarget profile: ${e}`);
+      }
+    },
+    save: () => downloadJSON(holder.profile, `${holder.profile.name}.json`),
+  };
+
+  // Copies the selected category's effective settings into the editor.
+  const select = () => {
+    const settings = getBlendshapeRetarget(holder.profile, editor.blendshape);
+    editor.profile = holder.profile.name;
+    editor.gain = settings.gain;
+    editor.offset = settings.offset;
+    editor.clamped = settings.clamp !== null;
+    editor.clampMin = settings.clamp?.[0] ?? 0;
+    editor.clampMax = settings.clamp?.[1] ?? 1;
+    editor.curve = settings.curve;
+    editor.target = settings.target ?? "";
+    folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+  };
+
+  // Writes the editor back as an override for the selected category.
+  const apply = () => {
+    holder.profile.name = editor.profile;
+    holder.profile.blendshapes[editor.blendshape] = {
+      gain: editor.gain,
+      offset: editor.offset,
+      clamp: editor.clamped ? [editor.clampMin, editor.clampMax] : null,
+      curve: editor.curve as RetargetProfile["defaults"]["curve"],
+      target: editor.target || undefined,
+    };
+  };
+
+  folder.add(editor, "profile").name("Profile").onChange(apply);
+  folder.add(editor, "blendshape", MEDIAPIPE_BLENDSHAPES).name("Blendshape").onChange(select);
+  folder.add(editor, "gain", 0, 3, 0.05).name("Gain").onChange(apply);
+  folder.add(editor, "offset", -1, 1, 0.01).name("Offset").onChange(apply);
+  folder.add(editor, "clamped").name("Clamp").onChange(apply);
+  folder.add(editor, "clampMin", -1, 2, 0.01).name("Clamp Min").onChange(apply);
+  folder.add(editor, "clampMax", -1, 2, 0.01).name("Clamp Max").onChange(apply);
+  folder.add(editor, "curve", [...RESPONSE_CURVES]).name("Curve").onChange(apply);
+  folder.add(editor, "target").name("Target Name").onChange(apply);
+  folder.add(editor, "load").name("Load JSON");
+  folder.add(editor, "save").name("Save JSON");
+
+  select();
+  return { folder, refresh: select };
+}
+
+/**
+ * Adds a "Mapping" folder to pick the blendshape naming convention of the
+ * avatar, load a custom mapping and list the targets the rig could not map.
+ * "auto" lets the avatar pick the convention from the kind of model. "Report"
+ * shows the full lists in the folder, one name per line.
+ */
+export function setupMappingGUI(
+  gui: GUI,
+  avatar: {
+    mapping: BlendshapeMapping | null;
+    readonly activeMapping: BlendshapeMapping;
+    setMapping(mapping: BlendshapeMapping | null): void;
+    getMappingReport(): MappingReport;
+  }
+): RefreshableFolder {
+  const folder = gui.addFolder("Mapping");
+
+  // The last mapping that is not built in, selectable again as "custom".
+  let custom: BlendshapeMapping | null = null;
+
+  const details = document.createElement("pre");
+  details.style.margin = "4px 8px";
+  details.style.whiteSpace = "pre-wrap";
+  details.hidden = true;
+
+  const editor = {
+    mapping: "auto",
+    missing: "",
+    unused: "",
+    load: async () => {
+      try {
+        custom = parseBlendshapeMapping(await readJSONFile(await pickFile("application/json")));
+        avatar.setMapping(custom);
+        refresh();
+      } catch (e) {
+        console.error(`Failed to load blendshape mapping: ${e}`);
+      }
+    },
+    save: () => downloadJSON(avatar.activeMapping, `${avatar.activeMapping.name}.json`),
+    report: () => {
+      details.hidden = !details.hidden;
+      reportButton.name(details.hidden ? "Show Report" : "Hide Report");
+      refresh();
+    },
+  };
+
+  const refresh = () => {
+    if (avatar.mapping && !Object.values(BUILTIN_MAPPINGS).includes(avatar.mapping)) custom = avatar.mapping;
+    editor.mapping = avatar.mapping ? (avatar.mapping === custom ? "custom" : avatar.mapping.name) : "auto";
+
+    const report = avatar.getMappingReport();
+    editor.missing = report.missing.join(", ");
+    editor.unused = report.unused.join(", ");
+    details.textContent = [
+      `Missing (${report.missing.length})`,
+      ...report.missing.map((name) => `  ${name}`),
+      `Unused (${report.unused.length})`,
+      ...report.unused.map((name) => `  ${name}`),
+    ].join("\n");
+    folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+  };
+
+  const names = ["auto", ...Object.keys(BUILTIN_MAPPINGS), "custom"];
+  folder.add(editor, "mapping", names).name("Convention").onChange((name: string) => {
+    const builtin = getBuiltinMapping(name);
+    if (name === "auto") avatar.setMapping(null);
+    else if (builtin) avatar.setMapping(builtin);
+    else if (custom) avatar.setMapping(custom);
+    refresh();
+  });
+  folder.add(editor, "missing").name("Missing").disable();
+  folder.add(editor, "unused").name("Unused").disable();
+  const reportButton = folder.add(editor, "report").name("Show Report");
+  folder.add(editor, "load").name("Load JSON");
+  folder.add(editor, "save").name("Save JSON");
+  folder.$children.appendChild(details);
+
+  refresh();
+  return { folder, refresh };
+}
+
+/**
+ * Adds a "Head Bones" folder to switch between moving the whole model and
+ * turning its bones, whether the model still follows the head while its
+ * bones turn, and to tune each bone's share of the head rotation.
+ */
+export function setupHeadChainGUI(
+  gui: GUI,
+  holder: { headChainSettings: HeadChainSettings },
+  options: { decompose?: boolean; followHead?: boolean }
+): GUI {
+  const folder = gui.addFolder("Head Bones");
+  folder.add(options, "decompose").name("Drive Bones");
+  folder.add(options, "followHead").name("Follow Head");
+
+  for (const bone of HEAD_CHAIN) {
+    const settings = holder.headChainSettings[bone];
+    const boneFolder = folder.addFolder(bone[0].toUpperCase() + bone.slice(1));
+    boneFolder.add(settings, "weight", 0, 1, 0.01).name("Weight");
+    boneFolder.add(settings, "limit", 0, 180, 1).name("Limit (deg)");
+  }
+
+  folder.close();
+  return folder;
+}
+
+/**
+ * Adds a "Gaze" folder that picks what turns the avatar's eyes.
+ */
+export function setupGazeGUI(gui: GUI, holder: { gazeSource: GazeSource; eyes: EyeBones | null }): GUI {
+  const folder = gui.addFolder("Gaze");
+  folder.add(holder, "gazeSource", [...GAZE_SOURCES]).name("Source").onChange(() => holder.eyes?.reset());
+
+  folder.close();
+  return folder;
+}
+
+/**
+ * Adds a "Model" folder to switch between `models`, given as name to URL, or
+ * open a local .vrm or .glb file.
+ */
+export function setupModelGUI(
+  gui: GUI,
+  models: { [name: string]: string },
+  current: string,
+  load: (model: string | File) => void
+): GUI {
+  const folder = gui.addFolder("Model");
+
+  const editor = {
+    model: current,
+    open: async () => load(await pickFile(".vrm,.glb")),
+  };
+
+  folder.add(editor, "model", models).name("Model").onChange(load);
+  folder.add(editor, "open").name("Open File");
+
+  return folder;
+}
+
+/**
+ * Adds a "Capture" folder to record the avatar's performance, preview it on
+ * the model and export it as a GLB with the animation. `refresh` drops the
+ * recording, which targets the nodes of the previous model.
+ */
+export function setupCaptureGUI(
+  gui: GUI,
+  avatar: {
+    gltf: { scene: Object3D } | null;
+    morphTargetMeshes: Mesh[];
+    getAnimatedNodes(): Object3D[];
+    readonly previewing: boolean;
+    preview(clip: AnimationClip): void;
+    stopPreview(): void;
+  },
+  capture: AnimationCapture
+): RefreshableFolder {
+  const folder = gui.addFolder("Capture");
+  let clip: AnimationClip | null = null;
+
+  // The recorded clip, reduced when asked to.
+  const output = () => clip && (editor.reduce ? reduceClip(clip, editor.tolerance) : clip);
+
+  const editor = {
+    status: "Nothing recorded",
+    reduce: true,
+    tolerance: 0.005,
+    record: () => {
+      if (capture.recording) {
+        clip = capture.stop("performance");
+        recordButton.name("Start Recording");
+        editor.status = `${capture.length} frames, ${clip.duration.toFixed(1)} s`;
+      } else {
+        avatar.stopPreview();
+        capture.start(avatar.morphTargetMeshes, avatar.getAnimatedNodes());
+        recordButton.name("Stop Recording");
+        editor.status = "Recording…";
+      }
+      refresh();
+    },
+    preview: () => {
+      const recorded = output();
+      if (avatar.previewing || !recorded) {
+        avatar.stopPreview();
+      } else {
+        avatar.preview(recorded);
+      }
+      previewButton.name(avatar.previewing ? "Stop Preview" : "Preview");
+    },
+    export: async () => {
+      const recorded = output();
+      if (!recorded || !avatar.gltf) return;
+      try {
+        const glb = await exportGLB(avatar.gltf.scene, [recorded]);
+        downloadBlob(new Blob([glb], { type: "model/gltf-binary" }), "performance.glb");
+      } catch (e: unknown) {
+        console.error(`Failed to export GLB: ${e}`);
+      }
+    },
+  };
+
+  const refresh = () => folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+  const reset = () => {
+    if (capture.recording) capture.stop();
+    clip = null;
+    recordButton.name("Start Recording");
+    previewButton.name("Preview");
+    editor.status = "Nothing recorded";
+    refresh();
+  };
+
+  folder.add(editor, "status").name("Status").disable();
+  const recordButton = folder.add(editor, "record").name("Start Recording");
+  folder.add(editor, "reduce").name("Reduce Keyframes");
+  folder.add(editor, "tolerance", 0.0001, 0.1, 0.0001).name("Tolerance");
+  const previewButton = folder.add(editor, "preview").name("Preview");
+  folder.add(editor, "export").name("Export GLB");
+
+  return { folder, refresh: reset };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  ARKIT_MAPPING,
+  READY_PLAYER_ME_MAPPING,
+  VRM0_MAPPING,
+  VRM1_MAPPING,
+  applyMapping,
+  findMorphTarget,
+  getBuiltinMapping,
+  getMappingReport,
+  parseBlendshapeMapping,
+} from "./mapping";
+import { retarget } from "./retarget";
+
+const coefs = retarget(faceRecording.frames[1].faceBlendshapes!);
+const scoreOf = (name: string) => coefs.get(name)!;
+
+describe("applyMapping", () => {
+  it("forwards ARKit names as they are, without _neutral", () => {
+    const targets = applyMapping(coefs, ARKIT_MAPPING);
+
+    expect(targets.size).toBe(51);
+    expect(targets.has("_neutral")).toBe(false);
+    expect(targets.get("jawOpen")).toBe(scoreOf("jawOpen"));
+  });
+
+  it("averages both eyes into the VRM 0.x Blink preset", () => {
+    const targets = applyMapping(coefs, VRM0_MAPPING);
+
+    expect(targets.get("Blink")).toBeCloseTo((scoreOf("eyeBlinkLeft") + scoreOf("eyeBlinkRight")) / 2);
+    expect(targets.get("A")).toBe(scoreOf("jawOpen"));
+    expect(targets.has("jawOpen")).toBe(false);
+  });
+
+  it("drives VRM 1.0 expressions", () => {
+    const targets = applyMapping(coefs, VRM1_MAPPING);
+
+    expect(targets.get("aa")).toBe(scoreOf("jawOpen"));
+    expect(targets.get("blinkLeft")).toBe(scoreOf("eyeBlinkLeft"));
+    expect([...targets.keys()]).toEqual(Object.keys(VRM1_MAPPING.targets));
+  });
+
+  it("adds Ready Player Me shapes on top of the ARKit names", () => {
+    const targets = applyMapping(coefs, READY_PLAYER_ME_MAPPING);
+
+    expect(targets.get("mouthOpen")).toBe(scoreOf("jawOpen"));
+    expect(targets.get("eyeBlinkLeft")).toBe(scoreOf("eyeBlinkLeft"));
+  });
+
+  it("skips targets whose sources are all missing", () => {
+    const targets = applyMapping(new Map([["jawOpen", 0.5]]), VRM1_MAPPING);
+
+    expect([...targets]).toEqual([["aa", 0.5]]);
+  });
+});
+
+describe("findMorphTarget", () => {
+  it("prefers the exact name and falls back to any case", () => {
+    const dictionary = { EyeBlinkLeft: 0, eyeblinkleft: 1, jawOpen: 2 };
+
+    expect(findMorphTarget(dictionary, "eyeblinkleft")).toBe(1);
+    expect(findMorphTarget(dictionary, "EYEBLINKLEFT")).toBe(0);
+    expect(findMorphTarget(dictionary, "mouthClose")).toBeUndefined();
+  });
+
+  it("ignores inherited keys", () => {
+    expect(findMorphTarget({ jawOpen: 0 }, "toString")).toBeUndefined();
+    expect(findMorphTarget({ jawOpen: 0 }, "constructor")).toBeUndefined();
+  });
+});
+
+describe("getMappingReport", () => {
+  it("lists missing and unused targets", () => {
+    const report = getMappingReport(["A", "Blink", "Extra", "Blink"], ["a", "blink", "Joy"]);
+
+    expect(report).toEqual({ missing: ["Joy"], unused: ["Extra"] });
+  });
+});
+
+describe("getBuiltinMapping", () => {
+  it("finds built-in mappings by name but not inherited keys", () => {
+    expect(getBuiltinMapping("arkit")).toBe(ARKIT_MAPPING);
+    expect(getBuiltinMapping("constructor")).toBeUndefined();
+    expect(getBuiltinMapping("toString")).toBeUndefined();
+  });
+});
+
+describe("parseBlendshapeMapping", () => {
+  it("accepts weighted sources and plain renames", () => {
+    const mapping = parseBlendshapeMapping({
+      name: "rig",
+      passthrough: false,
+      targets: { smile: { mouthSmileLeft: 0.5, mouthSmileRight: 0.5, bad: "x" }, open: "jawOpen", broken: 3 },
+    });
+
+    expect(mapping).toEqual({
+      name: "rig",
+      passthrough: false,
+      targets: { smile: { mouthSmileLeft: 0.5, mouthSmileRight: 0.5 }, open: { jawOpen: 1 } },
+    });
+  });
+
+  it("forwards categories unless told otherwise", () => {
+    expect(parseBlendshapeMapping({})).toEqual({ name: "custom", passthrough: true, targets: {} });
+  });
+
+  it("treats anything but an object as an empty mapping", () => {
+    for (const json of [null, [], "arkit", 3]) {
+      expect(parseBlendshapeMapping(json)).toEqual({ name: "custom", passthrough: true, targets: {} });
+    }
+  });
+});
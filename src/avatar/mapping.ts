@@ -0,0 +1,217 @@
+import { isRecord } from "../shared/json";
+
+/**
+ * Weighted MediaPipe (ARKit-named) categories that drive one target.
+ */
+export interface MappingSources {
+  [categoryName: string]: number;
+}
+
+/**
+ * Converts retargeted MediaPipe blendshapes into the names a rig uses.
+ */
+export interface BlendshapeMapping {
+  name: string;
+  /**
+   * Whether categories are also forwarded under their own name. Names starting
+   * with `_`, such as `_neutral`, are never forwarded.
+   */
+  passthrough: boolean;
+  /** Targets computed as the weighted sum of their sources. */
+  targets: { [targetName: string]: MappingSources };
+}
+
+const both = (left: string, right: string, weight = 0.5): MappingSources => ({ [left]: weight, [right]: weight });
+
+/** Rigs that follow Apple's ARKit names, which MediaPipe already outputs. */
+export const ARKIT_MAPPING: BlendshapeMapping = {
+  name: "arkit",
+  passthrough: true,
+  targets: {},
+};
+
+/** VRM 0.x blend shape presets. */
+export const VRM0_MAPPING: BlendshapeMapping = {
+  name: "vrm0",
+  passthrough: false,
+  targets: {
+    Neutral: { _neutral: 1 },
+    A: { jawOpen: 1 },
+    I: both("mouthSmileLeft", "mouthSmileRight"),
+    U: { mouthPucker: 1 },
+    E: both("mouthStretchLeft", "mouthStretchRight"),
+    O: { mouthFunnel: 1 },
+    Blink: both("eyeBlinkLeft", "eyeBlinkRight"),
+    Blink_L: { eyeBlinkLeft: 1 },
+    Blink_R: { eyeBlinkRight: 1 },
+    Joy: both("mouthSmileLeft", "mouthSmileRight"),
+    Angry: both("browDownLeft", "browDownRight"),
+    Sorrow: both("mouthFrownLeft", "mouthFrownRight"),
+    Fun: both("cheekSquintLeft", "cheekSquintRight"),
+    LookUp: both("eyeLookUpLeft", "eyeLookUpRight"),
+    LookDown: both("eyeLookDownLeft", "eyeLookDownRight"),
+    LookLeft: both("eyeLookOutLeft", "eyeLookInRight"),
+    LookRight: both("eyeLookInLeft", "eyeLookOutRight"),
+  },
+};
+
+/** VRM 1.0 expression presets. */
+export const VRM1_MAPPING: BlendshapeMapping = {
+  name: "vrm1",
+  passthrough: false,
+  targets: {
+    neutral: { _neutral: 1 },
+    aa: { jawOpen: 1 },
+    ih: both("mouthSmileLeft", "mouthSmileRight"),
+    ou: { mouthPucker: 1 },
+    ee: both("mouthStretchLeft", "mouthStretchRight"),
+    oh: { mouthFunnel: 1 },
+    blink: both("eyeBlinkLeft", "eyeBlinkRight"),
+    blinkLeft: { eyeBlinkLeft: 1 },
+    blinkRight: { eyeBlinkRight: 1 },
+    happy: both("mouthSmileLeft", "mouthSmileRight"),
+    angry: both("browDownLeft", "browDownRight"),
+    sad: both("mouthFrownLeft", "mouthFrownRight"),
+    relaxed: both("cheekSquintLeft", "cheekSquintRight"),
+    surprised: { browInnerUp: 0.5, eyeWideLeft: 0.25, eyeWideRight: 0.25 },
+    lookUp: both("eyeLookUpLeft", "eyeLookUpRight"),
+    lookDown: both("eyeLookDownLeft", "eyeLookDownRight"),
+    lookLeft: both("eyeLookOutLeft", "eyeLookInRight"),
+    lookRight: both("eyeLookInLeft", "eyeLookOutRight"),
+  },
+};
+
+/** Ready Player Me avatars: ARKit names plus their extra mouth shapes and visemes. */
+export const READY_PLAYER_ME_MAPPING: BlendshapeMapping = {
+  name: "readyPlayerMe",
+  passthrough: true,
+  targets: {
+    mouthOpen: { jawOpen: 1 },
+    mouthSmile: both("mouthSmileLeft", "mouthSmileRight"),
+    viseme_aa: { jawOpen: 1 },
+    viseme_I: both("mouthSmileLeft", "mouthSmileRight"),
+    viseme_U: { mouthPucker: 1 },
+    viseme_E: both("mouthStretchLeft", "mouthStretchRight"),
+    viseme_O: { mouthFunnel: 1 },
+    viseme_PP: { mouthClose: 1 },
+  },
+};
+
+export const BUILTIN_MAPPINGS: { [name: string]: BlendshapeMapping } = {
+  arkit: ARKIT_MAPPING,
+  vrm0: VRM0_MAPPING,
+  vrm1: VRM1_MAPPING,
+  readyPlayerMe: READY_PLAYER_ME_MAPPING,
+};
+
+/**
+ * The built-in mapping called `name`, if any. Inherited keys such as
+ * "constructor" are not mappings.
+ */
+export function getBuiltinMapping(name: string): BlendshapeMapping | undefined {
+  return Object.hasOwn(BUILTIN_MAPPINGS, name) ? BUILTIN_MAPPINGS[name] : undefined;
+}
+
+/**
+ * Converts `blendshapes` into target names following `mapping`. A mapped
+ * target wins over a forwarded category of the same name.
+ */
+export function applyMapping(blendshapes: Map<string, number>, mapping: BlendshapeMapping): Map<string, number> {
+  const targets = new Map<string, number>();
+
+  if (mapping.passthrough) {
+    for (const [name, value] of blendshapes) {
+      if (!name.startsWith("_")) targets.set(name, value);
+    }
+  }
+
+  for (const [target, sources] of Object.entries(mapping.targets)) {
+    let value = 0;
+    let found = false;
+    for (const [source, weight] of Object.entries(sources)) {
+      const score = blendshapes.get(source);
+      if (score === undefined) continue;
+      value += score * weight;
+      found = true;
+    }
+    if (found) targets.set(target, value);
+  }
+
+  return targets;
+}
+
+/**
+ * Looks `name` up in a morph target dictionary, falling back to a
+ * case-insensitive match (`EyeBlinkLeft` for `eyeBlinkLeft`). Inherited keys
+ * such as "toString" are not morph targets.
+ */
+export function findMorphTarget(dictionary: { [name: string]: number }, name: string): number | undefined {
+  if (Object.hasOwn(dictionary, name)) return dictionary[name];
+
+  const lower = name.toLowerCase();
+  for (const [key, index] of Object.entries(dictionary)) {
+    if (key.toLowerCase() === lower) return index;
+  }
+  return undefined;
+}
+
+export interface MappingReport {
+  /** Targets the mapping produced that the rig does not have. */
+  missing: string[];
+  /** Morph targets of the rig that nothing drives. */
+  unused: string[];
+}
+
+/**
+ * Compares the target names produced by a mapping with the morph targets of
+ * a rig.
+ */
+export function getMappingReport(morphTargetNames: Iterable<string>, producedNames: Iterable<string>): MappingReport {
+  const rig = [...new Set(morphTargetNames)];
+  const produced = [...new Set(producedNames)];
+  const matches = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  return {
+    missing: produced.filter((name) => !rig.some((target) => matches(target, name))),
+    unused: rig.filter((target) => !produced.some((name) => matches(target, name))),
+  };
+}
+
+/**
+ * Builds a mapping from parsed JSON, ignoring malformed targets.
+ */
+export function parseBlendshapeMapping(json: unknown): BlendshapeMapping {
+  const mapping: Record<string, unknown> = isRecord(json) ? json : {};
+  const targets: BlendshapeMapping["targets"] = {};
+  for (const [target, sources] of Object.entries(isRecord(mapping.targets) ? mapping.targets : {})) {
+    if (typeof sources === "string") {
+      targets[target] = { [sources]: 1 };
+      continue;
+    }
+    if (!isRecord(sources)) continue;
+
+    const weights: MappingSources = {};
+    for (const [source, weight] of Object.entries(sources)) {
+      if (typeof weight === "number") weights[source] = weight;
+    }
+    targets[target] = weights;
+  }
+
+  return {
+    name: typeof mapping.name === "string" ? mapping.name : "custom",
+    passthrough: mapping.passthrough !== false,
+    targets,
+  };
+}
+
+/**
+ * Resolves `nameOrUrl` to a built-in mapping, or fetches a custom one.
+ */
+export async function loadBlendshapeMapping(nameOrUrl: string): Promise<BlendshapeMapping> {
+  const builtin = getBuiltinMapping(nameOrUrl);
+  if (builtin) return builtin;
+
+  const response = await fetch(nameOrUrl);
+  if (!response.ok) throw new Error(`Failed to load blendshape mapping ${nameOrUrl}: ${response.status}`);
+  return parseBlendshapeMapping(await response.json());
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  IDENTITY_RETARGET,
+  applyRetarget,
+  getBlendshapeRetarget,
+  parseRetargetProfile,
+  retarget,
+} from "./retarget";
+
+const blendshapes = faceRecording.frames[1].faceBlendshapes!;
+const scoreOf = (name: string) =>
+  blendshapes[0].categories.find((category) => category.categoryName === name)!.score;
+
+describe("retarget", () => {
+  it("maps every category by name", () => {
+    const coefs = retarget(blendshapes);
+
+    expect(coefs.size).toBe(52);
+    expect(coefs.get("jawOpen")).toBe(scoreOf("jawOpen"));
+  });
+
+  it.each(["browOuterUpLeft", "browOuterUpRight", "eyeBlinkLeft", "eyeBlinkRight"])(
+    "boosts %s by 1.2",
+    (name) => {
+      expect(retarget(blendshapes).get(name)).toBeCloseTo(scoreOf(name) * 1.2);
+    }
+  );
+
+  it("returns nothing without blendshapes", () => {
+    expect(retarget([]).size).toBe(0);
+  });
+
+  it("leaves the detection result untouched", () => {
+    const before = scoreOf("eyeBlinkLeft");
+    retarget(blendshapes);
+    expect(scoreOf("eyeBlinkLeft")).toBe(before);
+  });
+
+  it("takes scores relative to a calibrated baseline", () => {
+    const coefs = retarget(blendshapes, undefined, { jawOpen: scoreOf("jawOpen") });
+
+    expect(coefs.get("jawOpen")).toBe(0);
+    expect(coefs.get("mouthClose")).toBe(scoreOf("mouthClose"));
+  });
+});
+
+describe("applyRetarget", () => {
+  const settings = { ...IDENTITY_RETARGET };
+
+  it("applies the curve before gain and offset", () => {
+    expect(applyRetarget(0.5, { ...settings, curve: "easeIn", gain: 2, offset: 0.1 })).toBeCloseTo(0.6);
+    expect(applyRetarget(0.5, { ...settings, curve: "easeOut" })).toBeCloseTo(0.75);
+    expect(applyRetarget(0.5, { ...settings, curve: "smoothstep" })).toBeCloseTo(0.5);
+  });
+
+  it("clamps only when a range is set", () => {
+    expect(applyRetarget(0.9, { ...settings, gain: 2 })).toBeCloseTo(1.8);
+    expect(applyRetarget(0.9, { ...settings, gain: 2, clamp: [0, 1] })).toBe(1);
+    expect(applyRetarget(0, { ...settings, offset: -0.5, clamp: [0, 1] })).toBe(0);
+  });
+});
+
+describe("retarget with a profile", () => {
+  const profile = parseRetargetProfile({
+    name: "rig",
+    defaults: { clamp: [0, 0.5] },
+    blendshapes: {
+      jawOpen: { gain: 2, clamp: null, target: "mouthOpen" },
+      mouthSmileLeft: { target: "smile" },
+      mouthSmileRight: { target: "smile" },
+    },
+  });
+
+  it("uses the profile defaults for unlisted categories", () => {
+    const coefs = retarget(blendshapes, profile);
+    expect(coefs.get("browInnerUp")).toBe(Math.min(0.5, scoreOf("browInnerUp")));
+  });
+
+  it("renames categories", () => {
+    const coefs = retarget(blendshapes, profile);
+
+    expect(coefs.has("jawOpen")).toBe(false);
+    expect(coefs.get("mouthOpen")).toBeCloseTo(scoreOf("jawOpen") * 2);
+  });
+
+  it("keeps the strongest category when several share a name", () => {
+    const expected = Math.min(0.5, Math.max(scoreOf("mouthSmileLeft"), scoreOf("mouthSmileRight")));
+    expect(retarget(blendshapes, profile).get("smile")).toBe(expected);
+  });
+});
+
+describe("parseRetargetProfile", () => {
+  it("fills in missing defaults and drops malformed fields", () => {
+    const profile = parseRetargetProfile({
+      blendshapes: { jawOpen: { gain: "loud", curve: "bouncy", offset: 0.1 } },
+    });
+
+    expect(profile.name).toBe("custom");
+    expect(profile.defaults).toEqual(IDENTITY_RETARGET);
+    expect(profile.blendshapes.jawOpen).toEqual({ offset: 0.1 });
+    expect(getBlendshapeRetarget(profile, "jawOpen")).toEqual({ ...IDENTITY_RETARGET, offset: 0.1 });
+  });
+
+  it("drops numbers that are not finite", () => {
+    const profile = parseRetargetProfile({
+      defaults: { gain: Infinity, offset: NaN },
+      blendshapes: { jawOpen: { clamp: [0, Infinity] }, mouthClose: { clamp: [0, "1"] } },
+    });
+
+    expect(profile.defaults).toEqual(IDENTITY_RETARGET);
+    expect(profile.blendshapes.jawOpen).toEqual({});
+    expect(profile.blendshapes.mouthClose).toEqual({});
+  });
+
+  it("keeps a __proto__ category as an ordinary entry", () => {
+    const profile = parseRetargetProfile(JSON.parse('{"blendshapes": {"__proto__": {"gain": 2}}}'));
+
+    expect(Object.keys(profile.blendshapes)).toEqual(["__proto__"]);
+    expect(getBlendshapeRetarget(profile, "jawOpen")).toEqual(IDENTITY_RETARGET);
+  });
+});
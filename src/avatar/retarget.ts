@@ -0,0 +1,162 @@
+import { Classifications } from "@mediapipe/tasks-vision";
+
+import { removeBaseline } from "../shared/calibration";
+import { isFiniteNumber, isOneOf, isRecord } from "../shared/json";
+
+/** Category names of the MediaPipe face blendshapes model, in output order. */
+export const MEDIAPIPE_BLENDSHAPES = [
+  "_neutral",
+  "browDownLeft", "browDownRight", "browInnerUp", "browOuterUpLeft", "browOuterUpRight",
+  "cheekPuff", "cheekSquintLeft", "cheekSquintRight",
+  "eyeBlinkLeft", "eyeBlinkRight",
+  "eyeLookDownLeft", "eyeLookDownRight", "eyeLookInLeft", "eyeLookInRight",
+  "eyeLookOutLeft", "eyeLookOutRight", "eyeLookUpLeft", "eyeLookUpRight",
+  "eyeSquintLeft", "eyeSquintRight", "eyeWideLeft", "eyeWideRight",
+  "jawForward", "jawLeft", "jawOpen", "jawRight",
+  "mouthClose", "mouthDimpleLeft", "mouthDimpleRight", "mouthFrownLeft", "mouthFrownRight",
+  "mouthFunnel", "mouthLeft", "mouthLowerDownLeft", "mouthLowerDownRight",
+  "mouthPressLeft", "mouthPressRight", "mouthPucker", "mouthRight",
+  "mouthRollLower", "mouthRollUpper", "mouthShrugLower", "mouthShrugUpper",
+  "mouthSmileLeft", "mouthSmileRight", "mouthStretchLeft", "mouthStretchRight",
+  "mouthUpperUpLeft", "mouthUpperUpRight", "noseSneerLeft", "noseSneerRight",
+];
+
+export const RESPONSE_CURVES = ["linear", "easeIn", "easeOut", "smoothstep"] as const;
+export type ResponseCurve = typeof RESPONSE_CURVES[number];
+
+/**
+ * How one MediaPipe category drives the avatar. The score goes through
+ * `curve`, then `gain` and `offset`, and is finally clamped to `clamp`.
+ */
+export interface BlendshapeRetarget {
+  gain: number;
+  offset: number;
+  /** `[min, max]`, or `null` to leave the value unclamped. */
+  clamp: [number, number] | null;
+  curve: ResponseCurve;
+  /** Name of the driven blendshape; defaults to the MediaPipe category name. */
+  target?: string;
+}
+
+export interface RetargetProfile {
+  name: string;
+  /** Settings for every category not listed in `blendshapes`. */
+  defaults: BlendshapeRetarget;
+  blendshapes: { [categoryName: string]: Partial<BlendshapeRetarget> };
+}
+
+export const IDENTITY_RETARGET: BlendshapeRetarget = {
+  gain: 1,
+  offset: 0,
+  clamp: null,
+  curve: "linear",
+};
+
+/** Profile matching the hand-tuned values the avatar demo started with. */
+export const DEFAULT_PROFILE: RetargetProfile = {
+  name: "default",
+  defaults: { ...IDENTITY_RETARGET },
+  blendshapes: {
+    // Adjust certain blendshape values to be less prominent.
+    browOuterUpLeft: { gain: 1.2 },
+    browOuterUpRight: { gain: 1.2 },
+    eyeBlinkLeft: { gain: 1.2 },
+    eyeBlinkRight: { gain: 1.2 },
+  },
+};
+
+const CURVES: { [curve in ResponseCurve]: (x: number) => number } = {
+  linear: (x) => x,
+  easeIn: (x) => x * x,
+  easeOut: (x) => 1 - (1 - x) * (1 - x),
+  smoothstep: (x) => x * x * (3 - 2 * x),
+};
+
+/**
+ * Returns the full settings of `categoryName` in `profile`.
+ */
+export function getBlendshapeRetarget(profile: RetargetProfile, categoryName: string): BlendshapeRetarget {
+  return { ...profile.defaults, ...profile.blendshapes[categoryName] };
+}
+
+/**
+ * Maps a single score through `settings`.
+ */
+export function applyRetarget(score: number, settings: BlendshapeRetarget): number {
+  const curve = CURVES[settings.curve] ?? CURVES.linear;
+  let value = curve(score) * settings.gain + settings.offset;
+  if (settings.clamp) {
+    value = Math.min(settings.clamp[1], Math.max(settings.clamp[0], value));
+  }
+  return value;
+}
+
+/**
+ * Turns the blendshape scores of the first face into a name to value map for
+ * `Avatar.updateBlendshapes`, following `profile`. Scores are first taken
+ * relative to the user's resting `baseline`, if given. When several categories
+ * are remapped onto the same name, the strongest one wins. The input scores
+ * are left untouched.
+ */
+export function retarget(
+  blendshapes: Classifications[],
+  profile: RetargetProfile = DEFAULT_PROFILE,
+  baseline: { [categoryName: string]: number } = {}
+): Map<string, number> {
+  const coefsMap = new Map<string, number>();
+  if (!blendshapes.length) return coefsMap;
+  const categories = blendshapes[0].categories;
+  for (const blendshape of categories) {
+    const settings = getBlendshapeRetarget(profile, blendshape.categoryName);
+    const name = settings.target || blendshape.categoryName;
+    const score = removeBaseline(blendshape.score, baseline[blendshape.categoryName]);
+    const value = applyRetarget(score, settings);
+
+    const previous = coefsMap.get(name);
+    if (previous === undefined || value > previous) {
+      coefsMap.set(name, value);
+    }
+  }
+  return coefsMap;
+}
+
+function parseRetarget(json: unknown, fallback: Partial<BlendshapeRetarget>): Partial<BlendshapeRetarget> {
+  const settings: Partial<BlendshapeRetarget> = {};
+  if (isRecord(json)) {
+    if (isFiniteNumber(json.gain)) settings.gain = json.gain;
+    if (isFiniteNumber(json.offset)) settings.offset = json.offset;
+    const { clamp } = json;
+    if (clamp === null) settings.clamp = null;
+    if (Array.isArray(clamp) && clamp.length === 2 && clamp.every(isFiniteNumber)) settings.clamp = [clamp[0], clamp[1]];
+    if (isOneOf(RESPONSE_CURVES, json.curve)) settings.curve = json.curve;
+    if (typeof json.target === "string") settings.target = json.target;
+  }
+  return { ...fallback, ...settings };
+}
+
+/**
+ * Builds a profile from parsed JSON, ignoring unknown or malformed fields.
+ */
+export function parseRetargetProfile(json: unknown): RetargetProfile {
+  const profile: Record<string, unknown> = isRecord(json) ? json : {};
+  // No prototype, so a "__proto__" category stays an ordinary entry.
+  const blendshapes: RetargetProfile["blendshapes"] = Object.create(null);
+  for (const [name, settings] of Object.entries(isRecord(profile.blendshapes) ? profile.blendshapes : {})) {
+    blendshapes[name] = parseRetarget(settings, {});
+  }
+
+  return {
+    name: typeof profile.name === "string" ? profile.name : "custom",
+    defaults: parseRetarget(profile.defaults, IDENTITY_RETARGET) as BlendshapeRetarget,
+    blendshapes,
+  };
+}
+
+/**
+ * Fetches a profile from `url`.
+ */
+export async function loadRetargetProfile(url: string): Promise<RetargetProfile> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load retarget profile ${url}: ${response.status}`);
+  return parseRetargetProfile(await response.json());
+}
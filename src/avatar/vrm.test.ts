@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+
+import { GAZE_RANGE, getGazeAngles } from "./vrm";
+
+describe("getGazeAngles", () => {
+  it("looks straight ahead without eye blendshapes", () => {
+    expect(getGazeAngles(new Map())).toEqual({ yaw: 0, pitch: 0 });
+  });
+
+  it("turns to the avatar's left when both eyes look left", () => {
+    const { yaw, pitch } = getGazeAngles(new Map([["eyeLookOutLeft", 1], ["eyeLookInRight", 1]]));
+
+    expect(yaw).toBeCloseTo(GAZE_RANGE.yaw);
+    expect(pitch).toBe(0);
+  });
+
+  it("looks down with negative pitch", () => {
+    const { pitch } = getGazeAngles(new Map([["eyeLookDownLeft", 0.5], ["eyeLookDownRight", 0.5]]));
+
+    expect(pitch).toBeCloseTo(-GAZE_RANGE.pitch / 2);
+  });
+});
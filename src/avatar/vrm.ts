@@ -0,0 +1,43 @@
+/** Largest eye rotation, in degrees, reached when a look blendshape is at 1. */
+export const GAZE_RANGE = { yaw: 30, pitch: 25 };
+
+/**
+ * Where the eyes of the avatar get their rotation: the `eyeLook*`
+ * blendshapes, or the iris landmarks (see `getIrisGaze`).
+ */
+export const GAZE_SOURCES = ["blendshapes", "iris"] as const;
+export type GazeSource = typeof GAZE_SOURCES[number];
+
+/**
+ * Turns the eye look blendshapes into the yaw and pitch, in degrees, expected
+ * by `VRMLookAt`. Positive yaw looks to the avatar's left, positive pitch up.
+ */
+export function getGazeAngles(
+  blendshapes: Map<string, number>,
+  range: { yaw: number; pitch: number } = GAZE_RANGE
+): { yaw: number; pitch: number } {
+  const score = (name: string) => blendshapes.get(name) ?? 0;
+
+  const left = score("eyeLookOutLeft") + score("eyeLookInRight");
+  const right = score("eyeLookInLeft") + score("eyeLookOutRight");
+  const up = score("eyeLookUpLeft") + score("eyeLookUpRight");
+  const down = score("eyeLookDownLeft") + score("eyeLookDownRight");
+
+  return {
+    yaw: ((left - right) / 2) * range.yaw,
+    pitch: ((up - down) / 2) * range.pitch,
+  };
+}
+
+/**
+ * Clamps eye angles, in degrees, to `range`.
+ */
+export function limitGaze(
+  gaze: { yaw: number; pitch: number },
+  range: { yaw: number; pitch: number } = GAZE_RANGE
+): { yaw: number; pitch: number } {
+  return {
+    yaw: Math.min(range.yaw, Math.max(-range.yaw, gaze.yaw)),
+    pitch: Math.min(range.pitch, Math.max(-range.pitch, gaze.pitch)),
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import { Renderer, Scene } from "three";
+
+import { handsRecording } from "../__fixtures__";
+import { Game, Target, getBoundingBox, randomTargetPosition } from "./game";
+
+const WIDTH = 640;
+const HEIGHT = 480;
+
+function createGame() {
+  const scene = new Scene();
+  const renderer = { domElement: { width: WIDTH, height: HEIGHT } } as unknown as Renderer;
+  return { scene, game: new Game(scene, renderer) };
+}
+
+describe("getBoundingBox", () => {
+  it("encloses every landmark of the hand", () => {
+    const hand = handsRecording.frames[0].landmarks![0];
+    const box = getBoundingBox(hand, WIDTH, HEIGHT);
+
+    for (const { x, y } of hand) {
+      expect(x * WIDTH).toBeGreaterThanOrEqual(box.originX - 1e-6);
+      expect(x * WIDTH).toBeLessThanOrEqual(box.originX + box.width + 1e-6);
+      expect(y * HEIGHT).toBeGreaterThanOrEqual(box.originY - 1e-6);
+      expect(y * HEIGHT).toBeLessThanOrEqual(box.originY + box.height + 1e-6);
+    }
+  });
+
+  it("mirrors the box along with the image", () => {
+    const hand = handsRecording.frames[0].landmarks![0];
+    const box = getBoundingBox(hand, WIDTH, HEIGHT);
+    const mirrored = getBoundingBox(hand, WIDTH, HEIGHT, { mirrored: true });
+
+    expect(mirrored.originX).toBeCloseTo(WIDTH - box.originX - box.width);
+    expect(mirrored.originY).toBeCloseTo(box.originY);
+    expect(mirrored.width).toBeCloseTo(box.width);
+  });
+});
+
+describe("Target.hit", () => {
+  const fist = getBoundingBox(handsRecording.frames[1].landmarks![0], WIDTH, HEIGHT);
+
+  it("hits a target inside the hand box and fires `hit`", () => {
+    const target = new Target(fist.originX + fist.width / 2, fist.originY + fist.height / 2, 5);
+    const onHit = vi.fn();
+    target.addEventListener("hit", onHit);
+
+    expect(target.hit(fist)).toBe(true);
+    expect(onHit).toHaveBeenCalledOnce();
+  });
+
+  it("misses a target outside the hand box", () => {
+    const target = new Target(WIDTH - 1, HEIGHT - 1, 5);
+    const onHit = vi.fn();
+    target.addEventListener("hit", onHit);
+
+    expect(target.hit(fist)).toBe(false);
+    expect(onHit).not.toHaveBeenCalled();
+  });
+
+  it("counts the edges of the box as a hit", () => {
+    const target = new Target(fist.originX, fist.originY + fist.height, 5);
+    expect(target.hit(fist)).toBe(true);
+  });
+});
+
+describe("randomTargetPosition", () => {
+  it.each([0, 0.5, 0.999])("stays inside the margins for random() = %s", (value) => {
+    const { x, y } = randomTargetPosition(WIDTH, HEIGHT, 5, 20, () => value);
+
+    expect(x).toBeGreaterThanOrEqual(25);
+    expect(x).toBeLessThanOrEqual(WIDTH - 25);
+    expect(y).toBeGreaterThanOrEqual(25);
+    expect(y).toBeLessThanOrEqual(HEIGHT - 25);
+  });
+});
+
+describe("Game", () => {
+  it("places a new target and scores when it is hit", () => {
+    const { scene, game } = createGame();
+    const first = game.target;
+    const onScore = vi.fn();
+    game.addEventListener("scoreChanged", onScore);
+
+    expect(scene.children).toContain(first.mesh);
+
+    first.hit({ originX: 0, originY: 0, width: WIDTH, height: HEIGHT, angle: 0 });
+
+    expect(game.score).toBe(1);
+    expect(onScore).toHaveBeenCalledOnce();
+    expect(game.target).not.toBe(first);
+    expect(scene.children).not.toContain(first.mesh);
+    expect(scene.children).toContain(game.target.mesh);
+  });
+});
@@ -1,7 +1,9 @@
-import { BoundingBox } from "@mediapipe/tasks-vision";
+import { BoundingBox, NormalizedLandmark } from "@mediapipe/tasks-vision";
 import { Mesh, MeshBasicMaterial, Renderer, Scene, SphereGeometry } from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
 
+import { CoordinateOptions, normalizedToPixel } from "../shared/coords";
+
 export type CustomEventListener<T = Event> = (this: T, ev: T) => any;
 export type ScoreChangedEvent = CustomEvent<number>;
 
@@ -58,12 +60,7 @@ export class Game extends EventTarget implements Game {
         const radius = 5;
         const margin = 20;
 
-        let x = Math.random() * canvas.width;
-        let y = Math.random() * canvas.height;
-
-        x = Math.max(radius + margin, Math.min(x, canvas.width - radius - margin));
-        y = Math.max(radius + margin, Math.min(y, canvas.height - radius - margin));
-
+        const { x, y } = randomTargetPosition(canvas.width, canvas.height, radius, margin);
 
         this.target = new Target(x, y, radius, this.targetModel);
 
@@ -81,6 +78,59 @@ export class Game extends EventTarget implements Game {
     }
 }
 
+/**
+ * Picks a random target center inside a `width` x `height` canvas, keeping the
+ * whole target at least `margin` pixels away from the edges.
+ */
+export function randomTargetPosition(
+    width: number,
+    height: number,
+    radius: number,
+    margin: number,
+    random: () => number = Math.random
+) {
+    let x = random() * width;
+    let y = random() * height;
+
+    x = Math.max(radius + margin, Math.min(x, width - radius - margin));
+    y = Math.max(radius + margin, Math.min(y, height - radius - margin));
+
+    return { x, y };
+}
+
+/**
+ * Returns the pixel-space box around a hand's normalized `landmarks` on a
+ * `width` x `height` canvas, which shows them mirrored when `options` say so.
+ */
+export function getBoundingBox(
+    landmarks: NormalizedLandmark[],
+    width: number,
+    height: number,
+    options?: CoordinateOptions
+): BoundingBox {
+    let minX = width;
+    let maxX = 0;
+    let minY = height;
+    let maxY = 0;
+
+    for(const landmark of landmarks) {
+        const { x, y } = normalizedToPixel(landmark, width, height, options);
+
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+    }
+
+    return {
+        originX: minX,
+        originY: minY,
+        height: maxY - minY,
+        width: maxX - minX,
+        angle: 0
+    };
+}
+
 export declare interface Target {
     hit(box: BoundingBox): boolean;
 
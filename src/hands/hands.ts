@@ -1,13 +1,15 @@
 import {
-    GestureRecognizer,
-    FilesetResolver,
     DrawingUtils,
     GestureRecognizerResult,
     BoundingBox,
     Category
 } from "@mediapipe/tasks-vision"
 
-import Game from "./game";
+import Game, { getBoundingBox } from "./game";
+import { CoordinateOptions } from "../shared/coords";
+import { createGestureRecognizer } from "../shared/landmarker";
+import { GestureDetector, LandmarkRecorder, RecordingPlayer, attachRecorderControls } from "../shared/recording";
+import { mountFrameSource, selectFrameSource } from "../shared/source";
 import { AxesHelper, OrthographicCamera, Scene, WebGLRenderer } from "three";
 
 import Stats from "three/examples/jsm/libs/stats.module";
@@ -30,67 +32,63 @@ scene.add(helper);
 const stats = new Stats();
 document.body.appendChild(stats.dom);
 
+// The canvases draw in mirrored coordinates, only the video is flipped by CSS.
+const view: CoordinateOptions = { mirrored: true };
 const gui = new GUI();
-gui.add({ mirrored: true }, "mirrored")
+gui.add(view, "mirrored")
     .name("Mirror Camera")
     .onChange(cameraFlip);
 
-let gestureRecognizer: GestureRecognizer;
-
-const createGestureRecognizer = async () => {
-    const vision = await FilesetResolver.forVisionTasks("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm");
-    gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
-        baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-        },
-        runningMode: "VIDEO",
-        numHands: 2
-    });
-};
-await createGestureRecognizer();
+// Recordings play back without a model.
+const player = RecordingPlayer.fromQuery();
+const gestureRecognizer: GestureDetector = player ?? await createGestureRecognizer({
+    runningMode: "VIDEO",
+    numHands: 2
+});
 
 const video = document.getElementById("webcam") as HTMLVideoElement;
+const source = player ? mountFrameSource(player, video) : selectFrameSource(video);
+const recorder = new LandmarkRecorder();
 const canvasElement = document.getElementById("output_canvas") as HTMLCanvasElement;
 const canvasCtx = canvasElement.getContext("2d") as CanvasRenderingContext2D;
 
 const gestureOutput = document.getElementById("gesture_output") as HTMLElement;
 
 function cameraFlip(bool: boolean) {
-    video.classList.toggle("mirrored", bool);
-    canvasElement.classList.toggle("mirrored", bool);
-    gameCanvasElement.classList.toggle("mirrored", bool);
+    source.element.classList.toggle("mirrored", bool);
 }
 
-navigator.mediaDevices.getUserMedia({ video: true})
-    .then(function (stream) {
-        video.srcObject = stream;
-        video.addEventListener("loadeddata", () => {
-            renderer.setSize(video.videoWidth, video.videoHeight);
-            camera.right = video.videoWidth
-            // Camera needs to be flipped vertically
-            // Video elements is rendered in 2D, so the origin is at the top left corner
-            // In Three.s origin is bottom left corner
-            camera.top = 0;
-            camera.bottom = video.videoHeight;
-            camera.updateProjectionMatrix();
-
-            const widthString = (video.videoWidth).toString();
-            const heightString = (video.videoHeight).toString();
-        
-            gameCanvasElement.setAttribute("width", widthString);
-            gameCanvasElement.setAttribute("height", heightString);
-
-            canvasElement.setAttribute("width", widthString);
-            canvasElement.setAttribute("height", heightString);
-
-            predictWebcam();
-        });
-    });
-
-let lastVideoTime = -1;
 let results: GestureRecognizerResult;
 
+source.onFrame((time) => {
+    results = gestureRecognizer.recognizeForVideo(source.element, time);
+    recorder.record(time, results);
+});
+source.start()
+    .then(() => {
+        renderer.setSize(source.width, source.height);
+        camera.right = source.width
+        // Camera needs to be flipped vertically
+        // Video elements is rendered in 2D, so the origin is at the top left corner
+        // In Three.s origin is bottom left corner
+        camera.top = 0;
+        camera.bottom = source.height;
+        camera.updateProjectionMatrix();
+
+        const widthString = (source.width).toString();
+        const heightString = (source.height).toString();
+    
+        gameCanvasElement.setAttribute("width", widthString);
+        gameCanvasElement.setAttribute("height", heightString);
+
+        canvasElement.setAttribute("width", widthString);
+        canvasElement.setAttribute("height", heightString);
+
+        attachRecorderControls(recorder, source);
+        predictWebcam();
+    })
+    .catch((e) => console.error(`Failed to start frame source: ${e}`));
+
 const game = new Game(scene, renderer);
 game.addEventListener("scoreChanged", (event) => {
     console.log("Score: " + event.detail);
@@ -98,11 +96,10 @@ game.addEventListener("scoreChanged", (event) => {
 await game.loadModel("/apple_2.glb");
 
 async function predictWebcam() {
-    let nowInMs = Date.now();
-
-    if (video.currentTime !== lastVideoTime) {
-        lastVideoTime = video.currentTime;
-        results = gestureRecognizer.recognizeForVideo(video, nowInMs);
+    // Wait for the first recognition of the stream.
+    if (!results) {
+        window.requestAnimationFrame(predictWebcam);
+        return;
     }
 
     canvasCtx.save();
@@ -127,30 +124,7 @@ async function predictWebcam() {
             //     lineWidth: 2
             // });
 
-            let minX = 1;
-            let maxX = 0;
-            let minY = 1;
-            let maxY = 0;
-
-            for(const landmark of landmarks) {
-                const { x, y } = landmark;
-
-                if (x < minX) minX = x;
-                if (x > maxX) maxX = x;
-                if (y < minY) minY = y;
-                if (y > maxY) maxY = y;
-            }
-
-            const width = maxX - minX;
-            const height = maxY - minY;
-
-            const boundingBox: BoundingBox = {
-                originX: minX * canvasElement.width,
-                originY: minY * canvasElement.height,
-                height: height * canvasElement.height,
-                width: width * canvasElement.width,
-                angle: 0
-            }
+            const boundingBox = getBoundingBox(landmarks, canvasElement.width, canvasElement.height, view);
 
             boundingBoxes.push(boundingBox);
 
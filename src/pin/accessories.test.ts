@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { ACCESSORY_SCENE_VERSION, createAccessory, parseAccessoryScene } from "./accessories";
+import { DEFAULT_ANCHOR_POINTS } from "./anchors";
+
+import defaultSceneJson from "../../public/accessories/default.json?raw";
+
+describe("parseAccessoryScene", () => {
+  it("round trips a scene through JSON", () => {
+    const hat = createAccessory("/monke.glb", "forehead", "hat");
+    hat.scale = 5;
+    hat.offset.position = [0, 6, -2];
+    const scene = { version: ACCESSORY_SCENE_VERSION, name: "try-on", accessories: [hat] };
+
+    expect(parseAccessoryScene(JSON.parse(JSON.stringify(scene)))).toEqual(scene);
+  });
+
+  it("drops accessories without a model or an anchor and numbers repeated names", () => {
+    const scene = parseAccessoryScene({
+      accessories: [
+        { url: "/apple.glb", anchor: "leftEar" },
+        { url: "/apple.glb", anchor: "rightEar" },
+        { url: "/apple.glb" },
+        { anchor: "chin" },
+      ],
+    });
+
+    expect(scene.accessories.map(({ name }) => name)).toEqual(["apple", "apple 2"]);
+    expect(scene.accessories[0].scale).toBe(1);
+    expect(scene.accessories[0].visible).toBe(true);
+  });
+
+  it("rejects newer versions", () => {
+    expect(() => parseAccessoryScene({ version: ACCESSORY_SCENE_VERSION + 1 })).toThrow();
+  });
+
+  it("pins the default scene to default anchors", () => {
+    const scene = parseAccessoryScene(JSON.parse(defaultSceneJson));
+
+    expect(scene.accessories.length).toBeGreaterThan(1);
+    scene.accessories.forEach(({ anchor }) => expect(DEFAULT_ANCHOR_POINTS).toHaveProperty(anchor));
+  });
+});
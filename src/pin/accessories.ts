@@ -0,0 +1,77 @@
+import { isRecord } from "../shared/json";
+import { AnchorOffset, createAnchorOffset, parseAnchorOffset } from "./anchors";
+
+export const ACCESSORY_SCENE_VERSION = 1;
+
+/** Accessories the pinning demos load when no other scene is given. */
+export const DEFAULT_ACCESSORY_SCENE_URL = "/accessories/default.json";
+
+/**
+ * A model pinned to one of the named anchors of every tracked face.
+ */
+export interface Accessory {
+  name: string;
+  url: string;
+  /** Name of the anchor in the anchor preset. */
+  anchor: string;
+  /** Scale of the model, applied on top of `offset`. */
+  scale: number;
+  visible: boolean;
+  /** Transform relative to the anchor, applied after the anchor's own offset. */
+  offset: AnchorOffset;
+}
+
+/**
+ * Accessories worn together, e.g. a hat and earrings. Saved and loaded as
+ * JSON.
+ */
+export interface AccessoryScene {
+  version: number;
+  name: string;
+  accessories: Accessory[];
+}
+
+export function createAccessory(url: string, anchor: string, name = url.split("/").pop()?.replace(/\.\w+$/, "") ?? url): Accessory {
+  return { name, url, anchor, scale: 1, visible: true, offset: createAnchorOffset() };
+}
+
+export function createAccessoryScene(name = "empty"): AccessoryScene {
+  return { version: ACCESSORY_SCENE_VERSION, name, accessories: [] };
+}
+
+/**
+ * Builds a scene from parsed JSON. Accessories without a model URL or an
+ * anchor are dropped and repeated names get a number, so names can key the
+ * GUI. Newer versions are rejected.
+ */
+export function parseAccessoryScene(json: unknown): AccessoryScene {
+  const stored: Record<string, unknown> = isRecord(json) ? json : {};
+  if (typeof stored.version === "number" && stored.version > ACCESSORY_SCENE_VERSION) {
+    throw new Error(`Unsupported accessory scene version ${stored.version}`);
+  }
+
+  const scene = createAccessoryScene(typeof stored.name === "string" ? stored.name : "custom");
+  const names = new Set<string>();
+  for (const item of Array.isArray(stored.accessories) ? stored.accessories : []) {
+    if (!isRecord(item) || typeof item.url !== "string" || typeof item.anchor !== "string") continue;
+
+    const accessory = createAccessory(item.url, item.anchor, typeof item.name === "string" ? item.name : undefined);
+    if (typeof item.scale === "number" && Number.isFinite(item.scale) && item.scale > 0) accessory.scale = item.scale;
+    if (typeof item.visible === "boolean") accessory.visible = item.visible;
+    accessory.offset = parseAnchorOffset(item.offset);
+
+    let name = accessory.name;
+    for (let i = 2; names.has(name); i++) name = `${accessory.name} ${i}`;
+    accessory.name = name;
+    names.add(name);
+
+    scene.accessories.push(accessory);
+  }
+  return scene;
+}
+
+export async function loadAccessoryScene(url: string): Promise<AccessoryScene> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load accessory scene ${url}: ${response.status}`);
+  return parseAccessoryScene(await response.json());
+}
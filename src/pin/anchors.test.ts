@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { Vector3 } from "three";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  ANCHOR_PRESET_VERSION,
+  DEFAULT_ANCHOR_POINTS,
+  createAnchorPreset,
+  getAnchorLandmark,
+  getOffsetMatrix,
+  parseAnchorPreset,
+} from "./anchors";
+
+const face = faceRecording.frames[1].faceLandmarks![0];
+
+describe("getAnchorLandmark", () => {
+  it("returns the landmark of a single landmark anchor", () => {
+    expect(getAnchorLandmark(face, { landmark: 10 })).toBe(face[10]);
+  });
+
+  it("weights the corners of a triangle anchor", () => {
+    const point = getAnchorLandmark(face, { triangle: [1, 10, 152], weights: [2, 2, 0] });
+    expect(point.x).toBeCloseTo((face[1].x + face[10].x) / 2);
+    expect(point.y).toBeCloseTo((face[1].y + face[10].y) / 2);
+  });
+});
+
+describe("getOffsetMatrix", () => {
+  it("translates, rotates in degrees and scales", () => {
+    const matrix = getOffsetMatrix({ position: [1, 2, 3], rotation: [0, 90, 0], scale: [2, 2, 2] });
+    const point = new Vector3(1, 0, 0).applyMatrix4(matrix);
+    expect(point.distanceTo(new Vector3(1, 2, 1))).toBeCloseTo(0);
+  });
+});
+
+describe("parseAnchorPreset", () => {
+  it("round trips a preset through JSON", () => {
+    const preset = createAnchorPreset("hat");
+    preset.selected = "chin";
+    preset.anchors.chin.offset.position = [0, -1, 2];
+
+    expect(parseAnchorPreset(JSON.parse(JSON.stringify(preset)))).toEqual(preset);
+  });
+
+  it("keeps the default anchors and adds custom ones", () => {
+    const preset = parseAnchorPreset({ anchors: { cheek: { point: { landmark: 50 } }, broken: { point: {} } } });
+
+    expect(Object.keys(preset.anchors)).toEqual([...Object.keys(DEFAULT_ANCHOR_POINTS), "cheek"]);
+    expect(preset.anchors.cheek.offset.scale).toEqual([1, 1, 1]);
+  });
+
+  it("selects only anchors of the preset", () => {
+    expect(parseAnchorPreset({ selected: "constructor" }).selected).toBe(createAnchorPreset().selected);
+    expect(parseAnchorPreset(null)).toEqual(createAnchorPreset("custom"));
+  });
+
+  it("rejects newer versions", () => {
+    expect(() => parseAnchorPreset({ version: ANCHOR_PRESET_VERSION + 1 })).toThrow();
+  });
+});
@@ -0,0 +1,154 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { Euler, MathUtils, Matrix4, Quaternion, Vector3 } from "three";
+
+import { isRecord } from "../shared/json";
+
+export const ANCHOR_PRESET_VERSION = 1;
+
+type Triple = [number, number, number];
+
+/**
+ * A point of the face mesh: one landmark, or a point inside a triangle of
+ * landmarks given by its barycentric weights.
+ */
+export type AnchorPoint = { landmark: number } | { triangle: Triple; weights: Triple };
+
+/**
+ * Transform of the pinned object relative to its anchor, in the face's frame:
+ * position in cm, rotation as XYZ Euler angles in degrees.
+ */
+export interface AnchorOffset {
+  position: Triple;
+  rotation: Triple;
+  scale: Triple;
+}
+
+export interface Anchor {
+  point: AnchorPoint;
+  offset: AnchorOffset;
+}
+
+/**
+ * Named anchors with their offsets, and the one objects are pinned to.
+ * Saved and loaded as JSON.
+ */
+export interface AnchorPreset {
+  version: number;
+  name: string;
+  selected: string;
+  anchors: { [name: string]: Anchor };
+}
+
+/** Anchors of every preset, named after the subject's sides. */
+export const DEFAULT_ANCHOR_POINTS: { [name: string]: AnchorPoint } = {
+  noseTip: { landmark: 1 },
+  forehead: { landmark: 151 },
+  chin: { landmark: 152 },
+  leftEar: { landmark: 454 },
+  rightEar: { landmark: 234 },
+  // Between the corners of each eye, a little towards the upper lid.
+  leftEye: { triangle: [362, 263, 386], weights: [0.45, 0.45, 0.1] },
+  rightEye: { triangle: [33, 133, 159], weights: [0.45, 0.45, 0.1] },
+};
+
+export function createAnchorOffset(): AnchorOffset {
+  return { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] };
+}
+
+export function createAnchorPreset(name = "default"): AnchorPreset {
+  const anchors: AnchorPreset["anchors"] = {};
+  for (const [anchor, point] of Object.entries(DEFAULT_ANCHOR_POINTS)) {
+    anchors[anchor] = { point: structuredClone(point), offset: createAnchorOffset() };
+  }
+  return { version: ANCHOR_PRESET_VERSION, name, selected: "forehead", anchors };
+}
+
+/**
+ * Landmarks an anchor point is made of.
+ */
+export function getAnchorLandmarks(point: AnchorPoint): number[] {
+  return "landmark" in point ? [point.landmark] : point.triangle;
+}
+
+/**
+ * Locates `point` on a detected face, in the coordinates of its landmarks.
+ */
+export function getAnchorLandmark(landmarks: NormalizedLandmark[], point: AnchorPoint): NormalizedLandmark {
+  if ("landmark" in point) return landmarks[point.landmark];
+
+  const total = point.weights[0] + point.weights[1] + point.weights[2];
+  const anchor = { x: 0, y: 0, z: 0, visibility: 0 };
+  point.triangle.forEach((index, i) => {
+    const weight = point.weights[i] / total;
+    anchor.x += landmarks[index].x * weight;
+    anchor.y += landmarks[index].y * weight;
+    anchor.z += landmarks[index].z * weight;
+  });
+  return anchor;
+}
+
+/**
+ * Turns an offset into a matrix, applied after the anchor's translation.
+ */
+export function getOffsetMatrix(offset: AnchorOffset): Matrix4 {
+  const rotation = new Euler(...offset.rotation.map((degrees) => MathUtils.degToRad(degrees)) as Triple);
+  return new Matrix4().compose(
+    new Vector3(...offset.position),
+    new Quaternion().setFromEuler(rotation),
+    new Vector3(...offset.scale)
+  );
+}
+
+function isTriple(value: unknown): value is Triple {
+  return Array.isArray(value) && value.length === 3 && value.every(Number.isFinite);
+}
+
+function parseAnchorPoint(json: unknown): AnchorPoint | null {
+  if (!isRecord(json)) return null;
+  const { landmark, triangle, weights } = json;
+  if (typeof landmark === "number" && Number.isInteger(landmark)) return { landmark };
+  if (isTriple(triangle) && triangle.every(Number.isInteger) && isTriple(weights)) return { triangle, weights };
+  return null;
+}
+
+/**
+ * Reads an offset from parsed JSON, keeping the identity for missing or
+ * invalid fields.
+ */
+export function parseAnchorOffset(json: unknown): AnchorOffset {
+  const offset = createAnchorOffset();
+  if (!isRecord(json)) return offset;
+  if (isTriple(json.position)) offset.position = json.position;
+  if (isTriple(json.rotation)) offset.rotation = json.rotation;
+  if (isTriple(json.scale)) offset.scale = json.scale;
+  return offset;
+}
+
+/**
+ * Builds a preset from parsed JSON on top of the default anchors. Anchors
+ * without a valid point keep their default point, or are dropped when they
+ * have none. Newer versions are rejected.
+ */
+export function parseAnchorPreset(json: unknown): AnchorPreset {
+  const stored: Record<string, unknown> = isRecord(json) ? json : {};
+  if (typeof stored.version === "number" && stored.version > ANCHOR_PRESET_VERSION) {
+    throw new Error(`Unsupported anchor preset version ${stored.version}`);
+  }
+
+  const preset = createAnchorPreset(typeof stored.name === "string" ? stored.name : "custom");
+  const hasAnchor = (name: string) => Object.hasOwn(preset.anchors, name);
+  for (const [name, anchor] of Object.entries(isRecord(stored.anchors) ? stored.anchors : {})) {
+    const point = parseAnchorPoint(isRecord(anchor) ? anchor.point : null)
+      ?? (hasAnchor(name) ? preset.anchors[name].point : null);
+    if (!point) continue;
+    preset.anchors[name] = { point, offset: parseAnchorOffset(isRecord(anchor) ? anchor.offset : null) };
+  }
+  if (typeof stored.selected === "string" && hasAnchor(stored.selected)) preset.selected = stored.selected;
+  return preset;
+}
+
+export async function loadAnchorPreset(url: string): Promise<AnchorPreset> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load anchor preset ${url}: ${response.status}`);
+  return parseAnchorPreset(await response.json());
+}
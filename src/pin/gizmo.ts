@@ -0,0 +1,103 @@
+import { Camera, Euler, MathUtils, Matrix4, Object3D, Scene } from "three";
+import { TransformControls } from "three/examples/jsm/controls/TransformControls";
+
+import { AnchorOffset } from "./anchors";
+
+export const GIZMO_MODES = ["off", "translate", "rotate", "scale"] as const;
+export type GizmoMode = typeof GIZMO_MODES[number];
+
+/**
+ * Transform gizmo that edits the offset of an anchor in place: it sits on the
+ * anchor of one face and writes what it is dragged to back into the offset.
+ */
+export class AnchorGizmo {
+  controls: TransformControls;
+  /** Offset being edited, `null` hides the gizmo. */
+  offset: AnchorOffset | null = null;
+  /** Called whenever a drag changes `offset`. */
+  onChange: (() => void) | null = null;
+
+  /** Follows the anchor; the handle moves inside it like the offset does. */
+  private frame = new Object3D();
+  private handle = new Object3D();
+  private currentMode: GizmoMode = "off";
+
+  constructor(scene: Scene, camera: Camera, domElement: HTMLElement) {
+    this.frame.matrixAutoUpdate = false;
+    this.frame.add(this.handle);
+    scene.add(this.frame);
+
+    this.controls = new TransformControls(camera, domElement);
+    this.controls.addEventListener("objectChange", () => this.write());
+    scene.add(this.controls);
+  }
+
+  get mode(): GizmoMode {
+    return this.currentMode;
+  }
+
+  set mode(mode: GizmoMode) {
+    this.currentMode = mode;
+    if (mode === "off") {
+      this.attach(false);
+    } else {
+      // Shows up on the next `update`.
+      this.controls.setMode(mode);
+    }
+  }
+
+  /** Whether the gizmo is being dragged. */
+  get dragging(): boolean {
+    return this.controls.dragging;
+  }
+
+  /**
+   * Moves the gizmo onto the anchor.
+   * @param matrix Where the anchor is, without the offset, or `null` to hide
+   * the gizmo until the anchor shows up again.
+   */
+  update(matrix: Matrix4 | null) {
+    if (!matrix || !this.offset) {
+      this.attach(false);
+      return;
+    }
+    this.frame.matrix.copy(matrix);
+    this.frame.matrixWorldNeedsUpdate = true;
+    if (!this.controls.dragging) this.read();
+    this.attach(true);
+  }
+
+  dispose() {
+    this.controls.detach();
+    this.controls.removeFromParent();
+    this.controls.dispose();
+    this.frame.removeFromParent();
+  }
+
+  private attach(visible: boolean) {
+    if (visible && this.currentMode !== "off") {
+      if (this.controls.object !== this.handle) this.controls.attach(this.handle);
+    } else if (this.controls.object) {
+      this.controls.detach();
+    }
+  }
+
+  /** Copies `offset` onto the handle. */
+  private read() {
+    if (!this.offset) return;
+    const { position, rotation, scale } = this.offset;
+    this.handle.position.fromArray(position);
+    this.handle.rotation.set(...rotation.map((degrees) => MathUtils.degToRad(degrees)) as [number, number, number]);
+    this.handle.scale.fromArray(scale);
+  }
+
+  /** Copies the dragged handle into `offset`. */
+  private write() {
+    if (!this.offset) return;
+    const rotation = new Euler().setFromQuaternion(this.handle.quaternion);
+    this.offset.position = this.handle.position.toArray();
+    this.offset.rotation = [rotation.x, rotation.y, rotation.z].map((radians) => MathUtils.radToDeg(radians)) as [number, number, number];
+    this.offset.scale = this.handle.scale.toArray();
+    this.onChange?.();
+  }
+}
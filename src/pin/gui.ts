@@ -0,0 +1,115 @@
+import { GUI } from "three/examples/jsm/libs/lil-gui.module.min";
+
+import { downloadJSON, readJSONFile } from "../shared/download";
+import { pickFile } from "../shared/source";
+import { AccessoryScene, parseAccessoryScene } from "./accessories";
+import { AnchorPreset, createAnchorOffset, parseAnchorPreset } from "./anchors";
+import { AnchorGizmo, GIZMO_MODES } from "./gizmo";
+
+/**
+ * Adds an "Anchor" folder that picks the anchor objects are pinned to, edits
+ * its landmark and its offset through `gizmo`, and loads or saves
+ * `holder.preset` as JSON.
+ */
+export function setupAnchorGUI(gui: GUI, holder: { preset: AnchorPreset }, gizmo: AnchorGizmo): GUI {
+  const folder = gui.addFolder("Anchor");
+
+  const editor = {
+    anchor: holder.preset.selected,
+    landmark: 0,
+    gizmo: gizmo.mode,
+    reset: () => {
+      holder.preset.anchors[holder.preset.selected].offset = createAnchorOffset();
+      select();
+    },
+    load: async () => {
+      try {
+        holder.preset = parseAnchorPreset(await readJSONFile(await pickFile("application/json")));
+      } catch (e) {
+        console.error(`Failed to load anchor preset: ${e}`);
+        return;
+      }
+      // `options` replaces the controller with a new one at the end of the folder.
+      anchorController = anchorController.options(Object.keys(holder.preset.anchors)).onChange(change);
+      landmarkController.domElement.before(anchorController.domElement);
+      select();
+    },
+    save: () => downloadJSON(holder.preset, `${holder.preset.name}.json`),
+  };
+
+  // Shows the selected anchor and hands its offset to the gizmo.
+  const select = () => {
+    const anchor = holder.preset.anchors[holder.preset.selected];
+    editor.anchor = holder.preset.selected;
+    if ("landmark" in anchor.point) {
+      editor.landmark = anchor.point.landmark;
+      landmarkController.enable();
+    } else {
+      landmarkController.disable();
+    }
+    gizmo.offset = anchor.offset;
+    folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+  };
+
+  const change = (anchor: string) => {
+    holder.preset.selected = anchor;
+    select();
+  };
+
+  let anchorController = folder.add(editor, "anchor", Object.keys(holder.preset.anchors)).name("Anchor").onChange(change);
+  const landmarkController = folder.add(editor, "landmark", 0, 477, 1).name("Landmark").onChange(() => {
+    const anchor = holder.preset.anchors[holder.preset.selected];
+    if ("landmark" in anchor.point) anchor.point.landmark = editor.landmark;
+  });
+  folder.add(editor, "gizmo", [...GIZMO_MODES]).name("Gizmo").onChange(() => { gizmo.mode = editor.gizmo; });
+  folder.add(editor, "reset").name("Reset Offset");
+  folder.add(editor, "load").name("Import JSON");
+  folder.add(editor, "save").name("Export JSON");
+
+  select();
+  return folder;
+}
+
+/**
+ * Adds an "Accessories" folder with a folder per accessory of `holder.scene`
+ * to toggle it, move it to another anchor of `anchors.preset` or rescale it,
+ * and loads or saves the scene as JSON.
+ * @param onLoad Called after another scene was imported.
+ */
+export function setupAccessoryGUI(
+  gui: GUI,
+  holder: { scene: AccessoryScene },
+  anchors: { preset: AnchorPreset },
+  onLoad: () => void
+): GUI {
+  const folder = gui.addFolder("Accessories");
+
+  const editor = {
+    load: async () => {
+      try {
+        holder.scene = parseAccessoryScene(await readJSONFile(await pickFile("application/json")));
+      } catch (e) {
+        console.error(`Failed to load accessory scene: ${e}`);
+        return;
+      }
+      build();
+      onLoad();
+    },
+    save: () => downloadJSON(holder.scene, `${holder.scene.name}.json`),
+  };
+
+  const build = () => {
+    [...folder.folders].forEach((child) => child.destroy());
+    for (const accessory of holder.scene.accessories) {
+      const item = folder.addFolder(accessory.name);
+      item.add(accessory, "visible").name("Visible");
+      item.add(accessory, "anchor", Object.keys(anchors.preset.anchors)).name("Anchor");
+      item.add(accessory, "scale", 0.1, 20, 0.1).name("Scale");
+    }
+  };
+
+  folder.add(editor, "load").name("Import JSON");
+  folder.add(editor, "save").name("Export JSON");
+  build();
+  return folder;
+}
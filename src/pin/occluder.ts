@@ -0,0 +1,83 @@
+import { Group, Matrix4, Mesh, MeshBasicMaterial, Object3D, SphereGeometry } from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader";
+
+import { disposeObject } from "../shared/dispose";
+
+/** MediaPipe's canonical face, in cm in the space of the facial transformation matrix. */
+export const FACE_MODEL_URL = "/canonical_face_model.fbx";
+
+/**
+ * Render order of the occluder: after the camera background, whose depth it
+ * would hide, and before the pinned objects it hides.
+ */
+export const OCCLUDER_RENDER_ORDER = -1;
+
+/**
+ * Ellipsoid standing in for the skull behind the canonical face, in cm: its
+ * center and radii. It stays inside the face from the front and reaches the
+ * back of the head.
+ */
+export const HEAD_CENTER = [0, 0.5, -5] as const;
+export const HEAD_RADII = [7.5, 10, 9.5] as const;
+
+/**
+ * Invisible head that only writes depth, so the parts of pinned objects
+ * behind the face and head are hidden like they would be in reality. It is
+ * the canonical face model with an ellipsoid for the back of the head, posed
+ * by the facial transformation matrix.
+ */
+export class FaceOccluder {
+  root = new Group();
+  private material = new MeshBasicMaterial({ colorWrite: false, color: 0x30c0ff });
+  private disposed = false;
+
+  constructor(parent: Object3D, url = FACE_MODEL_URL) {
+    this.root.matrixAutoUpdate = false;
+    this.root.visible = false;
+    parent.add(this.root);
+
+    const head = new Mesh(new SphereGeometry(1, 32, 16), this.material);
+    head.position.set(...HEAD_CENTER);
+    head.scale.set(...HEAD_RADII);
+    this.add(head);
+
+    new FBXLoader().load(url, (model) => {
+      if (this.disposed) return;
+      model.traverse((object) => {
+        if (!(object as Mesh).isMesh) return;
+        this.add(new Mesh((object as Mesh).geometry, this.material));
+      });
+    }, undefined, (error) => console.error(error));
+  }
+
+  /** Whether the occluder shows as a wireframe instead of only writing depth. */
+  get debug(): boolean {
+    return this.material.colorWrite;
+  }
+
+  set debug(debug: boolean) {
+    this.material.colorWrite = debug;
+    this.material.wireframe = debug;
+  }
+
+  /**
+   * Poses the occluder.
+   * @param matrix Facial transformation matrix of the face, in the space of
+   * the pinned objects, or `null` to hide the occluder.
+   */
+  update(matrix: Matrix4 | null) {
+    this.root.visible = !!matrix;
+    if (matrix) this.root.matrix.copy(matrix);
+  }
+
+  dispose() {
+    this.disposed = true;
+    disposeObject(this.root);
+  }
+
+  private add(mesh: Mesh) {
+    mesh.renderOrder = OCCLUDER_RENDER_ORDER;
+    mesh.frustumCulled = false;
+    this.root.add(mesh);
+  }
+}
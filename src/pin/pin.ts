@@ -1,5 +1,13 @@
-import { DrawingUtils, FaceLandmarker, FaceLandmarkerResult, FilesetResolver } from "@mediapipe/tasks-vision";
-import { AmbientLight, Matrix4, Object3D, OrthographicCamera, PerspectiveCamera, Scene, Vector3, VideoTexture, WebGLRenderer } from "three";
+import { DrawingUtils, FaceLandmarker, FaceLandmarkerResult } from "@mediapipe/tasks-vision";
+import { applyCameraIntrinsics, getMetricFaceMatrix, loadCameraIntrinsics } from "../shared/camera";
+import { getFaceMatrix } from "../shared/coords";
+import { FaceResultFilter } from "../shared/filters";
+import { addCameraFolder, addFaceFilterFolders } from "../shared/gui";
+import { FaceTracker } from "../shared/faces";
+import { createFaceLandmarker, resolveNumFaces } from "../shared/landmarker";
+import { FaceDetector, LandmarkRecorder, RecordingPlayer, attachRecorderControls } from "../shared/recording";
+import { createFrameTexture, mountFrameSource, selectFrameSource } from "../shared/source";
+import { AmbientLight, Matrix4, Object3D, OrthographicCamera, PerspectiveCamera, Scene, Vector3, WebGLRenderer } from "three";
 
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 import { AxesHelper } from "three";
@@ -9,39 +17,44 @@ import { Font, FontLoader } from "three/examples/jsm/loaders/FontLoader";
 import { GUI } from "three/examples/jsm/libs/lil-gui.module.min";
 import Stats from "three/examples/jsm/libs/stats.module";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
+import { DEFAULT_ACCESSORY_SCENE_URL, createAccessoryScene, loadAccessoryScene } from "./accessories";
+import { createAnchorPreset, getOffsetMatrix } from "./anchors";
+import { setupAccessoryGUI } from "./gui";
+import { FaceOccluder } from "./occluder";
+import { getPinMatrix } from "./pinning";
 
 const CONFIGS = {
   "DRAW_CONNECTORS": false,
   "AXIS_HELPER": false,
   "ENABLE_CAMERA": false,
+  "OCCLUSION": true,
 }
 
 const MODIFICATIONS = {
 }
 
-let faceLandmarker: FaceLandmarker;
+let faceLandmarker: FaceDetector;
 let runningMode: "IMAGE" | "VIDEO" = "VIDEO";
 
-// Before we can use HandLandmarker class we must wait for it to finish
+const video = document.getElementById("webcam") as HTMLVideoElement;
+const player = RecordingPlayer.fromQuery();
+const source = player ? mountFrameSource(player, video) : selectFrameSource(video);
+const recorder = new LandmarkRecorder();
+
+// Before we can use FaceLandmarker class we must wait for it to finish
 // loading. Machine Learning models can be large and take a moment to
-// get everything needed to run.
-async function createFaceLandmarker() {
-  const filesetResolver = await FilesetResolver.forVisionTasks("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm");
-  faceLandmarker = await FaceLandmarker.createFromOptions(
-    filesetResolver, {
-    baseOptions: {
-      modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task`,
-      delegate: "GPU"
-    },
+// get everything needed to run. Recordings play back without a model.
+if (player) {
+  faceLandmarker = player;
+} else {
+  createFaceLandmarker({
     outputFaceBlendshapes: true,
     outputFacialTransformationMatrixes: true,
     runningMode,
-    numFaces: 1
-  });
+    numFaces: resolveNumFaces()
+  }).then((landmarker) => { faceLandmarker = landmarker });
 }
-createFaceLandmarker();
 
-const video = document.getElementById("webcam") as HTMLVideoElement;
 const meshOutput = document.getElementById("mesh-output") as HTMLCanvasElement;
 const imageOutput = document.getElementById("image-output") as HTMLCanvasElement;
 
@@ -55,18 +68,19 @@ const renderer = new WebGLRenderer({
 });
 
 const scene = new Scene();
-const camera = new PerspectiveCamera(75, 480 / 360, 0.1, 1000);
-camera.position.z = 3;
+// The webcam, in the cm of the facial transformation matrix.
+const intrinsics = { intrinsics: loadCameraIntrinsics() };
+const camera = new PerspectiveCamera(intrinsics.intrinsics.verticalFov, 480 / 360, 0.1, 1000);
 scene.add(camera);
 
 const light = new AmbientLight(0xffffff, 1);
 scene.add(light);
 
 // Get video texture
-const texture = new VideoTexture(video);
+const texture = createFrameTexture(source);
 texture.flipY = false;
 
-const axesHelper = new AxesHelper(1);
+const axesHelper = new AxesHelper(5);
 scene.add(axesHelper);
 
 const fontLoader = new FontLoader();
@@ -78,6 +92,17 @@ controls.enableDamping = true;
 controls.dampingFactor = 0.25;
 controls.enabled = CONFIGS.ENABLE_CAMERA;
 
+/**
+ * Moves the camera back onto the webcam with the field of view of
+ * `intrinsics`, after they changed, looking at where faces are.
+ */
+function updateCamera() {
+  applyCameraIntrinsics(camera, intrinsics.intrinsics);
+  controls.target.set(0, 0, -50);
+  controls.update();
+}
+updateCamera();
+
 const stats = new Stats();
 document.body.appendChild(stats.dom);
 
@@ -87,16 +112,21 @@ const folder = gui.addFolder("Configs");
 folder.add(CONFIGS, "DRAW_CONNECTORS").name("Draw Connectors");
 folder.add(CONFIGS, "AXIS_HELPER").name("Axis Helper");
 folder.add(CONFIGS, "ENABLE_CAMERA").name("Enable Camera");
+folder.add(CONFIGS, "OCCLUSION").name("Occlude Head");
 folder.open();
 
 const modFolder = gui.addFolder("Modifications");
 
+const filter = new FaceResultFilter();
+addFaceFilterFolders(gui, filter);
+
 function drawLoop() {  
   requestAnimationFrame(drawLoop);
   stats.update();
 
   axesHelper.visible = CONFIGS.AXIS_HELPER;
   controls.enabled = CONFIGS.ENABLE_CAMERA;
+  controls.update();
 
   renderer.render(scene, camera);
 
@@ -107,47 +137,94 @@ function drawLoop() {
 drawLoop();
 
 
-// Enable the live webcam view and start detection.
-navigator.mediaDevices
-  .getUserMedia({ video: true })
-  .then((stream) => {
-    video.srcObject = stream;
-    video.addEventListener("loadeddata", () => {
-      predictWebcam();
-      renderer.setSize(video.videoWidth, video.videoHeight);
-
-      meshOutput.width = video.videoWidth;
-      meshOutput.height = video.videoHeight;
-    });
-  });
-
-let lastVideoTime = -1;
 let results: FaceLandmarkerResult;
+/** Id of every face of `results`, see `FaceTracker`. */
+let faceIds: number[] = [];
+const tracker = new FaceTracker();
+
+// Enable the live view and start detection.
+source.onFrame((time) => {
+  if (!faceLandmarker) return;
+  const detection = faceLandmarker.detectForVideo(source.element, time);
+  recorder.record(time, detection);
+  faceIds = tracker.update(detection);
+  results = filter.filter(detection, time, faceIds);
+});
+source.start()
+  .then(() => {
+    attachRecorderControls(recorder, source);
+    predictWebcam();
+    renderer.setSize(source.width, source.height);
+    camera.aspect = source.width / source.height;
+    camera.updateProjectionMatrix();
+
+    meshOutput.width = source.width;
+    meshOutput.height = source.height;
+  })
+  .catch((e) => console.error(`Failed to start frame source: ${e}`));
 
 const meshDrawingUtils = new DrawingUtils(meshOutputCtx);
 // const imageDrawingUtils = new DrawingUtils(imageCanvasCtx);
 
 const modelLoader = new GLTFLoader();
-let model: Object3D
-modelLoader.load("/monke.glb", (gltf) => {
-  model = gltf.scene;
-  scene.add(model);
-});
-
-// Based on
-// https://i.sstatic.net/5Mohl.jpg
-const ANCHOR_POINT_ID = 9;
+const anchors = { preset: createAnchorPreset() };
+const accessories = { scene: createAccessoryScene() };
+/** Model of every accessory, by URL. */
+const templates = new Map<string, Object3D>();
+const loadTemplates = () => {
+  for (const { url } of accessories.scene.accessories) {
+    if (!templates.has(url)) modelLoader.load(url, (gltf) => templates.set(url, gltf.scene));
+  }
+};
+
+/** Copy of every accessory's model, in scene order, for every tracked face. */
+const models = new Map<number, Object3D[]>();
+const removeModels = (id: number) => {
+  models.get(id)?.forEach((copy) => scene.remove(copy));
+  models.delete(id);
+};
+/** Head occluder of every tracked face. */
+const occluders = new Map<number, FaceOccluder>();
+/** Facial transformation matrix of the first face, as detected. */
+let firstFaceMatrix: Matrix4 | null = null;
+addCameraFolder(gui, intrinsics, source, () => firstFaceMatrix, updateCamera);
+tracker.onLeave = (id) => {
+  removeModels(id);
+  occluders.get(id)?.dispose();
+  occluders.delete(id);
+  filter.forget(id);
+};
+
+loadAccessoryScene(DEFAULT_ACCESSORY_SCENE_URL)
+  .then((loaded) => { accessories.scene = loaded; })
+  .catch((e) => console.error(`Failed to load accessory scene: ${e}`))
+  .finally(() => {
+    loadTemplates();
+    setupAccessoryGUI(gui, accessories, anchors, () => {
+      [...models.keys()].forEach(removeModels);
+      loadTemplates();
+    });
+  });
 async function predictWebcam() {
-  let startTimeMs = performance.now();
-
   if(!meshOutputCtx) throw new Error("Mesh Canvas context is null");
   meshOutputCtx.clearRect(0, 0, meshOutput.width, meshOutput.height);
 
-  if (lastVideoTime !== video.currentTime) {
-    lastVideoTime = video.currentTime;
-    results = faceLandmarker.detectForVideo(video, startTimeMs);
+  // Wait for the first detection of the stream.
+  if (!results) {
+    window.requestAnimationFrame(predictWebcam);
+    return;
   }
-  
+
+  // Hide the copies and occluders of faces missed this frame, until they are
+  // back or dropped by the tracker.
+  for (const [id, copies] of models) {
+    if (!faceIds.includes(id)) copies.forEach((copy) => { copy.visible = false; });
+  }
+  for (const [id, occluder] of occluders) {
+    if (!faceIds.includes(id)) occluder.update(null);
+  }
+
+  firstFaceMatrix = null;
   if (results.faceLandmarks) {
     if(CONFIGS.DRAW_CONNECTORS) {
       for (const landmarks of results.faceLandmarks) {
@@ -166,21 +243,45 @@ async function predictWebcam() {
       }
     }
 
-    if(results.facialTransformationMatrixes.length) {
-      const matrix = new Matrix4();
-      matrix.fromArray(results.facialTransformationMatrixes[0].data);
+    results.faceLandmarks.forEach((faceLandmarks, i) => {
+      const detectedMatrix = getFaceMatrix(results, i);
+      if (!detectedMatrix) return;
+      const copies = models.get(faceIds[i]) ?? [];
+      models.set(faceIds[i], copies);
 
-      const position = results.faceLandmarks[0][ANCHOR_POINT_ID];
-      
-      model.position.set(position.x, position.y, position.z);
-      model.setRotationFromMatrix(matrix);
-    }
+      const matrix = getMetricFaceMatrix(detectedMatrix, intrinsics.intrinsics);
+      if (i === 0) firstFaceMatrix = detectedMatrix;
+
+      let occluder = occluders.get(faceIds[i]);
+      if (!occluder) {
+        occluder = new FaceOccluder(scene);
+        occluders.set(faceIds[i], occluder);
+      }
+      occluder.update(CONFIGS.OCCLUSION ? matrix : null);
+
+      accessories.scene.accessories.forEach((accessory, j) => {
+        const template = templates.get(accessory.url);
+        const anchor = anchors.preset.anchors[accessory.anchor];
+        if (!template || !anchor) return;
+
+        let copy = copies[j];
+        if (!copy) {
+          copy = template.clone();
+          copies[j] = copy;
+          scene.add(copy);
+        }
+
+        const pinMatrix = getPinMatrix(matrix, faceLandmarks, anchor.point, anchor.offset, source.width / source.height)
+          .multiply(getOffsetMatrix(accessory.offset))
+          .scale(new Vector3().setScalar(accessory.scale));
+
+        copy.visible = accessory.visible;
+        copy.matrixAutoUpdate = false;
+        copy.matrix.copy(pinMatrix);
+      });
+    });
   }
   
   // Call this function again to keep predicting when the browser is ready.
   window.requestAnimationFrame(predictWebcam);
 }
-
-function mapMediapipeCoordsToThree(coords: Vector3) {
-  return new Vector3(coords.x, coords.y, coords.z);
-}
@@ -1,6 +1,30 @@
 import * as THREE from "three";
 import { GLTFLoader, GLTF } from "three/examples/jsm/loaders/GLTFLoader";
-import { FilesetResolver, FaceLandmarker, DrawingUtils} from "@mediapipe/tasks-vision";
+import { FaceLandmarker, DrawingUtils} from "@mediapipe/tasks-vision";
+import {
+  NeutralPoseRecorder,
+  getLastCalibrationUser,
+  getReferenceMatrix,
+  getRelativeMatrix,
+  loadCalibration,
+} from "../shared/calibration";
+import { CameraIntrinsics, applyCameraIntrinsics, getMetricFaceMatrix, loadCameraIntrinsics } from "../shared/camera";
+import { getFaceMatrix } from "../shared/coords";
+import { disposeObject } from "../shared/dispose";
+import { FaceTracker } from "../shared/faces";
+import { FaceResultFilter } from "../shared/filters";
+import { drawGazeRays } from "../shared/gaze";
+import { addCalibrationFolder, addCameraFolder, addFaceFilterFolders } from "../shared/gui";
+import { createFaceLandmarker, resolveNumFaces } from "../shared/landmarker";
+import { FaceDetector, LandmarkRecorder, RecordingPlayer, attachRecorderControls } from "../shared/recording";
+import { FrameSource, createFrameTexture, mountFrameSource, selectFrameSource } from "../shared/source";
+import { createCameraPlaneMesh, fitCameraPlaneMesh } from "../shared/viewport";
+import { DEFAULT_ACCESSORY_SCENE_URL, createAccessoryScene, loadAccessoryScene } from "./accessories";
+import { createAnchorPreset, getAnchorLandmark, getOffsetMatrix, loadAnchorPreset } from "./anchors";
+import { AnchorGizmo } from "./gizmo";
+import { setupAccessoryGUI, setupAnchorGUI } from "./gui";
+import { FaceOccluder, OCCLUDER_RENDER_ORDER } from "./occluder";
+import { getPinMatrix } from "./pinning";
 
 import { GUI } from "three/examples/jsm/libs/lil-gui.module.min";
 import Stats from "three/examples/jsm/libs/stats.module";
@@ -12,69 +36,55 @@ const meshOutput = document.getElementById("mesh-output") as HTMLCanvasElement;
 const meshOutputCtx = meshOutput.getContext("2d");
 if(!meshOutputCtx) throw new Error("Failed to get 2D context from the mesh output canvas.");
 
-/**
- * Returns the world-space dimensions of the viewport at `depth` units away from
- * the camera.
- */
-function getViewportSizeAtDepth(
-  camera: THREE.PerspectiveCamera,
-  depth: number
-): THREE.Vector2 {
-  const viewportHeightAtDepth =
-    2 * depth * Math.tan(THREE.MathUtils.degToRad(0.5 * camera.fov));
-  const viewportWidthAtDepth = viewportHeightAtDepth * camera.aspect;
-  return new THREE.Vector2(viewportWidthAtDepth, viewportHeightAtDepth);
-}
-
-/**
- * Creates a `THREE.Mesh` which fully covers the `camera` viewport, is `depth`
- * units away from the camera and uses `material`.
- */
-function createCameraPlaneMesh(
-  camera: THREE.PerspectiveCamera,
-  depth: number,
-  material: THREE.Material
-): THREE.Mesh {
-  if (camera.near > depth || depth > camera.far) {
-    console.warn("Camera plane geometry will be clipped by the `camera`!");
-  }
-  const viewportSize = getViewportSizeAtDepth(camera, depth);
-  const cameraPlaneGeometry = new THREE.PlaneGeometry(viewportSize.width, viewportSize.height);
-  cameraPlaneGeometry.translate(0, 0, -depth);
-
-  return new THREE.Mesh(cameraPlaneGeometry, material);
-}
-
 function setupGUI(config: { [key: string]: any }): GUI {
     const gui = new GUI();
 
     const debugFolder = gui.addFolder("Debug");
     debugFolder.add(config, "drawFaceGrid").name("Draw Face Grid");
+    debugFolder.add(config, "drawGazeRays").name("Draw Gaze Rays");
+    debugFolder.add(config, "occlusion").name("Occlude Head");
+    debugFolder.add(config, "showOccluder").name("Show Occluder");
     debugFolder.add(config, "axesHelper").name("Show Axes Helper");
+    debugFolder.add(config, "restRelative").name("Relative to Rest Pose");
 
     return gui;
 }
 
 type RenderCallback = (delta: number) => void;
 
+/** Distance of the camera background, in cm: behind any face. */
+const INPUT_FRAMES_DEPTH = 500;
+
 class BasicScene {
   scene: THREE.Scene;
   width: number;
   height: number;
   camera: THREE.PerspectiveCamera;
   renderer: THREE.WebGLRenderer;
+  source: FrameSource;
+  /** Projection of the webcam, see `updateCamera`. */
+  intrinsics: CameraIntrinsics;
   lastTime: number = 0;
   callbacks: RenderCallback[] = [];
-  debug: { gui: GUI, stats: Stats, axesHelper: THREE.AxesHelper, config: { [key: string]: any } } | null = null;
-
-  constructor({ debug = false } = {}) {
+  private inputFramesPlane: THREE.Mesh;
+  debug: {
+    gui: GUI,
+    stats: Stats,
+    axesHelper: THREE.AxesHelper,
+    controls: OrbitControls,
+    config: { [key: string]: any },
+  } | null = null;
+
+  constructor(source: FrameSource, { debug = false, intrinsics = loadCameraIntrinsics() } = {}) {
+    this.source = source;
+    this.intrinsics = intrinsics;
     // Initialize the canvas with the same aspect ratio as the video input
     const ratio = 4/3;
     this.width = window.innerWidth;
     this.height = window.innerWidth / ratio;
     // Set up the Three.js scene, camera, and renderer
     this.scene = new THREE.Scene();
-    this.camera = new THREE.PerspectiveCamera(60, this.width / this.height, 0.01, 5000);
+    this.camera = new THREE.PerspectiveCamera(intrinsics.verticalFov, this.width / this.height, 0.01, 5000);
 
     this.renderer = new THREE.WebGLRenderer({ antialias: true, canvas: imageOutput });
     this.renderer.setSize(this.width, this.height);
@@ -88,25 +98,25 @@ class BasicScene {
     directionalLight.position.set(0, 1, 0);
     this.scene.add(directionalLight);
 
-    // Set up the camera position and controls
-    this.camera.position.z = 10;
-    let orbitTarget = this.camera.position.clone();
-    orbitTarget.z -= 5;
+    // Set up the camera as the webcam, the controls orbit where a face
+    // usually is, in cm.
+    applyCameraIntrinsics(this.camera, intrinsics);
+    const orbitTarget = new THREE.Vector3(0, 0, -50);
 
     // Add a video background
-    const video = document.getElementById("webcam") as HTMLVideoElement;
-    const inputFrameTexture = new THREE.VideoTexture(video);
+    const inputFrameTexture = createFrameTexture(source);
     if (!inputFrameTexture) {
       throw new Error("Failed to get the 'input_frame' texture!");
     }
     inputFrameTexture.encoding = THREE.sRGBEncoding;
-    const inputFramesDepth = 500;
-    const inputFramesPlane = createCameraPlaneMesh(
+    this.inputFramesPlane = createCameraPlaneMesh(
       this.camera,
-      inputFramesDepth,
+      INPUT_FRAMES_DEPTH,
       new THREE.MeshBasicMaterial({ map: inputFrameTexture })
     );
-    this.scene.add(inputFramesPlane);
+    // Drawn first so the head occluder hides objects but not the camera.
+    this.inputFramesPlane.renderOrder = OCCLUDER_RENDER_ORDER - 1;
+    this.scene.add(this.inputFramesPlane);
 
     if(debug) {
         // Set up the orbit controls
@@ -120,7 +130,14 @@ class BasicScene {
 
         const config = {
           drawFaceGrid: false,
+          drawGazeRays: false,
+          occlusion: true,
+          showOccluder: false,
           axesHelper: false,
+          // Turns objects by the head rotation away from the calibrated rest
+          // pose rather than following the head, e.g. to level them for a
+          // tilted camera.
+          restRelative: false,
         }
 
         const stats = new Stats();
@@ -128,7 +145,7 @@ class BasicScene {
 
         const gui = setupGUI(config);
 
-        this.debug = { gui, stats, axesHelper, config };
+        this.debug = { gui, stats, axesHelper, controls, config };
     }
 
     // Render the scene
@@ -137,11 +154,25 @@ class BasicScene {
     window.addEventListener("resize", this.resize.bind(this));
   }
 
+  /**
+   * Moves the camera back onto the webcam with the field of view of
+   * `intrinsics`, after they changed.
+   */
+  updateCamera() {
+    applyCameraIntrinsics(this.camera, this.intrinsics);
+    fitCameraPlaneMesh(this.inputFramesPlane, this.camera, INPUT_FRAMES_DEPTH);
+    if (this.debug) {
+      this.debug.controls.target.set(0, 0, -50);
+      this.debug.controls.update();
+    }
+  }
+
   resize() {
-    this.width = video.videoWidth;
-    this.height = video.videoHeight;
+    this.width = this.source.width;
+    this.height = this.source.height;
     this.camera.aspect = this.width / this.height;
     this.camera.updateProjectionMatrix();
+    fitCameraPlaneMesh(this.inputFramesPlane, this.camera, INPUT_FRAMES_DEPTH);
 
     this.renderer.setSize(this.width, this.height);
     this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
@@ -177,6 +208,8 @@ class BasicScene {
 interface MatrixRetargetOptions {
   decompose?: boolean;
   scale?: number;
+  /** Rest head transform from the calibration; rotations are taken relative to it. */
+  reference?: THREE.Matrix4 | null;
 }
 
 class PinnedObject {
@@ -185,22 +218,25 @@ class PinnedObject {
   gltf: GLTF | null;
   root: THREE.Bone | null;
   url: string;
-  vertexToPin: number;
+  private disposed = false;
 
-  constructor(url: string, scene: THREE.Scene, vertexToPin: number = 0) {
+  constructor(url: string, scene: THREE.Scene) {
     this.url = url;
     this.scene = scene;
     this.loadModel(this.url);
 
     this.gltf = null;
     this.root = null;
-    this.vertexToPin = vertexToPin;
   }
 
   loadModel(url: string) {
     this.url = url;
     this.loader.load(url, (gltf) => {
-        if (this.gltf) this.gltf.scene.remove();
+        if (this.disposed) {
+          disposeObject(gltf.scene);
+          return;
+        }
+        if (this.gltf) disposeObject(this.gltf.scene);
 
         this.gltf = gltf;
 
@@ -210,9 +246,6 @@ class PinnedObject {
 
         this.scene.add(gltf.scene);
         this.init(gltf);
-
-        const folder = scene.debug?.gui.addFolder("Object");
-        folder?.add(this, "vertexToPin", 0, 468).step(1).name("Vertex to Pin");
       },
 
       (progress) => console.log("Loading model...", 100.0 * (progress.loaded / progress.total),"%"),
@@ -220,6 +253,22 @@ class PinnedObject {
     );
   }
 
+  /**
+   * Removes the object from the scene and disposes it, also when it is still
+   * loading.
+   */
+  dispose() {
+    this.disposed = true;
+    if (this.gltf) disposeObject(this.gltf.scene);
+    this.gltf = null;
+  }
+
+  setVisible(visible: boolean) {
+    this.gltf?.scene.traverse((object) => {
+      object.visible = visible;
+    });
+  }
+
   init(gltf: GLTF) {
     gltf.scene.traverse((object) => {
       // Register first bone found as the root
@@ -247,140 +296,186 @@ class PinnedObject {
     matrix: THREE.Matrix4,
     matrixRetargetOptions?: MatrixRetargetOptions
   ): void {
-    const { decompose = false, scale = 1 } = matrixRetargetOptions || {};
+    const { decompose = false, scale = 1, reference = null } = matrixRetargetOptions || {};
     if (!this.gltf) return;
+    if (reference) matrix = getRelativeMatrix(matrix, reference);
 
     // Three.js will update the object matrix when it render the page
     // according the object position, scale, rotation.
     // To manually set the object matrix, you have to set autoupdate to false.
-    matrix.scale(new THREE.Vector3(scale, scale, scale));
+    // The scale goes on a copy, so callers can keep using `matrix`.
     this.gltf.scene.matrixAutoUpdate = false;
-    this.gltf.scene.matrix.copy(matrix);
-    
+    this.gltf.scene.matrix.copy(matrix).scale(new THREE.Vector3(scale, scale, scale));
   }
 }
 
-let faceLandmarker: FaceLandmarker;
+let faceLandmarker: FaceDetector;
 let drawUtils: DrawingUtils;
-let video: HTMLVideoElement;
 
-const scene = new BasicScene({ debug: true });
-const object = new PinnedObject("/monke.glb", scene.scene, 10);
+const video = document.getElementById("webcam") as HTMLVideoElement;
+const player = RecordingPlayer.fromQuery();
+const source = player ? mountFrameSource(player, video) : selectFrameSource(video);
+const recorder = new LandmarkRecorder();
+const scene = new BasicScene(source, { debug: true });
+const accessories = { scene: createAccessoryScene() };
+const anchors = { preset: createAnchorPreset() };
+const filter = new FaceResultFilter();
+if (scene.debug) addFaceFilterFolders(scene.debug.gui, filter);
+const calibration = { calibration: loadCalibration(getLastCalibrationUser()) };
+const neutralPose = new NeutralPoseRecorder();
+if (scene.debug) addCalibrationFolder(scene.debug.gui, calibration, neutralPose);
+
+/**
+ * Pinned object of every accessory, in scene order, for every tracked face.
+ * Spawned and despawned with the face.
+ */
+const objects = new Map<number, PinnedObject[]>();
+/** Head occluder of every tracked face. */
+const occluders = new Map<number, FaceOccluder>();
+const spawnAccessories = (id: number) => {
+  objects.set(id, accessories.scene.accessories.map((accessory) => new PinnedObject(accessory.url, scene.scene)));
+};
+const despawnAccessories = (id: number) => {
+  objects.get(id)?.forEach((object) => object.dispose());
+  objects.delete(id);
+};
+const tracker = new FaceTracker();
+tracker.onEnter = (id) => {
+  occluders.set(id, new FaceOccluder(scene.scene));
+  spawnAccessories(id);
+};
+tracker.onLeave = (id) => {
+  occluders.get(id)?.dispose();
+  occluders.delete(id);
+  despawnAccessories(id);
+  filter.forget(id);
+};
+
+/** Facial transformation matrix of the first tracked face, as detected. */
+let firstFaceMatrix: THREE.Matrix4 | null = null;
+if (scene.debug) addCameraFolder(scene.debug.gui, scene, source, () => firstFaceMatrix, () => scene.updateCamera());
+
+// Edits the offset of the selected anchor on the first tracked face.
+let gizmo: AnchorGizmo | null = null;
+if (scene.debug) {
+  const { controls } = scene.debug;
+  gizmo = new AnchorGizmo(scene.scene, scene.camera, scene.renderer.domElement);
+  gizmo.controls.addEventListener("dragging-changed", (event) => { controls.enabled = !event.value; });
+}
 
 function detectFaceLandmarks(time: DOMHighResTimeStamp): void {
   if (!faceLandmarker) return;
-  const landmarks = faceLandmarker.detectForVideo(video, time);
+  const detection = faceLandmarker.detectForVideo(source.element, time);
+  recorder.record(time, detection);
+  const ids = tracker.update(detection);
+  const landmarks = filter.filter(detection, time, ids);
+  // The reference is compared against metric matrices, so it is recorded from them.
+  const firstMatrix = getFaceMatrix(landmarks, 0);
+  neutralPose.record(time, landmarks, firstMatrix && getMetricFaceMatrix(firstMatrix, scene.intrinsics));
+
+  // Hide the objects of faces missed this frame and of hidden accessories
+  objects.forEach((faceObjects, id) => faceObjects.forEach((object, j) => {
+    const accessory = accessories.scene.accessories[j];
+    object.setVisible(ids.includes(id) && accessory.visible && accessory.anchor in anchors.preset.anchors);
+  }));
+  occluders.forEach((occluder, id) => {
+    if (!ids.includes(id)) occluder.update(null);
+  });
 
-  // Hide object if no face landmarks are detected
-  if(object.gltf) {
-    object.gltf.scene.traverse((object) => {
-      object.visible = landmarks.faceLandmarks.length > 0;
-    });
-  }
+  // Apply facial transformation matrix to each face's objects
+  const anchor = anchors.preset.anchors[anchors.preset.selected];
+  const reference = scene.debug?.config.restRelative ? getReferenceMatrix(calibration.calibration) : null;
+  const aspect = source.width / source.height;
+  let gizmoMatrix: THREE.Matrix4 | null = null;
+  firstFaceMatrix = null;
+  ids.forEach((id, i) => {
+    const detectedMatrix = getFaceMatrix(landmarks, i);
+    if (!detectedMatrix) return;
+
+    const metricMatrix = getMetricFaceMatrix(detectedMatrix, scene.intrinsics);
+    // The occluder stands in for the real head, so it follows it as detected.
+    const occluder = occluders.get(id);
+    if (occluder) {
+      occluder.update(scene.debug?.config.occlusion === false ? null : metricMatrix);
+      occluder.debug = !!scene.debug?.config.showOccluder;
+    }
+    const faceMatrix = reference ? getRelativeMatrix(metricMatrix, reference) : metricMatrix;
+    if (id === Math.min(...ids)) {
+      firstFaceMatrix = detectedMatrix;
+      gizmoMatrix = getPinMatrix(faceMatrix, landmarks.faceLandmarks[i], anchor.point, undefined, aspect);
+    }
 
-  // Apply facial transformation matrix to object
-  const transformationMatrices = landmarks.facialTransformationMatrixes;
-  if (transformationMatrices && transformationMatrices.length > 0) {
-    let matrix = new THREE.Matrix4().fromArray(transformationMatrices[0].data);
-
-    // Get displacemente from center of the face to the pin vertex
-    const vertex = landmarks.faceLandmarks[0][object.vertexToPin];
-    const center = landmarks.faceLandmarks[0][1]; // Tip of the nose
-
-    // There's probably a better way to do this whole 'translate to vertex' thing
-    // but I'm not sure how to do it yet
-    const faceWidth = Math.abs(landmarks.faceLandmarks[0][234].x - landmarks.faceLandmarks[0][454].x) * 3;
-    const faceHeight = Math.abs(landmarks.faceLandmarks[0][10].y - landmarks.faceLandmarks[0][152].y) * 1.25;
-    const faceDepth = Math.abs(landmarks.faceLandmarks[0][10].z - landmarks.faceLandmarks[0][152].z);
-    const faceDimensions = new THREE.Vector3(faceWidth, faceHeight, faceDepth);
-
-    const displacement = new THREE.Vector3(
-      vertex.x - center.x, 
-      - vertex.y + center.y, 
-      vertex.z - center.z
-    )
-    .multiply(faceDimensions)
-    .multiplyScalar(120); // 120 is a magic number to scale the displacement
-
-    // Convert vertex coordinates to NDC
-    const ndcX = (vertex.x * 2) - 1;
-    const ndcY = 1 - (vertex.y * 2); // Invert Y axis
-    const ndc = new THREE.Vector3(ndcX, ndcY, vertex.z);
-
-    // Unproject to world space
-    ndc.unproject(scene.camera);
-
-    const vertexTransformationMatrix = new THREE.Matrix4().makeTranslation(ndc.x, ndc.y, ndc.z);
-    matrix.multiply(vertexTransformationMatrix);
-
-    const translationMatrix = new THREE.Matrix4().makeTranslation(displacement.x, displacement.y, displacement.z);
-    matrix.multiply(translationMatrix);
-    
-    object.applyMatrix(matrix, { scale: 5 });
-  }
+    objects.get(id)?.forEach((object, j) => {
+      const accessory = accessories.scene.accessories[j];
+      const accessoryAnchor = anchors.preset.anchors[accessory.anchor];
+      if (!accessoryAnchor) return;
+
+      const matrix = getPinMatrix(faceMatrix, landmarks.faceLandmarks[i], accessoryAnchor.point, accessoryAnchor.offset, aspect);
+      object.applyMatrix(matrix.multiply(getOffsetMatrix(accessory.offset)), { scale: accessory.scale });
+    });
+  });
+  gizmo?.update(gizmoMatrix);
 
   // Draw face landmarks
   meshOutputCtx?.clearRect(0, 0, meshOutput.width, meshOutput.height);
   if(drawUtils && scene.debug?.config.drawFaceGrid) {
-    if(landmarks.faceLandmarks.length > 0) {
-      drawUtils.drawConnectors(landmarks.faceLandmarks[0], FaceLandmarker.FACE_LANDMARKS_TESSELATION,   { color: "#C0C0C070", lineWidth: 1 } );
-      drawUtils.drawConnectors(landmarks.faceLandmarks[0], FaceLandmarker.FACE_LANDMARKS_FACE_OVAL);
+    for (const faceLandmarks of landmarks.faceLandmarks) {
+      drawUtils.drawConnectors(faceLandmarks, FaceLandmarker.FACE_LANDMARKS_TESSELATION,   { color: "#C0C0C070", lineWidth: 1 } );
+      drawUtils.drawConnectors(faceLandmarks, FaceLandmarker.FACE_LANDMARKS_FACE_OVAL);
 
-      drawUtils.drawLandmarks([landmarks.faceLandmarks[0][object.vertexToPin]], { color: "#FF3030", lineWidth: 2 });
+      drawUtils.drawLandmarks([getAnchorLandmark(faceLandmarks, anchor.point)], { color: "#FF3030", lineWidth: 2 });
+    }
+  }
+  if(meshOutputCtx && scene.debug?.config.drawGazeRays) {
+    for (const faceLandmarks of landmarks.faceLandmarks) {
+      drawGazeRays(meshOutputCtx, faceLandmarks);
     }
   }
 
 }
 
-function onVideoFrame(time: DOMHighResTimeStamp): void {
-  detectFaceLandmarks(time);
-  video.requestVideoFrameCallback(onVideoFrame);
-}
-
-// Stream webcam into landmarker loop (and also make video visible)
-async function streamWebcamThroughFaceLandmarker(): Promise<void> {
-  video = document.getElementById("webcam") as HTMLVideoElement;
-
-  function onAcquiredUserMedia(stream: MediaStream): void {
-    video.srcObject = stream;
-    video.onloadedmetadata = () => {
-      video.play();
-      video.hidden = true;
-
-      scene.resize();
+async function runDemo() {
+  // ?anchors=<url> starts from a saved anchor preset.
+  const anchorsUrl = new URLSearchParams(window.location.search).get("anchors");
+  if (anchorsUrl) {
+    try {
+      anchors.preset = await loadAnchorPreset(anchorsUrl);
+    } catch (e: unknown) {
+      console.error(`Failed to load anchor preset: ${e}`);
+    }
+  }
+  if (scene.debug && gizmo) setupAnchorGUI(scene.debug.gui, anchors, gizmo);
 
-      meshOutput.width = video.videoWidth;
-      meshOutput.height = video.videoHeight;
-    };
+  // ?accessories=<url> replaces the default accessories.
+  const accessoriesUrl = new URLSearchParams(window.location.search).get("accessories") ?? DEFAULT_ACCESSORY_SCENE_URL;
+  try {
+    accessories.scene = await loadAccessoryScene(accessoriesUrl);
+  } catch (e: unknown) {
+    console.error(`Failed to load accessory scene: ${e}`);
   }
+  // Faces tracked meanwhile get the accessories of the new scene.
+  const respawnAccessories = () => tracker.ids.forEach((id) => {
+    despawnAccessories(id);
+    spawnAccessories(id);
+  });
+  respawnAccessories();
+  if (scene.debug) setupAccessoryGUI(scene.debug.gui, accessories, anchors, respawnAccessories);
 
   try {
-    const evt = await navigator.mediaDevices.getUserMedia({ video: {
-      facingMode: "user",
-    } });
-    onAcquiredUserMedia(evt);
-    video.requestVideoFrameCallback(onVideoFrame);
+    await source.start();
+    source.element.hidden = true;
+    scene.resize();
+    source.onFrame(detectFaceLandmarks);
+    attachRecorderControls(recorder, source);
   } catch (e: unknown) {
-    console.error(`Failed to acquire camera feed: ${e}`);
+    console.error(`Failed to start frame source: ${e}`);
   }
-}
 
-async function runDemo() {
-  await streamWebcamThroughFaceLandmarker();
-  const vision = await FilesetResolver.forVisionTasks(
-    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.1.0-alpha-16/wasm"
-  );
-  faceLandmarker = await FaceLandmarker.createFromModelPath(
-    vision,
-    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task"
-  );
-  await faceLandmarker.setOptions({
-    baseOptions: {
-      delegate: "CPU"
-    },
+  faceLandmarker = player ?? await createFaceLandmarker({
     runningMode: "VIDEO",
     outputFaceBlendshapes: true,
-    outputFacialTransformationMatrixes: true
+    outputFacialTransformationMatrixes: true,
+    numFaces: resolveNumFaces(),
   });
 
   if(!meshOutputCtx) throw new Error("Failed to get 2D context from the mesh output canvas.");
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { Matrix4, Vector3 } from "three";
+
+import { faceRecording } from "../__fixtures__";
+import { createAnchorOffset } from "./anchors";
+import { FACE_SIDE_LANDMARKS, getPinDisplacement, getPinMatrix } from "./pinning";
+
+const frame = faceRecording.frames[1];
+const face = frame.faceLandmarks![0];
+const faceMatrix = () => new Matrix4().fromArray(frame.facialTransformationMatrixes![0].data);
+
+describe("getPinDisplacement", () => {
+  it("is zero between the sides of the face", () => {
+    const [right, left] = FACE_SIDE_LANDMARKS;
+    const displacement = getPinDisplacement(face, { triangle: [right, left, right], weights: [0.25, 0.5, 0.25] });
+    expect(displacement.length()).toBeCloseTo(0);
+  });
+
+  it("points up for the forehead and down for the chin", () => {
+    expect(getPinDisplacement(face, { landmark: 10 }).y).toBeGreaterThan(0);
+    expect(getPinDisplacement(face, { landmark: 152 }).y).toBeLessThan(0);
+  });
+
+  it("points left and right for the sides of the face", () => {
+    expect(getPinDisplacement(face, { landmark: 234 }).x).toBeLessThan(0);
+    expect(getPinDisplacement(face, { landmark: 454 }).x).toBeGreaterThan(0);
+  });
+
+  it("does not depend on the size of the face in the image", () => {
+    const half = face.map(({ x, y, z }) => ({ x: x / 2, y: y / 2, z: z / 2, visibility: 0 }));
+    const displacement = getPinDisplacement(face, { landmark: 10 });
+    expect(getPinDisplacement(half, { landmark: 10 }).distanceTo(displacement)).toBeCloseTo(0);
+  });
+});
+
+describe("getPinMatrix", () => {
+  it("does not modify the facial transformation matrix", () => {
+    const matrix = faceMatrix();
+    const before = matrix.clone();
+
+    getPinMatrix(matrix, face, { landmark: 10 });
+    expect(matrix.equals(before)).toBe(true);
+  });
+
+  it("keeps the rotation of the face", () => {
+    const pinned = getPinMatrix(faceMatrix(), face, { landmark: 10 });
+
+    const axis = new Vector3(1, 0, 0);
+    expect(axis.clone().transformDirection(pinned).distanceTo(axis.transformDirection(faceMatrix()))).toBeCloseTo(0);
+  });
+
+  it("moves the pin by the offset in the face's frame", () => {
+    const offset = createAnchorOffset();
+    offset.position = [0, 0, 2];
+    const pinned = new Vector3().setFromMatrixPosition(getPinMatrix(faceMatrix(), face, { landmark: 10 }));
+    const moved = new Vector3().setFromMatrixPosition(getPinMatrix(faceMatrix(), face, { landmark: 10 }, offset));
+
+    const expected = new Vector3(0, 0, 2).transformDirection(faceMatrix()).multiplyScalar(2);
+    expect(moved.sub(pinned).distanceTo(expected)).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,71 @@
+import * as THREE from "three";
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+
+import { faceToWorld, normalizedToPixel } from "../shared/coords";
+import { AnchorOffset, AnchorPoint, getAnchorLandmark, getOffsetMatrix } from "./anchors";
+
+/**
+ * Landmarks where the face meets the ears, on the subject's right then left.
+ * Their midpoint stands in for the origin of the facial transformation and
+ * their distance for the width of the face.
+ */
+export const FACE_SIDE_LANDMARKS = [234, 454] as const;
+/** Landmarks at the top of the forehead and the bottom of the chin. */
+export const FACE_TOP_LANDMARK = 10;
+export const FACE_BOTTOM_LANDMARK = 152;
+
+/** Distance between the face side landmarks on the canonical face model, in cm. */
+export const FACE_WIDTH = 15;
+
+/**
+ * Returns where `point` sits relative to the origin of the face, in cm along
+ * the face's own axes: +X towards the subject's left, +Y up and +Z out of the
+ * face, like the facial transformation matrix. The detected landmarks are
+ * measured against the width of the face, so the result does not depend on
+ * how far the face is from the camera.
+ * @param aspect Width over height of the image the landmarks come from.
+ */
+export function getPinDisplacement(
+  landmarks: NormalizedLandmark[],
+  point: AnchorPoint,
+  aspect = 1
+): THREE.Vector3 {
+  // Everything in image widths.
+  const toVector = (landmark: NormalizedLandmark) => normalizedToPixel(landmark, 1, 1 / aspect);
+  const [rightSide, leftSide] = FACE_SIDE_LANDMARKS.map((index) => toVector(landmarks[index]));
+
+  const origin = rightSide.clone().lerp(leftSide, 0.5);
+  const right = leftSide.clone().sub(rightSide);
+  const width = right.length();
+  if (width === 0) return new THREE.Vector3();
+  right.divideScalar(width);
+
+  // Image y points down, so the chin to forehead direction is up.
+  const up = toVector(landmarks[FACE_TOP_LANDMARK]).sub(toVector(landmarks[FACE_BOTTOM_LANDMARK]));
+  up.addScaledVector(right, -up.dot(right)).normalize();
+  // Image z grows away from the camera, so this points out of the face.
+  const out = right.clone().cross(up);
+
+  const offset = toVector(getAnchorLandmark(landmarks, point)).sub(origin);
+  return new THREE.Vector3(offset.dot(right), offset.dot(up), offset.dot(out)).multiplyScalar(FACE_WIDTH / width);
+}
+
+/**
+ * Builds the matrix that places an object on `point`, starting from the
+ * facial transformation matrix `faceMatrix`, then moved by `offset` in the
+ * face's frame.
+ * @param aspect Width over height of the image the landmarks come from.
+ */
+export function getPinMatrix(
+  faceMatrix: THREE.Matrix4,
+  landmarks: NormalizedLandmark[],
+  point: AnchorPoint,
+  offset?: AnchorOffset,
+  aspect = 1
+): THREE.Matrix4 {
+  // The object keeps the orientation of the face and sits on the displaced point.
+  const displacement = getPinDisplacement(landmarks, point, aspect);
+  const matrix = faceMatrix.clone().setPosition(faceToWorld(displacement, faceMatrix));
+  if (offset) matrix.multiply(getOffsetMatrix(offset));
+  return matrix;
+}
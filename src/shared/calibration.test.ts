@@ -0,0 +1,125 @@
+import { Euler, Matrix4, Quaternion, Vector3 } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  CALIBRATION_VERSION,
+  NeutralPoseRecorder,
+  createCalibration,
+  getRelativeMatrix,
+  loadCalibration,
+  parseCalibration,
+  removeBaseline,
+  saveCalibration,
+} from "./calibration";
+import { toFaceLandmarkerResult } from "./recording";
+
+/** In-memory stand-in for `localStorage`. */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+}
+
+const frames = faceRecording.frames.filter((frame) => frame.faceBlendshapes?.length);
+
+describe("removeBaseline", () => {
+  it("maps the baseline to 0 and keeps 1 at 1", () => {
+    expect(removeBaseline(0.2, 0.2)).toBe(0);
+    expect(removeBaseline(1, 0.2)).toBe(1);
+    expect(removeBaseline(0.6, 0.2)).toBeCloseTo(0.5);
+    expect(removeBaseline(0.1, 0.2)).toBe(0);
+  });
+
+  it("leaves scores alone without a baseline", () => {
+    expect(removeBaseline(0.3)).toBe(0.3);
+  });
+});
+
+describe("getRelativeMatrix", () => {
+  it("turns the rest pose into the identity rotation and keeps the translation", () => {
+    const rest = new Quaternion().setFromEuler(new Euler(0.2, -0.3, 0.05));
+    const reference = new Matrix4().compose(new Vector3(1, 2, -40), rest, new Vector3(1, 1, 1));
+    const matrix = new Matrix4().compose(new Vector3(3, 0, -50), rest, new Vector3(1, 1, 1));
+
+    const position = new Vector3();
+    const rotation = new Quaternion();
+    getRelativeMatrix(matrix, reference).decompose(position, rotation, new Vector3());
+
+    expect(rotation.angleTo(new Quaternion())).toBeCloseTo(0);
+    expect(position.toArray()).toEqual([3, 0, -50].map((value) => expect.closeTo(value, 5)));
+  });
+});
+
+describe("NeutralPoseRecorder", () => {
+  it("averages the results received during the capture", () => {
+    const recorder = new NeutralPoseRecorder(1000);
+    let completed = false;
+    recorder.onComplete = () => { completed = true; };
+
+    recorder.start("ada");
+    frames.forEach((frame, i) => recorder.record(i * 100, toFaceLandmarkerResult(frame)));
+    expect(recorder.recording).toBe(true);
+    const calibration = recorder.stop();
+
+    const mean = frames.reduce((sum, frame) => sum + frame.faceBlendshapes![0].categories[25].score, 0) / frames.length;
+    const name = frames[0].faceBlendshapes![0].categories[25].categoryName;
+    expect(calibration.user).toBe("ada");
+    expect(calibration.blendshapes[name]).toBeCloseTo(mean);
+    expect(calibration.matrix).toHaveLength(16);
+    expect(completed).toBe(false);
+  });
+
+  it("averages the given head transforms instead of the detected ones", () => {
+    const recorder = new NeutralPoseRecorder(1000);
+    const matrix = new Matrix4().makeRotationY(0.2).setPosition(1, 2, -120);
+
+    recorder.start("ada");
+    frames.forEach((frame, i) => recorder.record(i * 100, toFaceLandmarkerResult(frame), matrix));
+    const calibration = recorder.stop();
+
+    new Matrix4().fromArray(calibration.matrix!).elements.forEach((value, i) => {
+      expect(value).toBeCloseTo(matrix.elements[i]);
+    });
+  });
+
+  it("completes once the duration is over", () => {
+    const recorder = new NeutralPoseRecorder(100);
+    const completed: string[] = [];
+    recorder.onComplete = (calibration) => completed.push(calibration.user);
+
+    recorder.start("ada");
+    recorder.record(1000, toFaceLandmarkerResult(frames[0]));
+    recorder.record(1100, toFaceLandmarkerResult(frames[1]));
+    recorder.record(1200, toFaceLandmarkerResult(frames[1]));
+
+    expect(completed).toEqual(["ada"]);
+    expect(recorder.recording).toBe(false);
+  });
+});
+
+describe("calibration storage", () => {
+  it("keeps one calibration per user", () => {
+    const storage = createStorage();
+    saveCalibration({ ...createCalibration("ada"), blendshapes: { jawOpen: 0.1 } }, storage);
+    saveCalibration({ ...createCalibration("bob"), blendshapes: { jawOpen: 0.3 } }, storage);
+
+    expect(loadCalibration("ada", storage).blendshapes).toEqual({ jawOpen: 0.1 });
+    expect(loadCalibration("bob", storage).blendshapes).toEqual({ jawOpen: 0.3 });
+    expect(loadCalibration("eve", storage)).toEqual(createCalibration("eve"));
+  });
+
+  it("rejects calibrations from a newer version", () => {
+    expect(() => parseCalibration({ version: CALIBRATION_VERSION + 1 })).toThrow();
+  });
+
+  it("drops malformed matrices", () => {
+    expect(parseCalibration({ user: "ada", matrix: [1, 2, 3] }).matrix).toBeNull();
+  });
+});
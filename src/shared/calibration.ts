@@ -0,0 +1,225 @@
+import { FaceLandmarkerResult } from "@mediapipe/tasks-vision";
+import { Matrix4, Quaternion, Vector3 } from "three";
+
+import { isRecord } from "./json";
+
+export const CALIBRATION_VERSION = 1;
+
+/**
+ * Neutral pose of one user: what their resting face scores on every
+ * blendshape, and how their head sits in front of the camera.
+ */
+export interface Calibration {
+  version: number;
+  user: string;
+  /** ISO date of the capture, empty when nothing was captured. */
+  createdAt: string;
+  /** Resting score per blendshape category. */
+  blendshapes: { [categoryName: string]: number };
+  /** Resting facial transformation matrix, column-major, or `null`. */
+  matrix: number[] | null;
+}
+
+export function createCalibration(user = "default"): Calibration {
+  return { version: CALIBRATION_VERSION, user, createdAt: "", blendshapes: {}, matrix: null };
+}
+
+/**
+ * Rescales `score` so the resting `baseline` maps to 0 and 1 stays 1.
+ */
+export function removeBaseline(score: number, baseline = 0): number {
+  if (baseline <= 0) return score;
+  if (baseline >= 1) return 0;
+  return Math.max(0, (score - baseline) / (1 - baseline));
+}
+
+/**
+ * Returns the calibrated rest transform as a matrix, if there is one.
+ */
+export function getReferenceMatrix(calibration: Calibration): Matrix4 | null {
+  return calibration.matrix ? new Matrix4().fromArray(calibration.matrix) : null;
+}
+
+/**
+ * Returns a copy of `matrix` whose rotation is taken relative to the rotation
+ * of `reference`, so holding the rest pose faces the camera. The translation
+ * and scale of `matrix` are kept, so objects stay where the face is.
+ */
+export function getRelativeMatrix(matrix: Matrix4, reference: Matrix4): Matrix4 {
+  const position = new Vector3();
+  const rotation = new Quaternion();
+  const scale = new Vector3();
+  matrix.decompose(position, rotation, scale);
+
+  const restRotation = new Quaternion();
+  reference.decompose(new Vector3(), restRotation, new Vector3());
+  rotation.multiply(restRotation.invert());
+
+  return new Matrix4().compose(position, rotation, scale);
+}
+
+/**
+ * Averages the first face of every result received for `duration` ms into a
+ * calibration. `onComplete` is called once the time is up.
+ */
+export class NeutralPoseRecorder {
+  duration: number;
+  onComplete: ((calibration: Calibration) => void) | null = null;
+
+  private user = "";
+  private startTime: number | null = null;
+  private frames = 0;
+  private scores = new Map<string, number>();
+  private matrices = 0;
+  private position = new Vector3();
+  private rotation = new Quaternion(0, 0, 0, 0);
+
+  constructor(duration = 3000) {
+    this.duration = duration;
+  }
+
+  get recording(): boolean {
+    return this.user !== "";
+  }
+
+  /**
+   * Starts a new capture for `user`. The clock starts with the first result.
+   */
+  start(user: string) {
+    this.user = user;
+    this.startTime = null;
+    this.frames = 0;
+    this.scores.clear();
+    this.matrices = 0;
+    this.position.set(0, 0, 0);
+    this.rotation.set(0, 0, 0, 0);
+  }
+
+  cancel() {
+    this.user = "";
+  }
+
+  /**
+   * @param timestamp Time of the result in ms.
+   * @param result
+   * @param matrix Head transform of the first face to average, its facial
+   * transformation matrix by default. Pass the matrix the reference is later
+   * compared against, like the metric one of `getMetricFaceMatrix`.
+   */
+  record(timestamp: number, result: FaceLandmarkerResult, matrix?: Matrix4 | null) {
+    if (!this.recording) return;
+    this.startTime ??= timestamp;
+
+    const categories = result.faceBlendshapes?.[0]?.categories;
+    if (categories) {
+      this.frames++;
+      for (const { categoryName, score } of categories) {
+        this.scores.set(categoryName, (this.scores.get(categoryName) ?? 0) + score);
+      }
+    }
+
+    const data = result.facialTransformationMatrixes?.[0]?.data;
+    const head = matrix === undefined ? data && new Matrix4().fromArray(data) : matrix;
+    if (head) {
+      const position = new Vector3();
+      const rotation = new Quaternion();
+      head.decompose(position, rotation, new Vector3());
+      // q and -q are the same rotation, keep them on one side before summing.
+      if (this.matrices > 0 && this.rotation.dot(rotation) < 0) {
+        rotation.set(-rotation.x, -rotation.y, -rotation.z, -rotation.w);
+      }
+      this.position.add(position);
+      this.rotation.set(
+        this.rotation.x + rotation.x,
+        this.rotation.y + rotation.y,
+        this.rotation.z + rotation.z,
+        this.rotation.w + rotation.w
+      );
+      this.matrices++;
+    }
+
+    if (timestamp - this.startTime >= this.duration) {
+      const calibration = this.stop();
+      this.onComplete?.(calibration);
+    }
+  }
+
+  /**
+   * Ends the capture and returns the averages of what was recorded so far.
+   */
+  stop(): Calibration {
+    const calibration = createCalibration(this.user || "default");
+    calibration.createdAt = new Date().toISOString();
+
+    for (const [name, sum] of this.scores) {
+      calibration.blendshapes[name] = sum / this.frames;
+    }
+    if (this.matrices > 0) {
+      const position = this.position.clone().divideScalar(this.matrices);
+      const rotation = this.rotation.clone().normalize();
+      calibration.matrix = new Matrix4().compose(position, rotation, new Vector3(1, 1, 1)).toArray();
+    }
+
+    this.user = "";
+    return calibration;
+  }
+}
+
+/**
+ * Builds a calibration from parsed JSON, ignoring malformed fields. Newer
+ * versions are rejected.
+ */
+export function parseCalibration(json: unknown): Calibration {
+  const stored: Record<string, unknown> = isRecord(json) ? json : {};
+  if (typeof stored.version === "number" && stored.version > CALIBRATION_VERSION) {
+    throw new Error(`Unsupported calibration version ${stored.version}`);
+  }
+
+  const calibration = createCalibration(typeof stored.user === "string" ? stored.user : undefined);
+  if (typeof stored.createdAt === "string") calibration.createdAt = stored.createdAt;
+  for (const [name, score] of Object.entries(isRecord(stored.blendshapes) ? stored.blendshapes : {})) {
+    if (typeof score === "number") calibration.blendshapes[name] = score;
+  }
+  const { matrix } = stored;
+  if (Array.isArray(matrix) && matrix.length === 16 && matrix.every((value): value is number => Number.isFinite(value))) {
+    calibration.matrix = matrix;
+  }
+  return calibration;
+}
+
+const STORAGE_PREFIX = "calibration:";
+const LAST_USER_KEY = "calibration-user";
+
+/**
+ * Returns the user whose calibration was used last.
+ */
+export function getLastCalibrationUser(storage: Storage = localStorage): string {
+  return storage.getItem(LAST_USER_KEY) ?? "default";
+}
+
+export function setLastCalibrationUser(user: string, storage: Storage = localStorage) {
+  storage.setItem(LAST_USER_KEY, user);
+}
+
+export function saveCalibration(calibration: Calibration, storage: Storage = localStorage) {
+  storage.setItem(STORAGE_PREFIX + calibration.user, JSON.stringify(calibration));
+}
+
+/**
+ * Returns the stored calibration of `user`, or an empty one.
+ */
+export function loadCalibration(user: string, storage: Storage = localStorage): Calibration {
+  const stored = storage.getItem(STORAGE_PREFIX + user);
+  if (!stored) return createCalibration(user);
+  try {
+    return { ...parseCalibration(JSON.parse(stored)), user };
+  } catch (e: unknown) {
+    console.warn(`Ignoring the stored calibration of ${user}: ${e}`);
+    return createCalibration(user);
+  }
+}
+
+export function deleteCalibration(user: string, storage: Storage = localStorage) {
+  storage.removeItem(STORAGE_PREFIX + user);
+}
+
@@ -0,0 +1,76 @@
+import { Matrix4, PerspectiveCamera, Vector3 } from "three";
+import { describe, expect, it } from "vitest";
+
+import {
+  CAMERA_INTRINSICS_VERSION,
+  MEDIAPIPE_VERTICAL_FOV,
+  applyCameraIntrinsics,
+  createCameraIntrinsics,
+  estimateVerticalFov,
+  fromVerticalFov,
+  getFocalLength,
+  getMetricFaceMatrix,
+  getVerticalFov,
+  parseCameraIntrinsics,
+  toVerticalFov,
+} from "./camera";
+
+/** A face 10 cm right, 5 cm up and 60 cm in front of the camera, as MediaPipe places it. */
+const faceMatrix = new Matrix4().makeTranslation(10, 5, -60);
+
+function project(matrix: Matrix4, verticalFov: number): Vector3 {
+  const camera = new PerspectiveCamera(verticalFov, 4 / 3, 1, 10000);
+  applyCameraIntrinsics(camera, createCameraIntrinsics(verticalFov));
+  return new Vector3().setFromMatrixPosition(matrix).project(camera);
+}
+
+describe("field of view conversions", () => {
+  it("round trips horizontal and diagonal angles", () => {
+    for (const kind of ["horizontal", "diagonal"] as const) {
+      const fov = fromVerticalFov(50, kind, 16 / 9);
+      expect(fov).toBeGreaterThan(50);
+      expect(toVerticalFov(fov, kind, 16 / 9)).toBeCloseTo(50);
+    }
+  });
+
+  it("round trips focal lengths", () => {
+    expect(getVerticalFov(getFocalLength(50, 720), 720)).toBeCloseTo(50);
+  });
+
+  it("gives a 90 degree camera a focal length of half the height", () => {
+    expect(getFocalLength(90, 720)).toBeCloseTo(360);
+  });
+});
+
+describe("getMetricFaceMatrix", () => {
+  it("keeps the face where it was detected in the image", () => {
+    const metric = getMetricFaceMatrix(faceMatrix, createCameraIntrinsics(45));
+
+    const detected = project(faceMatrix, MEDIAPIPE_VERTICAL_FOV);
+    const placed = project(metric, 45);
+    expect(placed.x).toBeCloseTo(detected.x);
+    expect(placed.y).toBeCloseTo(detected.y);
+  });
+
+  it("moves the face further for a narrower lens", () => {
+    const metric = getMetricFaceMatrix(faceMatrix, createCameraIntrinsics(45));
+    expect(metric.elements[14]).toBeLessThan(-60);
+    expect(faceMatrix.elements[14]).toBe(-60);
+  });
+
+  it("is undone by estimating the field of view at the metric distance", () => {
+    const metric = getMetricFaceMatrix(faceMatrix, createCameraIntrinsics(45));
+    expect(estimateVerticalFov(faceMatrix, -metric.elements[14])).toBeCloseTo(45);
+  });
+});
+
+describe("parseCameraIntrinsics", () => {
+  it("keeps a valid field of view and defaults the rest", () => {
+    expect(parseCameraIntrinsics({ verticalFov: 45 }).verticalFov).toBe(45);
+    expect(parseCameraIntrinsics({ verticalFov: 500 }).verticalFov).toBe(MEDIAPIPE_VERTICAL_FOV);
+  });
+
+  it("rejects newer versions", () => {
+    expect(() => parseCameraIntrinsics({ version: CAMERA_INTRINSICS_VERSION + 1 })).toThrow();
+  });
+});
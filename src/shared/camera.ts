@@ -0,0 +1,152 @@
+import { MathUtils, Matrix4, PerspectiveCamera } from "three";
+
+import { isRecord } from "./json";
+
+export const CAMERA_INTRINSICS_VERSION = 1;
+
+/**
+ * Vertical field of view MediaPipe assumes for every camera when it computes
+ * the facial transformation matrix, in degrees.
+ */
+export const MEDIAPIPE_VERTICAL_FOV = 63;
+
+/** Which angle of the image a field of view spans; webcams often give the diagonal. */
+export const FOV_KINDS = ["vertical", "horizontal", "diagonal"] as const;
+export type FovKind = typeof FOV_KINDS[number];
+
+/**
+ * Projection of the webcam. The facial transformation matrix is in cm, so
+ * with the right field of view pinned objects keep their real size and stay
+ * on the face as it moves towards or away from the camera.
+ */
+export interface CameraIntrinsics {
+  version: number;
+  /** Vertical field of view, in degrees. */
+  verticalFov: number;
+}
+
+export function createCameraIntrinsics(verticalFov = MEDIAPIPE_VERTICAL_FOV): CameraIntrinsics {
+  return { version: CAMERA_INTRINSICS_VERSION, verticalFov };
+}
+
+/** Ratio of the diagonal, horizontal or vertical extent of the image to its height. */
+function getExtent(kind: FovKind, aspect: number): number {
+  if (kind === "horizontal") return aspect;
+  if (kind === "diagonal") return Math.hypot(aspect, 1);
+  return 1;
+}
+
+/**
+ * Converts a field of view of the given kind to a vertical one, in degrees.
+ * @param aspect Width over height of the image.
+ */
+export function toVerticalFov(fov: number, kind: FovKind, aspect: number): number {
+  const tangent = Math.tan(MathUtils.degToRad(fov) / 2) / getExtent(kind, aspect);
+  return MathUtils.radToDeg(2 * Math.atan(tangent));
+}
+
+/**
+ * Converts a vertical field of view to one of the given kind, in degrees.
+ * @param aspect Width over height of the image.
+ */
+export function fromVerticalFov(verticalFov: number, kind: FovKind, aspect: number): number {
+  const tangent = Math.tan(MathUtils.degToRad(verticalFov) / 2) * getExtent(kind, aspect);
+  return MathUtils.radToDeg(2 * Math.atan(tangent));
+}
+
+/**
+ * Focal length of a vertical field of view, in pixels of an image `height`
+ * pixels tall.
+ */
+export function getFocalLength(verticalFov: number, height: number): number {
+  return height / 2 / Math.tan(MathUtils.degToRad(verticalFov) / 2);
+}
+
+/**
+ * Vertical field of view of a focal length in pixels, in degrees.
+ */
+export function getVerticalFov(focalLength: number, height: number): number {
+  return MathUtils.radToDeg(2 * Math.atan(height / 2 / focalLength));
+}
+
+/**
+ * How much further the face is than MediaPipe assumed, given the real field
+ * of view: a narrower lens shows the same face size from further away.
+ */
+export function getDepthScale(intrinsics: CameraIntrinsics): number {
+  const tangent = (fov: number) => Math.tan(MathUtils.degToRad(fov) / 2);
+  return tangent(MEDIAPIPE_VERTICAL_FOV) / tangent(intrinsics.verticalFov);
+}
+
+/**
+ * Returns a copy of the facial transformation matrix placed for the real
+ * camera: the face keeps its size in cm and moves along the view axis so it
+ * projects where it was detected. Objects placed with it line up with a camera
+ * set up by `applyCameraIntrinsics`.
+ */
+export function getMetricFaceMatrix(faceMatrix: Matrix4, intrinsics: CameraIntrinsics): Matrix4 {
+  const matrix = faceMatrix.clone();
+  matrix.elements[14] *= getDepthScale(intrinsics);
+  return matrix;
+}
+
+/**
+ * Estimates the vertical field of view from a face known to be `distance` cm
+ * in front of the camera, in degrees.
+ * @param faceMatrix Facial transformation matrix as MediaPipe returns it.
+ */
+export function estimateVerticalFov(faceMatrix: Matrix4, distance: number): number {
+  const depth = -faceMatrix.elements[14];
+  const tangent = Math.tan(MathUtils.degToRad(MEDIAPIPE_VERTICAL_FOV) / 2) * depth / distance;
+  return MathUtils.radToDeg(2 * Math.atan(tangent));
+}
+
+/**
+ * Sets `camera` up as the webcam: at the origin looking down -Z, the space of
+ * the facial transformation matrix, with its field of view.
+ */
+export function applyCameraIntrinsics(camera: PerspectiveCamera, intrinsics: CameraIntrinsics) {
+  camera.position.set(0, 0, 0);
+  camera.rotation.set(0, 0, 0);
+  camera.fov = intrinsics.verticalFov;
+  camera.updateProjectionMatrix();
+  camera.updateMatrixWorld();
+}
+
+/**
+ * Builds intrinsics from parsed JSON, keeping the default field of view when
+ * it is missing or out of range. Newer versions are rejected.
+ */
+export function parseCameraIntrinsics(json: unknown): CameraIntrinsics {
+  const stored: Record<string, unknown> = isRecord(json) ? json : {};
+  if (typeof stored.version === "number" && stored.version > CAMERA_INTRINSICS_VERSION) {
+    throw new Error(`Unsupported camera intrinsics version ${stored.version}`);
+  }
+
+  const intrinsics = createCameraIntrinsics();
+  const { verticalFov } = stored;
+  if (typeof verticalFov === "number" && Number.isFinite(verticalFov) && verticalFov > 0 && verticalFov < 180) {
+    intrinsics.verticalFov = verticalFov;
+  }
+  return intrinsics;
+}
+
+const STORAGE_KEY = "camera-intrinsics";
+
+export function saveCameraIntrinsics(intrinsics: CameraIntrinsics, storage: Storage = localStorage) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(intrinsics));
+}
+
+/**
+ * Returns the stored intrinsics, or the ones MediaPipe assumes.
+ */
+export function loadCameraIntrinsics(storage: Storage = localStorage): CameraIntrinsics {
+  const stored = storage.getItem(STORAGE_KEY);
+  if (!stored) return createCameraIntrinsics();
+  try {
+    return parseCameraIntrinsics(JSON.parse(stored));
+  } catch (e: unknown) {
+    console.warn(`Ignoring the stored camera intrinsics: ${e}`);
+    return createCameraIntrinsics();
+  }
+}
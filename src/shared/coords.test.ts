@@ -0,0 +1,109 @@
+import { Matrix4, OrthographicCamera, PerspectiveCamera, Vector2, Vector3 } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  faceToWorld,
+  getFaceMatrix,
+  mirrorLandmark,
+  ndcToNormalized,
+  normalizedToNDC,
+  normalizedToPixel,
+  normalizedToWorld,
+  pixelToNormalized,
+  worldToFace,
+  worldToNormalized,
+} from "./coords";
+import { toFaceLandmarkerResult } from "./recording";
+
+const landmark = { x: 0.25, y: 0.75, z: -0.1, visibility: 0 };
+
+function createCameras() {
+  const perspective = new PerspectiveCamera(63, 4 / 3, 1, 1000);
+  perspective.position.set(3, -2, 10);
+  perspective.lookAt(0, 0, -50);
+  perspective.updateMatrixWorld();
+
+  const orthographic = new OrthographicCamera(-2, 2, 1.5, -1.5, 0.1, 100);
+  orthographic.position.set(1, 1, -1);
+  orthographic.rotation.set(0, Math.PI, Math.PI);
+  orthographic.updateMatrixWorld();
+
+  return { perspective, orthographic };
+}
+
+describe("pixel space", () => {
+  it("scales x and z by the width and y by the height", () => {
+    expect(normalizedToPixel(landmark, 640, 480).toArray()).toEqual([160, 360, -64]);
+  });
+
+  it("round trips, also mirrored", () => {
+    for (const mirrored of [false, true]) {
+      const pixel = normalizedToPixel(landmark, 640, 480, { mirrored });
+      const back = pixelToNormalized(pixel, 640, 480, { mirrored });
+      expect(back.x).toBeCloseTo(landmark.x);
+      expect(back.y).toBeCloseTo(landmark.y);
+      expect(back.z).toBeCloseTo(landmark.z);
+    }
+  });
+
+  it("flips x when mirrored", () => {
+    expect(normalizedToPixel(landmark, 640, 480, { mirrored: true }).x).toBe(480);
+    expect(mirrorLandmark(landmark).x).toBe(0.75);
+  });
+});
+
+describe("NDC", () => {
+  it("puts the top left corner of the image at (-1, 1)", () => {
+    expect(normalizedToNDC({ x: 0, y: 0, z: 0, visibility: 0 }).toArray()).toEqual([-1, 1]);
+    expect(normalizedToNDC({ x: 0, y: 0, z: 0, visibility: 0 }, { mirrored: true }).toArray()).toEqual([1, 1]);
+  });
+
+  it("round trips", () => {
+    const back = ndcToNormalized(normalizedToNDC(landmark, { mirrored: true }), { mirrored: true });
+    expect(back.x).toBeCloseTo(landmark.x);
+    expect(back.y).toBeCloseTo(landmark.y);
+    expect(ndcToNormalized(new Vector2(0, 0))).toMatchObject({ x: 0.5, y: 0.5 });
+  });
+});
+
+describe("world space", () => {
+  for (const [name, camera] of Object.entries(createCameras())) {
+    it(`round trips through a ${name} camera at the given depth`, () => {
+      for (const mirrored of [false, true]) {
+        const point = normalizedToWorld(landmark, camera, 40, { mirrored });
+        const back = worldToNormalized(point, camera, { mirrored });
+
+        expect(back.x).toBeCloseTo(landmark.x);
+        expect(back.y).toBeCloseTo(landmark.y);
+        expect(back.z).toBeCloseTo(40);
+      }
+    });
+  }
+
+  it("maps the image center onto the view axis of a perspective camera", () => {
+    const camera = new PerspectiveCamera(60, 1, 1, 1000);
+    camera.updateMatrixWorld();
+    const point = normalizedToWorld({ x: 0.5, y: 0.5, z: 0, visibility: 0 }, camera, 50);
+    expect(point.distanceTo(new Vector3(0, 0, -50))).toBeCloseTo(0);
+  });
+});
+
+describe("face space", () => {
+  const result = toFaceLandmarkerResult(faceRecording.frames[1]);
+
+  it("reads the facial transformation matrix of a face", () => {
+    expect(getFaceMatrix(result)?.elements).toEqual(result.facialTransformationMatrixes[0].data);
+    expect(getFaceMatrix(result, 1)).toBeNull();
+  });
+
+  it("round trips through the face and camera", () => {
+    const faceMatrix = new Matrix4().makeRotationY(0.3).setPosition(2, 1, -50);
+    const { perspective } = createCameras();
+
+    const point = new Vector3(1, 2, 3);
+    const world = faceToWorld(point, faceMatrix, perspective);
+    expect(worldToFace(world, faceMatrix, perspective).distanceTo(point)).toBeCloseTo(0);
+    expect(faceToWorld(new Vector3(), faceMatrix).toArray()).toEqual([2, 1, -50]);
+  });
+});
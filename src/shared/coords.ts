@@ -0,0 +1,134 @@
+import { FaceLandmarkerResult, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { Camera, Matrix4, OrthographicCamera, PerspectiveCamera, Vector2, Vector3 } from "three";
+
+/*
+ * Spaces the demos place things in:
+ * - normalized: MediaPipe landmarks. x to the right and y down across the
+ *   image in [0, 1], z away from the camera in the scale of x.
+ * - pixel: normalized scaled to an image, z scaled like x.
+ * - NDC: x to the right and y up in [-1, 1], like Three.js projects to.
+ * - face: the canonical face in cm. +X towards the subject's left, +Y up and
+ *   +Z out of the face. The facial transformation matrix takes it to camera
+ *   space.
+ * - camera: cm in front of the webcam, which looks down -Z with +Y up.
+ * - world: the Three.js scene, where the camera sits at `camera.matrixWorld`.
+ *
+ * `mirrored` is for images shown flipped like a mirror: it flips x between
+ * the image and every other space.
+ */
+
+export interface CoordinateOptions {
+  /** Whether the image is shown mirrored. */
+  mirrored?: boolean;
+}
+
+export type ProjectionCamera = PerspectiveCamera | OrthographicCamera;
+
+/**
+ * Returns `landmark` as it shows in the mirrored image.
+ */
+export function mirrorLandmark(landmark: NormalizedLandmark): NormalizedLandmark {
+  return { ...landmark, x: 1 - landmark.x };
+}
+
+/**
+ * Scales a landmark to an image of `width` x `height`. Passing the aspect
+ * ratio and 1, or 1 and its inverse, gives coordinates in image heights or
+ * widths, with both axes in the same unit.
+ */
+export function normalizedToPixel(
+  landmark: NormalizedLandmark,
+  width: number,
+  height: number,
+  { mirrored = false }: CoordinateOptions = {}
+): Vector3 {
+  const x = mirrored ? 1 - landmark.x : landmark.x;
+  return new Vector3(x * width, landmark.y * height, landmark.z * width);
+}
+
+export function pixelToNormalized(
+  point: Vector3,
+  width: number,
+  height: number,
+  { mirrored = false }: CoordinateOptions = {}
+): NormalizedLandmark {
+  const x = point.x / width;
+  return { x: mirrored ? 1 - x : x, y: point.y / height, z: point.z / width, visibility: 0 };
+}
+
+export function normalizedToNDC(landmark: NormalizedLandmark, { mirrored = false }: CoordinateOptions = {}): Vector2 {
+  const x = landmark.x * 2 - 1;
+  return new Vector2(mirrored ? -x : x, 1 - landmark.y * 2);
+}
+
+export function ndcToNormalized(ndc: Vector2, { mirrored = false }: CoordinateOptions = {}): NormalizedLandmark {
+  const x = mirrored ? -ndc.x : ndc.x;
+  return { x: (x + 1) / 2, y: (1 - ndc.y) / 2, z: 0, visibility: 0 };
+}
+
+/** Direction `camera` looks at, in world space. */
+function getForward(camera: Camera): Vector3 {
+  return camera.getWorldDirection(new Vector3());
+}
+
+/**
+ * Returns the point of the world that shows at `landmark` and lies `depth`
+ * units in front of `camera`, along its view axis.
+ */
+export function normalizedToWorld(
+  landmark: NormalizedLandmark,
+  camera: ProjectionCamera,
+  depth: number,
+  options?: CoordinateOptions
+): Vector3 {
+  const ndc = normalizedToNDC(landmark, options);
+  const near = new Vector3(ndc.x, ndc.y, -1).unproject(camera);
+  const ray = new Vector3(ndc.x, ndc.y, 1).unproject(camera).sub(near);
+
+  const origin = new Vector3().setFromMatrixPosition(camera.matrixWorld);
+  const forward = getForward(camera);
+  const t = (depth - near.clone().sub(origin).dot(forward)) / ray.dot(forward);
+  return near.addScaledVector(ray, t);
+}
+
+/**
+ * Returns where a world point shows in the image of `camera`, with z the
+ * depth of the point in front of the camera, along its view axis.
+ */
+export function worldToNormalized(
+  point: Vector3,
+  camera: ProjectionCamera,
+  options?: CoordinateOptions
+): NormalizedLandmark {
+  const ndc = point.clone().project(camera);
+  const origin = new Vector3().setFromMatrixPosition(camera.matrixWorld);
+  return { ...ndcToNormalized(new Vector2(ndc.x, ndc.y), options), z: point.clone().sub(origin).dot(getForward(camera)) };
+}
+
+/**
+ * Returns the facial transformation matrix of the `index`th face of `result`,
+ * which takes face space to camera space, or `null` without one.
+ */
+export function getFaceMatrix(result: FaceLandmarkerResult, index = 0): Matrix4 | null {
+  const matrix = result.facialTransformationMatrixes?.[index];
+  return matrix ? new Matrix4().fromArray(matrix.data) : null;
+}
+
+/**
+ * Takes a point of face space to the world.
+ * @param faceMatrix Facial transformation matrix of the face.
+ * @param camera Camera standing in for the webcam. Without it camera space
+ * is taken as the world, like for a camera at the origin.
+ */
+export function faceToWorld(point: Vector3, faceMatrix: Matrix4, camera?: Camera): Vector3 {
+  const result = point.clone().applyMatrix4(faceMatrix);
+  return camera ? result.applyMatrix4(camera.matrixWorld) : result;
+}
+
+/**
+ * Takes a world point to the face space of `faceMatrix`, see `faceToWorld`.
+ */
+export function worldToFace(point: Vector3, faceMatrix: Matrix4, camera?: Camera): Vector3 {
+  const result = camera ? point.clone().applyMatrix4(camera.matrixWorld.clone().invert()) : point.clone();
+  return result.applyMatrix4(faceMatrix.clone().invert());
+}
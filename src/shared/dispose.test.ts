@@ -0,0 +1,27 @@
+import { BoxGeometry, DataTexture, Group, Mesh, MeshBasicMaterial } from "three";
+import { describe, expect, it } from "vitest";
+
+import { disposeObject } from "./dispose";
+
+describe("disposeObject", () => {
+  it("detaches the object and disposes geometries, materials and textures", () => {
+    const disposed: string[] = [];
+    const track = (name: string) => () => disposed.push(name);
+
+    const geometry = new BoxGeometry();
+    const map = new DataTexture();
+    const materials = [new MeshBasicMaterial({ map }), new MeshBasicMaterial()];
+    geometry.addEventListener("dispose", track("geometry"));
+    map.addEventListener("dispose", track("map"));
+    materials.forEach((material, i) => material.addEventListener("dispose", track(`material${i}`)));
+
+    const parent = new Group();
+    const model = new Group().add(new Group().add(new Mesh(geometry, materials)));
+    parent.add(model);
+
+    disposeObject(model);
+
+    expect(model.parent).toBeNull();
+    expect(disposed.sort()).toEqual(["geometry", "map", "material0", "material1"]);
+  });
+});
@@ -0,0 +1,31 @@
+import { Material, Mesh, Object3D, SkinnedMesh, Texture } from "three";
+
+/**
+ * Frees the GPU resources of a material and of every texture it uses.
+ */
+export function disposeMaterial(material: Material) {
+  for (const value of Object.values(material)) {
+    if (value instanceof Texture) value.dispose();
+  }
+  material.dispose();
+}
+
+/**
+ * Removes `object` from its parent and frees the geometries, materials,
+ * textures and skeletons below it. Resources shared with objects still in use
+ * must not be reachable from `object`.
+ */
+export function disposeObject(object: Object3D) {
+  object.removeFromParent();
+  object.traverse((child) => {
+    if ((child as SkinnedMesh).isSkinnedMesh) {
+      (child as SkinnedMesh).skeleton.dispose();
+    }
+    if (!(child as Mesh).isMesh) return;
+
+    const mesh = child as Mesh;
+    mesh.geometry.dispose();
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach(disposeMaterial);
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Saves `blob` as `filename` through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Saves `data` as pretty-printed JSON.
+ */
+export function downloadJSON(data: unknown, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }), filename);
+}
+
+/**
+ * Reads a JSON file picked by the user, to be checked by the caller.
+ */
+export async function readJSONFile(file: File): Promise<unknown> {
+  return JSON.parse(await file.text());
+}
@@ -0,0 +1,52 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import { FaceTracker, getFaceBox, getIoU } from "./faces";
+
+const face = faceRecording.frames[0].faceLandmarks![0];
+
+/** The recorded face moved by `dx` across the image. */
+function shifted(dx: number): NormalizedLandmark[] {
+  return face.map((landmark) => ({ ...landmark, x: landmark.x + dx }));
+}
+
+describe("getIoU", () => {
+  it("is 1 for the same box and 0 for boxes apart", () => {
+    const box = getFaceBox(face);
+    expect(getIoU(box, box)).toBeCloseTo(1);
+    expect(getIoU(box, getFaceBox(shifted(1)))).toBe(0);
+  });
+});
+
+describe("FaceTracker", () => {
+  it("keeps ids with their faces when the detection order changes", () => {
+    const tracker = new FaceTracker();
+    const [left, right] = tracker.update({ faceLandmarks: [shifted(-0.3), shifted(0.3)] });
+
+    expect(tracker.update({ faceLandmarks: [shifted(0.31), shifted(-0.29)] })).toEqual([right, left]);
+  });
+
+  it("follows a face that moves further than it overlaps", () => {
+    const tracker = new FaceTracker({ minIoU: 0.99, maxDistance: 0.1 });
+    const [id] = tracker.update({ faceLandmarks: [face] });
+
+    expect(tracker.update({ faceLandmarks: [shifted(0.05)] })).toEqual([id]);
+    expect(tracker.update({ faceLandmarks: [shifted(0.5)] })).not.toEqual([id]);
+  });
+
+  it("reports faces entering, and leaving after the missed frames allowed", () => {
+    const tracker = new FaceTracker({ maxMissedFrames: 1 });
+    const events: string[] = [];
+    tracker.onEnter = (id) => events.push(`enter ${id}`);
+    tracker.onLeave = (id) => events.push(`leave ${id}`);
+
+    tracker.update({ faceLandmarks: [face] });
+    tracker.update({ faceLandmarks: [] });
+    expect(tracker.ids).toEqual([1]);
+    tracker.update({ faceLandmarks: [] });
+
+    expect(events).toEqual(["enter 1", "leave 1"]);
+    expect(tracker.ids).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { FaceLandmarkerResult, NormalizedLandmark } from "@mediapipe/tasks-vision";
+
+/** Axis-aligned bounds of a face in normalized image coordinates. */
+export interface FaceBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function getFaceBox(landmarks: NormalizedLandmark[]): FaceBox {
+  const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const { x, y } of landmarks) {
+    box.minX = Math.min(box.minX, x);
+    box.minY = Math.min(box.minY, y);
+    box.maxX = Math.max(box.maxX, x);
+    box.maxY = Math.max(box.maxY, y);
+  }
+  return box;
+}
+
+/**
+ * Intersection over union of two boxes, from 0 when they are apart to 1 when
+ * they are the same.
+ */
+export function getIoU(a: FaceBox, b: FaceBox): number {
+  const width = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX);
+  const height = Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  const area = (box: FaceBox) => (box.maxX - box.minX) * (box.maxY - box.minY);
+  return intersection / (area(a) + area(b) - intersection);
+}
+
+function getCenterDistance(a: FaceBox, b: FaceBox): number {
+  return Math.hypot((a.minX + a.maxX - b.minX - b.maxX) / 2, (a.minY + a.maxY - b.minY - b.maxY) / 2);
+}
+
+export interface FaceTrackerOptions {
+  /** Overlap below which a detection is not matched by IoU. */
+  minIoU: number;
+  /**
+   * Distance between box centers, in normalized image units, within which a
+   * detection that overlaps no face is still matched to the closest one.
+   */
+  maxDistance: number;
+  /** Frames a face may go undetected before it is dropped. */
+  maxMissedFrames: number;
+}
+
+export const DEFAULT_FACE_TRACKER_OPTIONS: FaceTrackerOptions = {
+  minIoU: 0.2,
+  maxDistance: 0.1,
+  maxMissedFrames: 5,
+};
+
+interface TrackedFace {
+  id: number;
+  box: FaceBox;
+  missed: number;
+}
+
+/**
+ * Gives every face a stable id across frames, so per-face objects follow the
+ * same person when faces swap places in the detection results. Detections are
+ * matched to the faces of the previous frame by overlap first, then by
+ * distance. `onEnter` and `onLeave` are called as faces appear and are
+ * dropped.
+ */
+export class FaceTracker {
+  options: FaceTrackerOptions;
+  onEnter: ((id: number) => void) | null = null;
+  onLeave: ((id: number) => void) | null = null;
+
+  private faces: TrackedFace[] = [];
+  private nextId = 1;
+
+  constructor(options: Partial<FaceTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_FACE_TRACKER_OPTIONS, ...options };
+  }
+
+  /** Ids of the faces currently tracked, including briefly missed ones. */
+  get ids(): number[] {
+    return this.faces.map((face) => face.id);
+  }
+
+  /**
+   * Matches the faces of `result` and returns their ids, in result order.
+   * @param result
+   */
+  update(result: Pick<FaceLandmarkerResult, "faceLandmarks">): number[] {
+    const boxes = result.faceLandmarks.map(getFaceBox);
+    const ids: (number | undefined)[] = boxes.map(() => undefined);
+    const matched = new Set<TrackedFace>();
+
+    // Greedily pair the best overlaps, then the closest leftovers.
+    const match = (score: (face: TrackedFace, box: FaceBox) => number, minScore: number) => {
+      const pairs: { face: TrackedFace; index: number; score: number }[] = [];
+      for (const face of this.faces) {
+        if (matched.has(face)) continue;
+        boxes.forEach((box, index) => {
+          if (ids[index] !== undefined) return;
+          const value = score(face, box);
+          if (value >= minScore) pairs.push({ face, index, score: value });
+        });
+      }
+      pairs.sort((a, b) => b.score - a.score);
+      for (const { face, index } of pairs) {
+        if (matched.has(face) || ids[index] !== undefined) continue;
+        matched.add(face);
+        ids[index] = face.id;
+        face.box = boxes[index];
+        face.missed = 0;
+      }
+    };
+    match((face, box) => getIoU(face.box, box), this.options.minIoU);
+    match((face, box) => -getCenterDistance(face.box, box), -this.options.maxDistance);
+
+    for (const face of this.faces) {
+      if (!matched.has(face)) face.missed++;
+    }
+    const dropped = this.faces.filter((face) => face.missed > this.options.maxMissedFrames);
+    this.faces = this.faces.filter((face) => face.missed <= this.options.maxMissedFrames);
+    dropped.forEach((face) => this.onLeave?.(face.id));
+
+    return boxes.map((box, index) => {
+      const id = ids[index];
+      if (id !== undefined) return id;
+
+      const face = { id: this.nextId++, box, missed: 0 };
+      this.faces.push(face);
+      this.onEnter?.(face.id);
+      return face.id;
+    });
+  }
+
+  /**
+   * Drops every face, calling `onLeave` for each.
+   */
+  reset() {
+    const faces = this.faces;
+    this.faces = [];
+    faces.forEach((face) => this.onLeave?.(face.id));
+  }
+}
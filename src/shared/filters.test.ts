@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { Euler, Matrix4, Quaternion, Vector3 } from "three";
+
+import { faceRecording } from "../__fixtures__";
+import { toFaceLandmarkerResult } from "./recording";
+import {
+  FaceResultFilter,
+  MatrixFilter,
+  QuaternionFilter,
+  VectorFilter,
+  createFilterParams,
+} from "./filters";
+
+const FRAME_MS = 1000 / 30;
+
+/** Feeds a step from 0 to 1 and returns the outputs after the step. */
+function step(filter: VectorFilter, samples = 5): number[] {
+  filter.filter([0], 0);
+  return Array.from({ length: samples }, (_, i) => filter.filter([1], (i + 1) * FRAME_MS)[0]);
+}
+
+describe("VectorFilter", () => {
+  it("passes values through when off", () => {
+    expect(step(new VectorFilter())).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  it.each(["oneEuro", "ema", "kalman"] as const)("%s converges monotonically towards a step", (kind) => {
+    const outputs = step(new VectorFilter(createFilterParams({ kind })), 60);
+
+    expect(outputs[0]).toBeGreaterThan(0);
+    expect(outputs[0]).toBeLessThan(1);
+    for (let i = 1; i < outputs.length; i++) {
+      expect(outputs[i]).toBeGreaterThanOrEqual(outputs[i - 1]);
+    }
+    expect(outputs[outputs.length - 1]).toBeCloseTo(1, 1);
+  });
+
+  it("uses alpha as the EMA weight", () => {
+    const outputs = step(new VectorFilter(createFilterParams({ kind: "ema", alpha: 0.25 })), 2);
+    expect(outputs).toEqual([0.25, 0.4375]);
+  });
+
+  it("lags less with a higher One Euro beta", () => {
+    const slow = step(new VectorFilter(createFilterParams({ kind: "oneEuro", beta: 0 })), 1);
+    const fast = step(new VectorFilter(createFilterParams({ kind: "oneEuro", beta: 1 })), 1);
+    expect(fast[0]).toBeGreaterThan(slow[0]);
+  });
+
+  it("starts over when the kind changes", () => {
+    const params = createFilterParams({ kind: "ema", alpha: 0.5 });
+    const filter = new VectorFilter(params);
+    filter.filter([0], 0);
+
+    params.kind = "kalman";
+    expect(filter.filter([1], FRAME_MS)).toEqual([1]);
+  });
+});
+
+describe("QuaternionFilter", () => {
+  it("slerps towards the new rotation", () => {
+    const filter = new QuaternionFilter(createFilterParams({ kind: "ema", alpha: 0.5 }));
+    filter.filter(new Quaternion(), 0);
+
+    const target = new Quaternion().setFromEuler(new Euler(0, Math.PI / 2, 0));
+    const output = filter.filter(target.clone(), FRAME_MS);
+
+    expect(output.angleTo(new Quaternion())).toBeCloseTo(Math.PI / 4);
+    expect(output.length()).toBeCloseTo(1);
+  });
+});
+
+describe("MatrixFilter", () => {
+  it("does not touch the input matrix", () => {
+    const filter = new MatrixFilter(createFilterParams({ kind: "ema" }));
+    const matrix = new Matrix4().makeTranslation(1, 2, 3);
+    const before = matrix.clone();
+
+    filter.filter(new Matrix4(), 0);
+    filter.filter(matrix, FRAME_MS);
+    expect(matrix.equals(before)).toBe(true);
+  });
+
+  it("smooths translation and rotation", () => {
+    const filter = new MatrixFilter(createFilterParams({ kind: "ema", alpha: 0.5 }));
+    filter.filter(new Matrix4(), 0);
+
+    const target = new Matrix4().compose(
+      new Vector3(2, 0, -40),
+      new Quaternion().setFromEuler(new Euler(0, 0.4, 0)),
+      new Vector3(1, 1, 1)
+    );
+    const output = filter.filter(target, FRAME_MS);
+
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    output.decompose(position, quaternion, new Vector3());
+    expect(position.x).toBeCloseTo(1);
+    expect(position.z).toBeCloseTo(-20);
+    expect(quaternion.angleTo(new Quaternion())).toBeCloseTo(0.2);
+  });
+});
+
+describe("FaceResultFilter", () => {
+  const results = faceRecording.frames.map(toFaceLandmarkerResult);
+
+  it("leaves results untouched while every stream is off", () => {
+    const filter = new FaceResultFilter();
+    expect(filter.filter(results[1], 0)).toEqual(results[1]);
+  });
+
+  it("filters only the streams that are turned on", () => {
+    const filter = new FaceResultFilter();
+    filter.blendshapes.params.kind = "ema";
+
+    filter.filter(results[0], 0);
+    const output = filter.filter(results[1], FRAME_MS);
+
+    expect(output.faceLandmarks).toBe(results[1].faceLandmarks);
+    expect(output.facialTransformationMatrixes).toEqual(results[1].facialTransformationMatrixes);
+
+    const before = results[0].faceBlendshapes[0].categories[3].score;
+    const after = results[1].faceBlendshapes[0].categories[3].score;
+    expect(output.faceBlendshapes[0].categories[3].score).toBeCloseTo((before + after) / 2);
+  });
+
+  it("filters landmarks and matrices per face", () => {
+    const filter = new FaceResultFilter();
+    filter.landmarks.params.kind = "ema";
+    filter.matrixParams.kind = "ema";
+
+    filter.filter(results[0], 0);
+    const output = filter.filter(results[2], FRAME_MS);
+
+    const x0 = results[0].faceLandmarks[0][1].x;
+    const x2 = results[2].faceLandmarks[0][1].x;
+    expect(output.faceLandmarks[0][1].x).toBeCloseTo((x0 + x2) / 2);
+
+    const tx0 = results[0].facialTransformationMatrixes[0].data[12];
+    const tx2 = results[2].facialTransformationMatrixes[0].data[12];
+    expect(output.facialTransformationMatrixes[0].data[12]).toBeCloseTo((tx0 + tx2) / 2);
+  });
+});
+
+describe("FaceResultFilter with face ids", () => {
+  const results = faceRecording.frames.map(toFaceLandmarkerResult);
+
+  it("keeps each face's state with its id when the faces swap slots", () => {
+    const filter = new FaceResultFilter();
+    filter.blendshapes.params.kind = "ema";
+    const twoFaces = (first: number, second: number) => ({
+      faceLandmarks: [],
+      faceBlendshapes: [results[first].faceBlendshapes[0], results[second].faceBlendshapes[0]],
+      facialTransformationMatrixes: [],
+    });
+
+    filter.filter(twoFaces(0, 1), 0, [1, 2]);
+    const output = filter.filter(twoFaces(1, 0), FRAME_MS, [2, 1]);
+
+    const score = (result: number) => results[result].faceBlendshapes[0].categories[3].score;
+    expect(output.faceBlendshapes[0].categories[3].score).toBeCloseTo(score(1));
+    expect(output.faceBlendshapes[1].categories[3].score).toBeCloseTo(score(0));
+  });
+});
@@ -0,0 +1,405 @@
+import { Classifications, FaceLandmarkerResult, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { Matrix4, Quaternion, Vector3 } from "three";
+
+export const FILTER_KINDS = ["none", "oneEuro", "ema", "kalman"] as const;
+export type FilterKind = typeof FILTER_KINDS[number];
+
+/**
+ * Parameters of a stream filter. Only the ones belonging to `kind` are used,
+ * the others are kept so switching back and forth keeps the tuning.
+ */
+export interface FilterParams {
+  kind: FilterKind;
+
+  /** One Euro: cutoff frequency at rest, in Hz. Lower is smoother. */
+  minCutoff: number;
+  /** One Euro: how fast the cutoff rises with speed. Higher lags less. */
+  beta: number;
+  /** One Euro: cutoff frequency used for the speed estimate, in Hz. */
+  dCutoff: number;
+
+  /** Exponential moving average: weight of the newest sample. */
+  alpha: number;
+
+  /** Kalman: how much the value is expected to move between samples. */
+  processNoise: number;
+  /** Kalman: how noisy the detector output is. */
+  measurementNoise: number;
+}
+
+export const DEFAULT_FILTER_PARAMS: FilterParams = {
+  kind: "none",
+  minCutoff: 1,
+  beta: 0.01,
+  dCutoff: 1,
+  alpha: 0.5,
+  processNoise: 0.01,
+  measurementNoise: 0.1,
+};
+
+export function createFilterParams(overrides: Partial<FilterParams> = {}): FilterParams {
+  return { ...DEFAULT_FILTER_PARAMS, ...overrides };
+}
+
+/**
+ * Weight of the newest sample for a first-order low-pass filter with the given
+ * `cutoff` frequency, `dt` seconds after the previous sample.
+ */
+function smoothingFactor(dt: number, cutoff: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+interface ScalarFilter {
+  /** Filters `value`, received `dt` seconds after the previous one. */
+  next(value: number, dt: number): number;
+}
+
+class OneEuroFilter implements ScalarFilter {
+  private value: number | null = null;
+  private speed = 0;
+
+  constructor(private params: FilterParams) {}
+
+  next(value: number, dt: number): number {
+    if (this.value === null || dt <= 0) {
+      this.value = value;
+      return value;
+    }
+    const { minCutoff, beta, dCutoff } = this.params;
+
+    const speed = (value - this.value) / dt;
+    this.speed += smoothingFactor(dt, dCutoff) * (speed - this.speed);
+
+    const cutoff = minCutoff + beta * Math.abs(this.speed);
+    this.value += smoothingFactor(dt, cutoff) * (value - this.value);
+    return this.value;
+  }
+}
+
+class EmaFilter implements ScalarFilter {
+  private value: number | null = null;
+
+  constructor(private params: FilterParams) {}
+
+  next(value: number): number {
+    if (this.value === null) {
+      this.value = value;
+      return value;
+    }
+    this.value += this.params.alpha * (value - this.value);
+    return this.value;
+  }
+}
+
+/**
+ * Advances a random walk Kalman filter by one sample and returns its gain.
+ */
+function kalmanGain(state: { variance: number }, params: FilterParams): number {
+  state.variance += params.processNoise;
+  const gain = state.variance / (state.variance + params.measurementNoise);
+  state.variance *= 1 - gain;
+  return gain;
+}
+
+/**
+ * One-dimensional Kalman filter with a random walk model.
+ */
+class KalmanFilter implements ScalarFilter {
+  private value: number | null = null;
+  private state = { variance: 1 };
+
+  constructor(private params: FilterParams) {}
+
+  next(value: number): number {
+    if (this.value === null) {
+      this.value = value;
+      return value;
+    }
+    this.value += kalmanGain(this.state, this.params) * (value - this.value);
+    return this.value;
+  }
+}
+
+function createScalarFilter(params: FilterParams): ScalarFilter | null {
+  switch (params.kind) {
+    case "oneEuro": return new OneEuroFilter(params);
+    case "ema": return new EmaFilter(params);
+    case "kalman": return new KalmanFilter(params);
+    default: return null;
+  }
+}
+
+/**
+ * Filters a fixed-length list of numbers. The filters are rebuilt whenever
+ * the kind or the length changes.
+ */
+export class VectorFilter {
+  params: FilterParams;
+
+  private filters: (ScalarFilter | null)[] = [];
+  private kind: FilterKind | null = null;
+  private lastTimestamp: number | null = null;
+
+  constructor(params: FilterParams = createFilterParams()) {
+    this.params = params;
+  }
+
+  /**
+   * @param values
+   * @param timestamp Time of the sample in ms.
+   */
+  filter(values: number[], timestamp: number): number[] {
+    if (this.kind !== this.params.kind || this.filters.length !== values.length) {
+      this.kind = this.params.kind;
+      this.filters = values.map(() => createScalarFilter(this.params));
+      this.lastTimestamp = null;
+    }
+
+    const dt = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    return values.map((value, i) => this.filters[i]?.next(value, dt) ?? value);
+  }
+
+  reset() {
+    this.kind = null;
+  }
+}
+
+/**
+ * Smooths rotations by slerping from the previous output towards each new
+ * sample, with a weight picked by the filter kind.
+ */
+export class QuaternionFilter {
+  params: FilterParams;
+
+  private previous: Quaternion | null = null;
+  private kind: FilterKind | null = null;
+  private lastTimestamp: number | null = null;
+  private speed = 0;
+  private state = { variance: 1 };
+
+  constructor(params: FilterParams = createFilterParams()) {
+    this.params = params;
+  }
+
+  /**
+   * Filters `quaternion` in place and returns it.
+   * @param quaternion
+   * @param timestamp Time of the sample in ms.
+   */
+  filter(quaternion: Quaternion, timestamp: number): Quaternion {
+    if (this.kind !== this.params.kind) {
+      this.reset();
+      this.kind = this.params.kind;
+    }
+    const dt = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    if (!this.previous || this.params.kind === "none" || dt <= 0) {
+      this.previous = quaternion.clone();
+      return quaternion;
+    }
+
+    let weight: number;
+    switch (this.params.kind) {
+      case "oneEuro": {
+        const { minCutoff, beta, dCutoff } = this.params;
+        const speed = this.previous.angleTo(quaternion) / dt;
+        this.speed += smoothingFactor(dt, dCutoff) * (speed - this.speed);
+        weight = smoothingFactor(dt, minCutoff + beta * this.speed);
+        break;
+      }
+      case "ema":
+        weight = this.params.alpha;
+        break;
+      case "kalman":
+        weight = kalmanGain(this.state, this.params);
+        break;
+    }
+
+    this.previous.slerp(quaternion, weight);
+    return quaternion.copy(this.previous);
+  }
+
+  reset() {
+    this.previous = null;
+    this.kind = null;
+    this.lastTimestamp = null;
+    this.speed = 0;
+    this.state = { variance: 1 };
+  }
+}
+
+/**
+ * Filters a rigid transform: the translation per component and the rotation
+ * as a quaternion. Scale passes through.
+ */
+export class MatrixFilter {
+  params: FilterParams;
+
+  private position: VectorFilter;
+  private rotation: QuaternionFilter;
+
+  constructor(params: FilterParams = createFilterParams()) {
+    this.params = params;
+    this.position = new VectorFilter(params);
+    this.rotation = new QuaternionFilter(params);
+  }
+
+  /**
+   * Returns a filtered copy of `matrix`.
+   * @param matrix
+   * @param timestamp Time of the sample in ms.
+   */
+  filter(matrix: Matrix4, timestamp: number): Matrix4 {
+    if (this.params.kind === "none") return matrix.clone();
+
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    const scale = new Vector3();
+    matrix.decompose(position, quaternion, scale);
+
+    position.fromArray(this.position.filter(position.toArray(), timestamp));
+    this.rotation.filter(quaternion, timestamp);
+
+    return new Matrix4().compose(position, quaternion, scale);
+  }
+
+  reset() {
+    this.position.reset();
+    this.rotation.reset();
+  }
+}
+
+/**
+ * Returns the filter kept for `key`, creating it on first use.
+ */
+function getFaceFilter<T>(filters: Map<number, T>, key: number, create: () => T): T {
+  let filter = filters.get(key);
+  if (!filter) {
+    filter = create();
+    filters.set(key, filter);
+  }
+  return filter;
+}
+
+/**
+ * Filters the landmarks of every face, one `VectorFilter` per face. Faces are
+ * told apart by their slot in the result, or by the ids passed to `filter`.
+ */
+export class LandmarkFilter {
+  params: FilterParams;
+
+  private faces = new Map<number, VectorFilter>();
+
+  constructor(params: FilterParams = createFilterParams()) {
+    this.params = params;
+  }
+
+  filter(faces: NormalizedLandmark[][], timestamp: number, ids?: number[]): NormalizedLandmark[][] {
+    if (this.params.kind === "none") return faces;
+
+    return faces.map((landmarks, i) => {
+      const filter = getFaceFilter(this.faces, ids?.[i] ?? i, () => new VectorFilter(this.params));
+      const values = filter.filter(landmarks.flatMap(({ x, y, z }) => [x, y, z]), timestamp);
+      return landmarks.map((landmark, j) => ({
+        ...landmark,
+        x: values[j * 3],
+        y: values[j * 3 + 1],
+        z: values[j * 3 + 2],
+      }));
+    });
+  }
+
+  /** Drops the filter state of face `id`. */
+  forget(id: number) {
+    this.faces.delete(id);
+  }
+
+  reset() {
+    this.faces.clear();
+  }
+}
+
+/**
+ * Filters blendshape scores, one `VectorFilter` per face, told apart like in
+ * `LandmarkFilter`.
+ */
+export class BlendshapeFilter {
+  params: FilterParams;
+
+  private faces = new Map<number, VectorFilter>();
+
+  constructor(params: FilterParams = createFilterParams()) {
+    this.params = params;
+  }
+
+  filter(blendshapes: Classifications[], timestamp: number, ids?: number[]): Classifications[] {
+    if (this.params.kind === "none") return blendshapes;
+
+    return blendshapes.map((classifications, i) => {
+      const filter = getFaceFilter(this.faces, ids?.[i] ?? i, () => new VectorFilter(this.params));
+      const scores = filter.filter(classifications.categories.map(({ score }) => score), timestamp);
+      return {
+        ...classifications,
+        categories: classifications.categories.map((category, j) => ({ ...category, score: scores[j] })),
+      };
+    });
+  }
+
+  /** Drops the filter state of face `id`. */
+  forget(id: number) {
+    this.faces.delete(id);
+  }
+
+  reset() {
+    this.faces.clear();
+  }
+}
+
+/**
+ * Bundles one filter per stream of a `FaceLandmarkerResult`. Each stream is
+ * turned on and tuned through its own `params`.
+ */
+export class FaceResultFilter {
+  landmarks = new LandmarkFilter();
+  blendshapes = new BlendshapeFilter();
+  matrixParams = createFilterParams();
+
+  private matrices = new Map<number, MatrixFilter>();
+
+  /**
+   * Returns a filtered copy of `result`; the input is left untouched.
+   * @param result
+   * @param timestamp Time of the sample in ms.
+   * @param ids Id of every face of `result`, see `FaceTracker`. Without them
+   * faces are told apart by their slot in the result.
+   */
+  filter(result: FaceLandmarkerResult, timestamp: number, ids?: number[]): FaceLandmarkerResult {
+    return {
+      faceLandmarks: this.landmarks.filter(result.faceLandmarks, timestamp, ids),
+      faceBlendshapes: this.blendshapes.filter(result.faceBlendshapes, timestamp, ids),
+      facialTransformationMatrixes: result.facialTransformationMatrixes.map((matrix, i) => {
+        if (this.matrixParams.kind === "none") return matrix;
+        const filter = getFaceFilter(this.matrices, ids?.[i] ?? i, () => new MatrixFilter(this.matrixParams));
+        const filtered = filter.filter(new Matrix4().fromArray(matrix.data), timestamp);
+        return { ...matrix, data: filtered.toArray() };
+      }),
+    };
+  }
+
+  /** Drops the filter state of face `id`. */
+  forget(id: number) {
+    this.landmarks.forget(id);
+    this.blendshapes.forget(id);
+    this.matrices.delete(id);
+  }
+
+  reset() {
+    this.landmarks.reset();
+    this.blendshapes.reset();
+    this.matrices.clear();
+  }
+}
@@ -0,0 +1,67 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { describe, expect, it } from "vitest";
+
+import { EYE_LANDMARKS, EYEBALL_RADIUS, getEyeGaze, getGazeDirection, getIrisGaze, hasIrisLandmarks } from "./gaze";
+
+/**
+ * A face whose eyes are 0.1 wide and level, with each iris moved by `dx` and
+ * `dy` half eye widths from the middle of its eye.
+ */
+function createFace(dx: number, dy: number): NormalizedLandmark[] {
+  const landmarks = Array.from({ length: 478 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }));
+  for (const [eye, x] of [["right", 0.3], ["left", 0.6]] as const) {
+    const { first, second, iris } = EYE_LANDMARKS[eye];
+    landmarks[first] = { ...landmarks[first], x, y: 0.4 };
+    landmarks[second] = { ...landmarks[second], x: x + 0.1, y: 0.4 };
+    landmarks[iris] = { ...landmarks[iris], x: x + 0.05 + dx * 0.05, y: 0.4 + dy * 0.05 };
+  }
+  return landmarks;
+}
+
+describe("getEyeGaze", () => {
+  it("looks straight ahead with the iris between the corners", () => {
+    const gaze = getEyeGaze(createFace(0, 0), "left");
+    expect(gaze.yaw).toBeCloseTo(0);
+    expect(gaze.pitch).toBeCloseTo(0);
+  });
+
+  it("turns towards the subject's left when the iris moves right in the image", () => {
+    const { yaw, pitch } = getEyeGaze(createFace(EYEBALL_RADIUS / 2, 0), "right");
+    expect(yaw).toBeCloseTo(30);
+    expect(pitch).toBeCloseTo(0);
+  });
+
+  it("looks up when the iris moves up in the image", () => {
+    expect(getEyeGaze(createFace(0, -EYEBALL_RADIUS / 2), "left").pitch).toBeCloseTo(30);
+  });
+
+  it("takes the image aspect into account", () => {
+    // On a 2:1 image the eyes are twice as wide as the normalized coordinates say.
+    expect(getEyeGaze(createFace(0, -EYEBALL_RADIUS), "left", 2).pitch).toBeCloseTo(30);
+  });
+});
+
+describe("getIrisGaze", () => {
+  it("averages both eyes", () => {
+    const face = createFace(EYEBALL_RADIUS / 2, 0);
+    const { left, right, combined } = getIrisGaze(face);
+
+    expect(combined.yaw).toBeCloseTo((left.yaw + right.yaw) / 2);
+  });
+
+  it("needs the iris landmarks", () => {
+    expect(hasIrisLandmarks(createFace(0, 0))).toBe(true);
+    expect(hasIrisLandmarks(createFace(0, 0).slice(0, 468))).toBe(false);
+  });
+});
+
+describe("getGazeDirection", () => {
+  it("points out of the face, towards the left and up for positive angles", () => {
+    expect(getGazeDirection({ yaw: 0, pitch: 0 }).toArray()).toEqual([0, 0, 1]);
+
+    const direction = getGazeDirection({ yaw: 30, pitch: 20 });
+    expect(direction.x).toBeGreaterThan(0);
+    expect(direction.y).toBeGreaterThan(0);
+    expect(direction.length()).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,142 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { MathUtils, Vector2, Vector3 } from "three";
+
+import { normalizedToPixel } from "./coords";
+
+export type EyeSide = "left" | "right";
+
+/**
+ * Landmarks of each eye, named after the subject's sides. `first` is the
+ * corner on the left of an unmirrored image, `second` the one on the right.
+ */
+export const EYE_LANDMARKS: { [eye in EyeSide]: { first: number; second: number; iris: number } } = {
+  left: { first: 362, second: 263, iris: 473 },
+  right: { first: 33, second: 133, iris: 468 },
+};
+
+/**
+ * Distance from the center of the eye to the iris, in half eye widths, when
+ * the eye turns by 90 degrees: the radius of the eyeball.
+ */
+export const EYEBALL_RADIUS = 0.85;
+
+/**
+ * Rotation of an eye in the head, in degrees. Positive yaw looks to the
+ * subject's left, positive pitch up, like `VRMLookAt`.
+ */
+export interface EyeGaze {
+  yaw: number;
+  pitch: number;
+}
+
+export interface Gaze {
+  left: EyeGaze;
+  right: EyeGaze;
+  /** Average of both eyes, steadier than either. */
+  combined: EyeGaze;
+}
+
+/**
+ * Whether `landmarks` include the iris landmarks, which only the 478 point
+ * model has.
+ */
+export function hasIrisLandmarks(landmarks: NormalizedLandmark[]): boolean {
+  return landmarks.length > EYE_LANDMARKS.left.iris;
+}
+
+/**
+ * Frame of one eye in the image: its center, the unit axis from `first` to
+ * `second` corner, the axis pointing down across it and half its width.
+ * @param aspect Width over height of the image, so both axes share a unit.
+ */
+function getEyeFrame(landmarks: NormalizedLandmark[], eye: EyeSide, aspect: number) {
+  const point = (index: number) => {
+    const { x, y } = normalizedToPixel(landmarks[index], aspect, 1);
+    return new Vector2(x, y);
+  };
+  const { first, second, iris } = EYE_LANDMARKS[eye];
+
+  const a = point(first);
+  const b = point(second);
+  const center = a.clone().add(b).multiplyScalar(0.5);
+  const across = b.clone().sub(a);
+  const halfWidth = across.length() / 2;
+  across.normalize();
+  // Image y points down, so this turns `across` towards the chin.
+  const down = new Vector2(-across.y, across.x);
+
+  return { center, across, down, halfWidth, iris: point(iris) };
+}
+
+/**
+ * Estimates how one eye is turned in the head from where its iris sits
+ * between the eye corners, treating the eye as a ball of `EYEBALL_RADIUS`.
+ * @param aspect Width over height of the image the landmarks come from.
+ */
+export function getEyeGaze(landmarks: NormalizedLandmark[], eye: EyeSide, aspect = 1): EyeGaze {
+  const { center, across, down, halfWidth, iris } = getEyeFrame(landmarks, eye, aspect);
+  if (halfWidth === 0) return { yaw: 0, pitch: 0 };
+
+  const offset = iris.sub(center).divideScalar(halfWidth * EYEBALL_RADIUS);
+  const angle = (value: number) => MathUtils.radToDeg(Math.asin(MathUtils.clamp(value, -1, 1)));
+  // The subject's left is on the right of an unmirrored image.
+  return { yaw: angle(offset.dot(across)), pitch: -angle(offset.dot(down)) };
+}
+
+/**
+ * Estimates the gaze of both eyes of one face.
+ * @param landmarks Landmarks of the face, with the iris landmarks.
+ * @param aspect Width over height of the image the landmarks come from.
+ */
+export function getIrisGaze(landmarks: NormalizedLandmark[], aspect = 1): Gaze {
+  const left = getEyeGaze(landmarks, "left", aspect);
+  const right = getEyeGaze(landmarks, "right", aspect);
+  return {
+    left,
+    right,
+    combined: { yaw: (left.yaw + right.yaw) / 2, pitch: (left.pitch + right.pitch) / 2 },
+  };
+}
+
+/**
+ * Unit direction of `gaze` in the head: +X towards the subject's left, +Y up
+ * and +Z out of the face.
+ */
+export function getGazeDirection({ yaw, pitch }: EyeGaze): Vector3 {
+  const y = MathUtils.degToRad(yaw);
+  const p = MathUtils.degToRad(pitch);
+  return new Vector3(Math.sin(y) * Math.cos(p), Math.sin(p), Math.cos(y) * Math.cos(p));
+}
+
+/**
+ * Draws a ray out of each iris along its estimated gaze, as it would show
+ * across the face: sideways along the eye, up or down across it.
+ * @param ctx Canvas over the image the landmarks come from.
+ * @param length Length of a ray looking straight sideways, in eye widths.
+ */
+export function drawGazeRays(
+  ctx: CanvasRenderingContext2D,
+  landmarks: NormalizedLandmark[],
+  { color = "#30C0FF", lineWidth = 2, length = 2 } = {}
+) {
+  if (!hasIrisLandmarks(landmarks)) return;
+  const { width, height } = ctx.canvas;
+  const aspect = width / height;
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  for (const eye of ["left", "right"] as const) {
+    const { across, down, halfWidth, iris } = getEyeFrame(landmarks, eye, aspect);
+    const direction = getGazeDirection(getEyeGaze(landmarks, eye, aspect));
+    const end = iris.clone()
+      .addScaledVector(across, direction.x * halfWidth * 2 * length)
+      .addScaledVector(down, -direction.y * halfWidth * 2 * length);
+
+    ctx.beginPath();
+    ctx.moveTo((iris.x / aspect) * width, iris.y * height);
+    ctx.lineTo((end.x / aspect) * width, end.y * height);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
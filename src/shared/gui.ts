@@ -0,0 +1,247 @@
+import { MathUtils, Matrix4 } from "three";
+import { GUI } from "three/examples/jsm/libs/lil-gui.module.min";
+
+import {
+  Calibration,
+  NeutralPoseRecorder,
+  createCalibration,
+  deleteCalibration,
+  getReferenceMatrix,
+  loadCalibration,
+  parseCalibration,
+  saveCalibration,
+  setLastCalibrationUser,
+} from "./calibration";
+import {
+  CameraIntrinsics,
+  FOV_KINDS,
+  FovKind,
+  MEDIAPIPE_VERTICAL_FOV,
+  estimateVerticalFov,
+  fromVerticalFov,
+  getFocalLength,
+  getVerticalFov,
+  saveCameraIntrinsics,
+  toVerticalFov,
+} from "./camera";
+import { downloadBlob, downloadJSON, readJSONFile } from "./download";
+import { FILTER_KINDS, FaceResultFilter, FilterParams } from "./filters";
+import { toBVH, toLiveLinkFaceCSV, toMotionFrames } from "./motion";
+import { LandmarkRecorder, Recording } from "./recording";
+import { pickFile } from "./source";
+
+/**
+ * Adds a closed folder that tunes one stream's filter.
+ */
+export function addFilterFolder(gui: GUI, name: string, params: FilterParams): GUI {
+  const folder = gui.addFolder(`${name} Filter`);
+
+  folder.add(params, "kind", [...FILTER_KINDS]).name("Filter");
+  folder.add(params, "minCutoff", 0.01, 10, 0.01).name("Min Cutoff (1€)");
+  folder.add(params, "beta", 0, 1, 0.001).name("Beta (1€)");
+  folder.add(params, "dCutoff", 0.01, 10, 0.01).name("D Cutoff (1€)");
+  folder.add(params, "alpha", 0.01, 1, 0.01).name("Alpha (EMA)");
+  folder.add(params, "processNoise", 0.0001, 1, 0.0001).name("Process Noise (Kalman)");
+  folder.add(params, "measurementNoise", 0.0001, 1, 0.0001).name("Measurement Noise (Kalman)");
+
+  folder.close();
+  return folder;
+}
+
+/**
+ * Adds a filter folder for each stream of `filter`.
+ */
+export function addFaceFilterFolders(gui: GUI, filter: FaceResultFilter): GUI {
+  const folder = gui.addFolder("Smoothing");
+
+  addFilterFolder(folder, "Landmarks", filter.landmarks.params);
+  addFilterFolder(folder, "Blendshapes", filter.blendshapes.params);
+  addFilterFolder(folder, "Transform", filter.matrixParams);
+
+  return folder;
+}
+
+function describeCalibration(calibration: Calibration): string {
+  return calibration.createdAt ? `Calibrated ${new Date(calibration.createdAt).toLocaleString()}` : "Not calibrated";
+}
+
+/**
+ * Adds a "Calibration" folder that captures the neutral pose of the user
+ * named in it into `holder.calibration`, keeps one calibration per user in
+ * localStorage, and imports or exports them as JSON.
+ */
+export function addCalibrationFolder(
+  gui: GUI,
+  holder: { calibration: Calibration },
+  recorder: NeutralPoseRecorder
+): GUI {
+  const folder = gui.addFolder("Calibration");
+
+  const editor = {
+    user: holder.calibration.user,
+    status: describeCalibration(holder.calibration),
+    calibrate: () => {
+      recorder.start(editor.user);
+      setStatus(`Hold a neutral face for ${recorder.duration / 1000} s…`);
+    },
+    clear: () => {
+      recorder.cancel();
+      deleteCalibration(editor.user);
+      use(createCalibration(editor.user));
+    },
+    save: () => downloadJSON(holder.calibration, `calibration-${editor.user}.json`),
+    load: async () => {
+      try {
+        const calibration = parseCalibration(await readJSONFile(await pickFile("application/json")));
+        editor.user = calibration.user;
+        saveCalibration(calibration);
+        use(calibration);
+      } catch (e) {
+        console.error(`Failed to load calibration: ${e}`);
+      }
+    },
+  };
+
+  const setStatus = (status: string) => {
+    editor.status = status;
+    folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+  };
+
+  const use = (calibration: Calibration) => {
+    holder.calibration = calibration;
+    setLastCalibrationUser(calibration.user);
+    setStatus(describeCalibration(calibration));
+  };
+
+  recorder.onComplete = (calibration) => {
+    saveCalibration(calibration);
+    use(calibration);
+  };
+
+  folder.add(editor, "user").name("User").onFinishChange(() => {
+    recorder.cancel();
+    use(loadCalibration(editor.user));
+  });
+  folder.add(editor, "status").name("Status").disable();
+  folder.add(editor, "calibrate").name("Calibrate Neutral Pose");
+  folder.add(editor, "clear").name("Clear");
+  folder.add(editor, "load").name("Import JSON");
+  folder.add(editor, "save").name("Export JSON");
+
+  return folder;
+}
+
+/**
+ * Adds a "Motion Export" folder that records the face stream fed to
+ * `recorder` and saves it, relative to `holder.calibration`, as a Live Link
+ * Face CSV or a BVH at the chosen frame rate.
+ */
+export function addMotionExportFolder(
+  gui: GUI,
+  recorder: LandmarkRecorder,
+  holder: { calibration: Calibration }
+): GUI {
+  const folder = gui.addFolder("Motion Export");
+  let recording: Recording | null = null;
+
+  const frames = () =>
+    toMotionFrames(recording?.frames ?? [], {
+      reference: getReferenceMatrix(holder.calibration),
+      baseline: holder.calibration.blendshapes,
+    });
+
+  const editor = {
+    status: "Nothing recorded",
+    fps: 60,
+    record: () => {
+      if (recorder.recording) {
+        recording = recorder.stop();
+        recordButton.name("Start Recording");
+        const motion = frames();
+        const duration = motion.length ? motion[motion.length - 1].time : 0;
+        editor.status = `${motion.length} frames, ${duration.toFixed(1)} s`;
+      } else {
+        recorder.start(0, 0);
+        recordButton.name("Stop Recording");
+        editor.status = "Recording…";
+      }
+      folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+    },
+    csv: () => {
+      if (!recording) return;
+      downloadBlob(new Blob([toLiveLinkFaceCSV(frames(), editor.fps)], { type: "text/csv" }), "performance.csv");
+    },
+    bvh: () => {
+      if (!recording) return;
+      downloadBlob(new Blob([toBVH(frames(), editor.fps)], { type: "text/plain" }), "performance.bvh");
+    },
+  };
+
+  folder.add(editor, "status").name("Status").disable();
+  const recordButton = folder.add(editor, "record").name("Start Recording");
+  folder.add(editor, "fps", [24, 25, 30, 50, 60]).name("Frame Rate");
+  folder.add(editor, "csv").name("Export CSV (Live Link Face)");
+  folder.add(editor, "bvh").name("Export BVH");
+
+  return folder;
+}
+
+/**
+ * Adds a "Camera" folder that edits the field of view of `holder.intrinsics`
+ * as an angle of the chosen kind or as a focal length in pixels of `source`,
+ * or estimates it from how far the face of `getFaceMatrix` is. Changes are
+ * kept in localStorage and reported to `onChange`.
+ * @param getFaceMatrix Returns the facial transformation matrix of the face
+ * to estimate from, as MediaPipe returns it, or `null` without a face.
+ */
+export function addCameraFolder(
+  gui: GUI,
+  holder: { intrinsics: CameraIntrinsics },
+  source: { width: number; height: number },
+  getFaceMatrix: () => Matrix4 | null,
+  onChange: () => void
+): GUI {
+  const folder = gui.addFolder("Camera");
+  // The source has no size until it started.
+  const height = () => source.height || 480;
+  const aspect = () => (source.width || 640) / height();
+
+  const editor = {
+    kind: "diagonal" as FovKind,
+    fov: 0,
+    focalLength: 0,
+    distance: 50,
+    estimate: () => {
+      const matrix = getFaceMatrix();
+      if (matrix) use(estimateVerticalFov(matrix, editor.distance));
+    },
+    reset: () => use(MEDIAPIPE_VERTICAL_FOV),
+  };
+
+  const refresh = () => {
+    editor.fov = fromVerticalFov(holder.intrinsics.verticalFov, editor.kind, aspect());
+    editor.focalLength = getFocalLength(holder.intrinsics.verticalFov, height());
+    folder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+  };
+
+  const use = (verticalFov: number) => {
+    holder.intrinsics.verticalFov = MathUtils.clamp(verticalFov, 1, 179);
+    saveCameraIntrinsics(holder.intrinsics);
+    refresh();
+    onChange();
+  };
+
+  folder.add(editor, "kind", [...FOV_KINDS]).name("FOV Type").onChange(refresh);
+  folder.add(editor, "fov", 10, 150, 0.1).name("FOV (°)").onChange(() => {
+    use(toVerticalFov(editor.fov, editor.kind, aspect()));
+  });
+  folder.add(editor, "focalLength", 100, 5000, 1).name("Focal Length (px)").onChange(() => {
+    use(getVerticalFov(editor.focalLength, height()));
+  });
+  folder.add(editor, "distance", 20, 200, 1).name("Face Distance (cm)");
+  folder.add(editor, "estimate").name("Estimate from Distance");
+  folder.add(editor, "reset").name("Reset to MediaPipe");
+
+  refresh();
+  return folder;
+}
@@ -0,0 +1,21 @@
+/**
+ * Whether parsed JSON is an object whose fields can be read, not an array or
+ * null.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether parsed JSON is a number other than NaN or ±Infinity.
+ */
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Whether parsed JSON is one of the `values` of a string union.
+ */
+export function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,134 @@
+import {
+  FaceLandmarker,
+  FaceLandmarkerOptions,
+  FilesetResolver,
+  GestureRecognizer,
+  GestureRecognizerOptions,
+} from "@mediapipe/tasks-vision";
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+export type Delegate = "CPU" | "GPU";
+
+export interface LandmarkerConfig {
+  /** Directory that holds the `vision_wasm_internal.*` files. */
+  wasmBaseUrl: string;
+  /** Directory that holds the `.task` model bundles. */
+  modelBaseUrl: string;
+  /** Forces a delegate. When omitted, see `resolveDelegate()`. */
+  delegate?: Delegate;
+}
+
+/**
+ * File names of the model bundles, relative to `LandmarkerConfig.modelBaseUrl`.
+ * Drop the files from the MediaPipe model zoo into `public/models` to serve
+ * them locally.
+ */
+export const MODEL_FILES = {
+  faceLandmarker: "face_landmarker.task",
+  gestureRecognizer: "gesture_recognizer.task",
+};
+
+const env = import.meta.env;
+
+export const DEFAULT_CONFIG: LandmarkerConfig = {
+  // Served from `node_modules/@mediapipe/tasks-vision/wasm` by the
+  // `mediapipe-wasm` plugin in `vite.config.ts`, so the WASM always matches
+  // the installed JS bundle.
+  wasmBaseUrl: env.VITE_MEDIAPIPE_WASM_URL ?? `${env.BASE_URL}wasm`,
+  modelBaseUrl: env.VITE_MEDIAPIPE_MODEL_URL ?? `${env.BASE_URL}models`,
+  delegate: env.VITE_MEDIAPIPE_DELEGATE,
+};
+
+const filesets = new Map<string, Promise<WasmFileset>>();
+
+/**
+ * Loads the vision WASM fileset once per base URL and shares it between every
+ * task created afterwards.
+ */
+export function loadVisionFileset(wasmBaseUrl = DEFAULT_CONFIG.wasmBaseUrl): Promise<WasmFileset> {
+  let fileset = filesets.get(wasmBaseUrl);
+  if (!fileset) {
+    fileset = FilesetResolver.forVisionTasks(wasmBaseUrl);
+    filesets.set(wasmBaseUrl, fileset);
+  }
+  return fileset;
+}
+
+/**
+ * Joins a model file name onto a base URL. Absolute model URLs are returned
+ * untouched.
+ */
+export function resolveModelUrl(file: string, modelBaseUrl = DEFAULT_CONFIG.modelBaseUrl): string {
+  if (/^[a-z]+:\/\//i.test(file)) return file;
+  return `${modelBaseUrl.replace(/\/+$/, "")}/${file}`;
+}
+
+/**
+ * Picks the delegate used by every task. An explicit `?delegate=cpu|gpu` query
+ * parameter wins over the configured value; otherwise the GPU is used whenever
+ * WebGL2 is available.
+ */
+export function resolveDelegate(configured?: Delegate): Delegate {
+  const param = new URLSearchParams(window.location.search).get("delegate")?.toUpperCase();
+  if (param === "CPU" || param === "GPU") return param;
+  if (configured) return configured;
+
+  const canvas = document.createElement("canvas");
+  return canvas.getContext("webgl2") ? "GPU" : "CPU";
+}
+
+/**
+ * Picks how many faces the face landmarker looks for. An explicit
+ * `?faces=<n>` query parameter wins over `configured`.
+ */
+export function resolveNumFaces(configured = 2): number {
+  const param = Number(new URLSearchParams(window.location.search).get("faces"));
+  return Number.isInteger(param) && param > 0 ? param : configured;
+}
+
+function withDefaults(config: Partial<LandmarkerConfig>): LandmarkerConfig {
+  return { ...DEFAULT_CONFIG, ...config };
+}
+
+/**
+ * Creates a `FaceLandmarker` from the local WASM fileset and model bundle.
+ * `options` are passed through; `baseOptions` are filled in from `config`.
+ */
+export async function createFaceLandmarker(
+  options: FaceLandmarkerOptions = {},
+  config: Partial<LandmarkerConfig> = {}
+): Promise<FaceLandmarker> {
+  const { wasmBaseUrl, modelBaseUrl, delegate } = withDefaults(config);
+  const fileset = await loadVisionFileset(wasmBaseUrl);
+
+  return FaceLandmarker.createFromOptions(fileset, {
+    ...options,
+    baseOptions: {
+      modelAssetPath: resolveModelUrl(MODEL_FILES.faceLandmarker, modelBaseUrl),
+      delegate: resolveDelegate(delegate),
+      ...options.baseOptions,
+    },
+  });
+}
+
+/**
+ * Creates a `GestureRecognizer` from the local WASM fileset and model bundle.
+ * `options` are passed through; `baseOptions` are filled in from `config`.
+ */
+export async function createGestureRecognizer(
+  options: GestureRecognizerOptions = {},
+  config: Partial<LandmarkerConfig> = {}
+): Promise<GestureRecognizer> {
+  const { wasmBaseUrl, modelBaseUrl, delegate } = withDefaults(config);
+  const fileset = await loadVisionFileset(wasmBaseUrl);
+
+  return GestureRecognizer.createFromOptions(fileset, {
+    ...options,
+    baseOptions: {
+      modelAssetPath: resolveModelUrl(MODEL_FILES.gestureRecognizer, modelBaseUrl),
+      delegate: resolveDelegate(delegate),
+      ...options.baseOptions,
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import { Euler, Matrix4, Quaternion, Vector3 } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  LIVE_LINK_FACE_BLENDSHAPES,
+  MotionFrame,
+  resampleMotion,
+  toBVH,
+  toLiveLinkFaceCSV,
+  toMotionFrames,
+} from "./motion";
+
+function createFrame(time: number, jawOpen: number, yaw: number): MotionFrame {
+  return {
+    time,
+    blendshapes: { jawOpen },
+    position: new Vector3(0, 0, -50 + time),
+    rotation: new Quaternion().setFromEuler(new Euler(0, yaw, 0)),
+  };
+}
+
+describe("toMotionFrames", () => {
+  it("keeps the frames with blendshapes and a matrix, timed from the first one", () => {
+    const frames = toMotionFrames(faceRecording.frames);
+    const recorded = faceRecording.frames.filter(
+      (frame) => frame.faceBlendshapes?.length && frame.facialTransformationMatrixes?.length
+    );
+
+    expect(frames).toHaveLength(recorded.length);
+    expect(frames[0].time).toBe(0);
+    expect(frames[0].blendshapes).not.toHaveProperty("_neutral");
+  });
+
+  it("takes rotations relative to the reference", () => {
+    const first = faceRecording.frames.find(
+      (frame) => frame.faceBlendshapes?.length && frame.facialTransformationMatrixes?.length
+    )!;
+    const reference = new Matrix4().fromArray(first.facialTransformationMatrixes![0].data);
+    const frames = toMotionFrames(faceRecording.frames, { reference });
+
+    expect(frames[0].rotation.angleTo(new Quaternion())).toBeCloseTo(0);
+  });
+});
+
+describe("resampleMotion", () => {
+  it("interpolates between recorded frames at the given rate", () => {
+    const frames = resampleMotion([createFrame(0, 0, 0), createFrame(0.1, 1, 0.2)], 20);
+
+    expect(frames.map((frame) => frame.time)).toEqual([0, 0.05, 0.1]);
+    expect(frames[1].blendshapes.jawOpen).toBeCloseTo(0.5);
+    expect(frames[1].position.z).toBeCloseTo(-49.95);
+    expect(new Euler().setFromQuaternion(frames[1].rotation).y).toBeCloseTo(0.1);
+  });
+});
+
+describe("toLiveLinkFaceCSV", () => {
+  it("writes one row per resampled frame with the Live Link Face columns", () => {
+    const lines = toLiveLinkFaceCSV([createFrame(0, 0, 0), createFrame(1, 0.5, 0.3)], 30).trim().split("\n");
+    const header = lines[0].split(",");
+    const last = lines[lines.length - 1].split(",");
+
+    expect(header).toHaveLength(2 + LIVE_LINK_FACE_BLENDSHAPES.length + 9);
+    expect(header.slice(0, 3)).toEqual(["Timecode", "BlendShapeCount", "EyeBlinkLeft"]);
+    expect(lines).toHaveLength(1 + 31);
+    expect(last[0]).toBe("00:00:01:00.000");
+    expect(+last[1]).toBe(61);
+    expect(+last[header.indexOf("JawOpen")]).toBeCloseTo(0.5);
+    expect(+last[header.indexOf("HeadYaw")]).toBeCloseTo(0.3);
+  });
+});
+
+describe("toBVH", () => {
+  it("splits the head rotation between the neck and the head", () => {
+    const bvh = toBVH([createFrame(0, 0, 0), createFrame(1, 0, Math.PI / 4)], 10);
+    const [, motion] = bvh.split("MOTION\n");
+    const lines = motion.trim().split("\n");
+
+    expect(lines[0]).toBe("Frames: 11");
+    expect(lines[1]).toBe("Frame Time: 0.100000");
+    const last = lines[lines.length - 1].split(" ").map(Number);
+    expect(last).toHaveLength(9);
+    expect(last[2]).toBeCloseTo(-49);
+    expect(last[5] + last[8]).toBeCloseTo(45);
+  });
+});
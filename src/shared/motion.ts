@@ -0,0 +1,221 @@
+import { Euler, MathUtils, Matrix4, Quaternion, Vector3 } from "three";
+
+import { removeBaseline } from "./calibration";
+import { RecordedFrame } from "./recording";
+
+/**
+ * Head pose and blendshape scores of the first face at one point in time.
+ */
+export interface MotionFrame {
+  /** Seconds since the first frame. */
+  time: number;
+  blendshapes: { [categoryName: string]: number };
+  /** Translation of the facial transformation matrix, in cm. */
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+export interface MotionOptions {
+  /** Rest head transform; rotations are taken relative to it. */
+  reference?: Matrix4 | null;
+  /** Resting score per blendshape, see `removeBaseline`. */
+  baseline?: { [categoryName: string]: number };
+}
+
+/** Blendshape columns of a Live Link Face CSV, in order. */
+export const LIVE_LINK_FACE_BLENDSHAPES = [
+  "eyeBlinkLeft", "eyeLookDownLeft", "eyeLookInLeft", "eyeLookOutLeft", "eyeLookUpLeft", "eyeSquintLeft", "eyeWideLeft",
+  "eyeBlinkRight", "eyeLookDownRight", "eyeLookInRight", "eyeLookOutRight", "eyeLookUpRight", "eyeSquintRight", "eyeWideRight",
+  "jawForward", "jawRight", "jawLeft", "jawOpen",
+  "mouthClose", "mouthFunnel", "mouthPucker", "mouthRight", "mouthLeft", "mouthSmileLeft", "mouthSmileRight",
+  "mouthFrownLeft", "mouthFrownRight", "mouthDimpleLeft", "mouthDimpleRight", "mouthStretchLeft", "mouthStretchRight",
+  "mouthRollLower", "mouthRollUpper", "mouthShrugLower", "mouthShrugUpper", "mouthPressLeft", "mouthPressRight",
+  "mouthLowerDownLeft", "mouthLowerDownRight", "mouthUpperUpLeft", "mouthUpperUpRight",
+  "browDownLeft", "browDownRight", "browInnerUp", "browOuterUpLeft", "browOuterUpRight",
+  "cheekPuff", "cheekSquintLeft", "cheekSquintRight", "noseSneerLeft", "noseSneerRight", "tongueOut",
+];
+
+/** Rotation columns that follow the blendshapes in a Live Link Face CSV. */
+const LIVE_LINK_FACE_ROTATIONS = [
+  "HeadYaw", "HeadPitch", "HeadRoll",
+  "LeftEyeYaw", "LeftEyePitch", "LeftEyeRoll",
+  "RightEyeYaw", "RightEyePitch", "RightEyeRoll",
+];
+
+/** Largest eye rotation, in degrees, written when a look blendshape is at 1. */
+const EYE_RANGE = { yaw: 30, pitch: 25 };
+
+/** Share of the head rotation given to the neck joint of the BVH. */
+const BVH_NECK_WEIGHT = 0.4;
+/** Distance from the neck joint to the head joint, and from the head to its end, in cm. */
+const BVH_NECK_LENGTH = 10;
+
+/**
+ * Turns recorded frames into motion frames. Frames without both blendshapes
+ * and a transformation matrix are skipped.
+ */
+export function toMotionFrames(frames: RecordedFrame[], options: MotionOptions = {}): MotionFrame[] {
+  const restRotation = new Quaternion();
+  options.reference?.decompose(new Vector3(), restRotation, new Vector3());
+  restRotation.invert();
+
+  const motion: MotionFrame[] = [];
+  let startTime: number | null = null;
+  for (const frame of frames) {
+    const categories = frame.faceBlendshapes?.[0]?.categories;
+    const data = frame.facialTransformationMatrixes?.[0]?.data;
+    if (!categories || !data) continue;
+    startTime ??= frame.timestamp;
+
+    const blendshapes: MotionFrame["blendshapes"] = {};
+    for (const { categoryName, score } of categories) {
+      if (categoryName.startsWith("_")) continue;
+      blendshapes[categoryName] = removeBaseline(score, options.baseline?.[categoryName]);
+    }
+
+    const position = new Vector3();
+    const rotation = new Quaternion();
+    new Matrix4().fromArray(data).decompose(position, rotation, new Vector3());
+    rotation.multiply(restRotation);
+
+    motion.push({ time: (frame.timestamp - startTime) / 1000, blendshapes, position, rotation });
+  }
+  return motion;
+}
+
+/**
+ * Samples `frames` every `1 / fps` seconds from the first frame to the last,
+ * interpolating linearly between the recorded frames.
+ */
+export function resampleMotion(frames: MotionFrame[], fps: number): MotionFrame[] {
+  if (frames.length === 0) return [];
+
+  const duration = frames[frames.length - 1].time;
+  const count = Math.floor(duration * fps + 1e-6) + 1;
+  const resampled: MotionFrame[] = [];
+  let next = 0;
+  for (let i = 0; i < count; i++) {
+    const time = i / fps;
+    while (next < frames.length - 1 && frames[next].time < time) next++;
+
+    const after = frames[next];
+    const before = frames[Math.max(0, next - 1)];
+    const span = after.time - before.time;
+    const t = span > 0 ? MathUtils.clamp((time - before.time) / span, 0, 1) : 1;
+
+    const blendshapes: MotionFrame["blendshapes"] = {};
+    for (const name of new Set([...Object.keys(before.blendshapes), ...Object.keys(after.blendshapes)])) {
+      blendshapes[name] = MathUtils.lerp(before.blendshapes[name] ?? 0, after.blendshapes[name] ?? 0, t);
+    }
+    resampled.push({
+      time,
+      blendshapes,
+      position: before.position.clone().lerp(after.position, t),
+      rotation: before.rotation.clone().slerp(after.rotation, t),
+    });
+  }
+  return resampled;
+}
+
+/**
+ * Formats the time of frame `index` as an `HH:MM:SS:FF.mmm` timecode.
+ */
+function toTimecode(index: number, fps: number): string {
+  const seconds = Math.floor(index / fps);
+  const frame = index - seconds * fps;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return [
+    pad(Math.floor(seconds / 3600)),
+    pad(Math.floor(seconds / 60) % 60),
+    pad(seconds % 60),
+    `${pad(Math.floor(frame))}.${String(Math.round((frame % 1) * 1000)).padStart(3, "0")}`,
+  ].join(":");
+}
+
+/**
+ * Head yaw, pitch and roll in radians. Positive yaw turns to the subject's
+ * left, positive pitch looks down and positive roll tilts to the right, as in
+ * Live Link Face.
+ */
+function getHeadAngles(rotation: Quaternion): [number, number, number] {
+  const euler = new Euler().setFromQuaternion(rotation, "YXZ");
+  return [euler.y, -euler.x, -euler.z];
+}
+
+/**
+ * Yaw and pitch of one eye in radians from its look blendshapes, with the same
+ * signs as the head angles.
+ */
+function getEyeAngles(blendshapes: MotionFrame["blendshapes"], side: "Left" | "Right"): [number, number, number] {
+  const score = (name: string) => blendshapes[`${name}${side}`] ?? 0;
+  // Looking out turns the left eye to the subject's left and the right eye to their right.
+  const outward = side === "Left" ? 1 : -1;
+  const yaw = (score("eyeLookOut") - score("eyeLookIn")) * outward * EYE_RANGE.yaw;
+  const pitch = (score("eyeLookDown") - score("eyeLookUp")) * EYE_RANGE.pitch;
+  return [MathUtils.degToRad(yaw), MathUtils.degToRad(pitch), 0];
+}
+
+/**
+ * Writes `frames`, resampled to `fps`, as a CSV with the columns of a Live
+ * Link Face take. Blendshapes that were not detected are written as 0.
+ */
+export function toLiveLinkFaceCSV(frames: MotionFrame[], fps = 60): string {
+  const columns = LIVE_LINK_FACE_BLENDSHAPES.map((name) => name[0].toUpperCase() + name.slice(1));
+  const lines = [
+    ["Timecode", "BlendShapeCount", ...columns, ...LIVE_LINK_FACE_ROTATIONS].join(","),
+  ];
+  const count = LIVE_LINK_FACE_BLENDSHAPES.length + LIVE_LINK_FACE_ROTATIONS.length;
+
+  resampleMotion(frames, fps).forEach((frame, i) => {
+    const values = [
+      ...LIVE_LINK_FACE_BLENDSHAPES.map((name) => frame.blendshapes[name] ?? 0),
+      ...getHeadAngles(frame.rotation),
+      ...getEyeAngles(frame.blendshapes, "Left"),
+      ...getEyeAngles(frame.blendshapes, "Right"),
+    ];
+    lines.push([toTimecode(i, fps), count, ...values.map((value) => +value.toFixed(6))].join(","));
+  });
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Writes the head motion of `frames`, resampled to `fps`, as a BVH with a neck
+ * root joint and a head joint. The root carries the translation of the face
+ * and part of its rotation; the head carries the rest. Units are cm, Y is up.
+ */
+export function toBVH(frames: MotionFrame[], fps = 30): string {
+  const resampled = resampleMotion(frames, fps);
+  const lines = [
+    "HIERARCHY",
+    "ROOT Neck",
+    "{",
+    "\tOFFSET 0.00 0.00 0.00",
+    "\tCHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation",
+    "\tJOINT Head",
+    "\t{",
+    `\t\tOFFSET 0.00 ${BVH_NECK_LENGTH.toFixed(2)} 0.00`,
+    "\t\tCHANNELS 3 Zrotation Xrotation Yrotation",
+    "\t\tEnd Site",
+    "\t\t{",
+    `\t\t\tOFFSET 0.00 ${BVH_NECK_LENGTH.toFixed(2)} 0.00`,
+    "\t\t}",
+    "\t}",
+    "}",
+    "MOTION",
+    `Frames: ${resampled.length}`,
+    `Frame Time: ${(1 / fps).toFixed(6)}`,
+  ];
+
+  // BVH channels in Z, X, Y order compose as Rz * Rx * Ry.
+  const toDegrees = (rotation: Quaternion) => {
+    const euler = new Euler().setFromQuaternion(rotation, "ZXY");
+    return [euler.z, euler.x, euler.y].map(MathUtils.radToDeg);
+  };
+  for (const frame of resampled) {
+    const neck = new Quaternion().slerp(frame.rotation, BVH_NECK_WEIGHT);
+    const head = neck.clone().invert().multiply(frame.rotation);
+    const values = [...frame.position.toArray(), ...toDegrees(neck), ...toDegrees(head)];
+    lines.push(values.map((value) => value.toFixed(4)).join(" "));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,44 @@
+/**
+ * Full page overlay with a label and a progress bar, shown while assets load.
+ */
+export class LoadingOverlay {
+  readonly element: HTMLDivElement;
+  private label: HTMLDivElement;
+  private bar: HTMLProgressElement;
+
+  constructor(parent: HTMLElement = document.body) {
+    this.element = document.createElement("div");
+    this.element.className = "loading-overlay";
+    this.element.style.cssText =
+      "position: fixed; inset: 0; z-index: 20; display: none; flex-direction: column; gap: 0.5rem;" +
+      "align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.6); color: white; font: 1rem sans-serif;";
+
+    this.label = document.createElement("div");
+    this.bar = document.createElement("progress");
+    this.bar.max = 1;
+    this.element.append(this.label, this.bar);
+    parent.appendChild(this.element);
+  }
+
+  show(label: string) {
+    this.label.textContent = label;
+    this.progress(null);
+    this.element.style.display = "flex";
+  }
+
+  /**
+   * Updates the bar; `null` shows an indeterminate bar when the total size is
+   * unknown.
+   */
+  progress(fraction: number | null) {
+    if (fraction === null) {
+      this.bar.removeAttribute("value");
+    } else {
+      this.bar.value = Math.min(1, Math.max(0, fraction));
+    }
+  }
+
+  hide() {
+    this.element.style.display = "none";
+  }
+}
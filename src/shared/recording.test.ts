@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { faceRecording, handsRecording } from "../__fixtures__";
+import {
+  LandmarkRecorder,
+  RECORDING_VERSION,
+  decodeRecording,
+  encodeRecording,
+  toFaceLandmarkerResult,
+  toGestureRecognizerResult,
+} from "./recording";
+
+describe("encodeRecording / decodeRecording", () => {
+  it.each(["json", "binary"] as const)("round-trips the face fixture as %s", (format) => {
+    const decoded = decodeRecording(encodeRecording(faceRecording, format));
+
+    expect(decoded.frames).toHaveLength(faceRecording.frames.length);
+    expect(decoded.frames[1].faceBlendshapes).toEqual(faceRecording.frames[1].faceBlendshapes);
+    expect(decoded.frames[1].facialTransformationMatrixes?.[0].data).toEqual(
+      faceRecording.frames[1].facialTransformationMatrixes?.[0].data.map((value) => expect.closeTo(value, 5))
+    );
+    expect(decoded.frames[2].faceLandmarks?.[0][0].x).toBeCloseTo(faceRecording.frames[2].faceLandmarks![0][0].x, 5);
+  });
+
+  it("round-trips hand landmarks and gestures as binary", () => {
+    const decoded = decodeRecording(encodeRecording(handsRecording, "binary"));
+
+    expect(decoded.frames[0].landmarks).toHaveLength(2);
+    expect(decoded.frames[0].landmarks?.[1]).toHaveLength(21);
+    expect(decoded.frames[1].gestures).toEqual(handsRecording.frames[1].gestures);
+  });
+
+  it("rejects recordings from a newer version", () => {
+    const future = { ...faceRecording, version: RECORDING_VERSION + 1 };
+    expect(() => decodeRecording(encodeRecording(future))).toThrow(/Unsupported recording version/);
+  });
+
+  it.each(["json", "binary"] as const)("rejects frames with malformed results as %s", (format) => {
+    const broken = structuredClone(faceRecording);
+    (broken.frames[1].faceLandmarks![0][3] as unknown) = { x: "left" };
+
+    expect(() => decodeRecording(encodeRecording(broken, format))).toThrow(/frame 1 has invalid faceLandmarks/);
+  });
+
+  it("rejects files that are not recordings", () => {
+    const encode = (json: unknown) => new TextEncoder().encode(JSON.stringify(json)).buffer as ArrayBuffer;
+
+    expect(() => decodeRecording(encode([]))).toThrow(/not an object/);
+    expect(() => decodeRecording(encode({ version: 1, width: 640, height: 480 }))).toThrow(/no frame list/);
+    expect(() => decodeRecording(encode({ version: 1, width: 640, height: 480, frames: [{}] }))).toThrow(/no timestamp/);
+  });
+});
+
+describe("LandmarkRecorder", () => {
+  it("only keeps results recorded between start and stop", () => {
+    const recorder = new LandmarkRecorder();
+    const result = toFaceLandmarkerResult(faceRecording.frames[0]);
+
+    recorder.record(0, result);
+    recorder.start(640, 480);
+    recorder.record(10, result);
+    const recording = recorder.stop();
+    recorder.record(20, result);
+
+    expect(recording.version).toBe(RECORDING_VERSION);
+    expect(recording.frames.map((frame) => frame.timestamp)).toEqual([10]);
+  });
+});
+
+describe("toGestureRecognizerResult", () => {
+  it("fills the deprecated handednesses field", () => {
+    const result = toGestureRecognizerResult(handsRecording.frames[1]);
+    expect(result.handednesses).toBe(result.handedness);
+    expect(result.worldLandmarks).toEqual([]);
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  Category,
+  Classifications,
+  FaceLandmarker,
+  FaceLandmarkerResult,
+  GestureRecognizer,
+  GestureRecognizerResult,
+  ImageSource,
+  Landmark,
+  Matrix,
+  NormalizedLandmark,
+} from "@mediapipe/tasks-vision";
+
+import { downloadBlob } from "./download";
+import { isFiniteNumber, isRecord } from "./json";
+import { CanvasElementSource, FrameSource } from "./source";
+
+/**
+ * Bumped whenever the layout of `Recording` changes. Older files keep loading;
+ * newer ones are rejected.
+ */
+export const RECORDING_VERSION = 1;
+
+const BINARY_MAGIC = "LMRC";
+const BINARY_HEADER_SIZE = 12;
+const LANDMARK_STRIDE = 4;
+
+export interface RecordedFrame {
+  /** Timestamp passed to `detectForVideo`/`recognizeForVideo`, in ms. */
+  timestamp: number;
+
+  faceLandmarks?: NormalizedLandmark[][];
+  faceBlendshapes?: Classifications[];
+  facialTransformationMatrixes?: Matrix[];
+
+  landmarks?: NormalizedLandmark[][];
+  worldLandmarks?: Landmark[][];
+  gestures?: Category[][];
+  handedness?: Category[][];
+}
+
+export interface Recording {
+  version: number;
+  /** Size of the frames the results were detected on. */
+  width: number;
+  height: number;
+  frames: RecordedFrame[];
+}
+
+export type RecordingFormat = "json" | "binary";
+
+/** Anything that can stand in for `FaceLandmarker` in the demos. */
+export type FaceDetector = Pick<FaceLandmarker, "detectForVideo">;
+/** Anything that can stand in for `GestureRecognizer` in the demos. */
+export type GestureDetector = Pick<GestureRecognizer, "recognizeForVideo">;
+
+type LandmarkField = "faceLandmarks" | "landmarks" | "worldLandmarks";
+const LANDMARK_FIELDS: LandmarkField[] = ["faceLandmarks", "landmarks", "worldLandmarks"];
+
+interface PackedRange { offset: number; count: number }
+type PackedMatrix = Omit<Matrix, "data"> & PackedRange;
+type PackedFrame = Omit<RecordedFrame, LandmarkField | "facialTransformationMatrixes"> & {
+  [field in LandmarkField]?: PackedRange[];
+} & {
+  facialTransformationMatrixes?: PackedMatrix[];
+};
+
+/**
+ * Copies the fields of a detection result that are kept in a recording.
+ */
+export function toRecordedFrame(
+  timestamp: number,
+  result: Partial<FaceLandmarkerResult & GestureRecognizerResult>
+): RecordedFrame {
+  const frame: RecordedFrame = { timestamp };
+  if (result.faceLandmarks) frame.faceLandmarks = structuredClone(result.faceLandmarks);
+  if (result.faceBlendshapes) frame.faceBlendshapes = structuredClone(result.faceBlendshapes);
+  if (result.facialTransformationMatrixes) frame.facialTransformationMatrixes = structuredClone(result.facialTransformationMatrixes);
+  if (result.landmarks) frame.landmarks = structuredClone(result.landmarks);
+  if (result.worldLandmarks) frame.worldLandmarks = structuredClone(result.worldLandmarks);
+  if (result.gestures) frame.gestures = structuredClone(result.gestures);
+  if (result.handedness) frame.handedness = structuredClone(result.handedness);
+  return frame;
+}
+
+export function toFaceLandmarkerResult(frame: RecordedFrame): FaceLandmarkerResult {
+  return {
+    faceLandmarks: frame.faceLandmarks ?? [],
+    faceBlendshapes: frame.faceBlendshapes ?? [],
+    facialTransformationMatrixes: frame.facialTransformationMatrixes ?? [],
+  };
+}
+
+export function toGestureRecognizerResult(frame: RecordedFrame): GestureRecognizerResult {
+  return {
+    landmarks: frame.landmarks ?? [],
+    worldLandmarks: frame.worldLandmarks ?? [],
+    handedness: frame.handedness ?? [],
+    handednesses: frame.handedness ?? [],
+    gestures: frame.gestures ?? [],
+  };
+}
+
+/**
+ * Serializes `recording`. The binary format stores landmark coordinates and
+ * matrices as a `Float32Array` after a JSON header:
+ *
+ *   "LMRC" | version: u32 | header length: u32 | header JSON (padded to 4) | f32 data
+ */
+export function encodeRecording(recording: Recording, format: RecordingFormat = "json"): ArrayBuffer {
+  if (format === "json") {
+    return new TextEncoder().encode(JSON.stringify(recording)).buffer as ArrayBuffer;
+  }
+
+  const floats: number[] = [];
+  const pack = (values: number[]): PackedRange => {
+    const offset = floats.length;
+    floats.push(...values);
+    return { offset, count: values.length };
+  };
+
+  const frames: PackedFrame[] = recording.frames.map((frame) => {
+    const packed = { ...frame } as PackedFrame;
+    for (const field of LANDMARK_FIELDS) {
+      const landmarks = frame[field];
+      if (!landmarks) continue;
+      packed[field] = landmarks.map((points) =>
+        pack(points.flatMap(({ x, y, z, visibility }) => [x, y, z, visibility ?? 0]))
+      );
+    }
+    if (frame.facialTransformationMatrixes) {
+      packed.facialTransformationMatrixes = frame.facialTransformationMatrixes.map(({ rows, columns, data }) => ({
+        rows,
+        columns,
+        ...pack(data),
+      }));
+    }
+    return packed;
+  });
+
+  const header = new TextEncoder().encode(JSON.stringify({ ...recording, frames }));
+  const headerLength = Math.ceil(header.length / 4) * 4;
+  const buffer = new ArrayBuffer(BINARY_HEADER_SIZE + headerLength + floats.length * 4);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < BINARY_MAGIC.length; i++) {
+    view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+  }
+  view.setUint32(4, recording.version, true);
+  view.setUint32(8, headerLength, true);
+  new Uint8Array(buffer, BINARY_HEADER_SIZE, header.length).set(header);
+  // Pad with spaces so the header stays valid JSON.
+  new Uint8Array(buffer, BINARY_HEADER_SIZE + header.length, headerLength - header.length).fill(0x20);
+  new Float32Array(buffer, BINARY_HEADER_SIZE + headerLength).set(floats);
+
+  return buffer;
+}
+
+function isPackedRange(value: unknown): value is PackedRange {
+  return isRecord(value) && Number.isInteger(value.offset) && Number.isInteger(value.count);
+}
+
+function isLandmark(value: unknown): value is Landmark {
+  return isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z)
+    && (value.visibility === undefined || typeof value.visibility === "number");
+}
+
+function isCategory(value: unknown): value is Category {
+  return isRecord(value) && typeof value.categoryName === "string" && isFiniteNumber(value.score);
+}
+
+function isMatrix(value: unknown): value is Matrix {
+  return isRecord(value) && Number.isInteger(value.rows) && Number.isInteger(value.columns)
+    && Array.isArray(value.data) && value.data.length === Number(value.rows) * Number(value.columns)
+    && value.data.every(isFiniteNumber);
+}
+
+const isListOf = <T>(guard: (value: unknown) => value is T) =>
+  (value: unknown): value is T[] => Array.isArray(value) && value.every(guard);
+
+/** Guard of every optional field of `RecordedFrame`. */
+const FRAME_FIELDS: { [field in Exclude<keyof RecordedFrame, "timestamp">]-?: (value: unknown) => boolean } = {
+  faceLandmarks: isListOf(isListOf(isLandmark)),
+  faceBlendshapes: isListOf((value: unknown): value is Classifications => isRecord(value) && isListOf(isCategory)(value.categories)),
+  facialTransformationMatrixes: isListOf(isMatrix),
+  landmarks: isListOf(isListOf(isLandmark)),
+  worldLandmarks: isListOf(isListOf(isLandmark)),
+  gestures: isListOf(isListOf(isCategory)),
+  handedness: isListOf(isListOf(isCategory)),
+};
+
+/**
+ * Checks parsed JSON against the layout of `Recording`, so a broken file
+ * fails here rather than in the render loop. Newer versions are rejected.
+ */
+export function parseRecording(json: unknown): Recording {
+  if (!isRecord(json)) throw new Error("Recording is not an object.");
+  const { version, width, height, frames } = json;
+  if (typeof version !== "number" || version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${version}, expected at most ${RECORDING_VERSION}.`);
+  }
+  if (!isFiniteNumber(width) || !isFiniteNumber(height) || width <= 0 || height <= 0) {
+    throw new Error(`Invalid recording size ${width} x ${height}.`);
+  }
+  if (!Array.isArray(frames)) throw new Error("Recording has no frame list.");
+
+  frames.forEach((frame: unknown, i) => {
+    if (!isRecord(frame) || !isFiniteNumber(frame.timestamp)) throw new Error(`Recording frame ${i} has no timestamp.`);
+    for (const [field, guard] of Object.entries(FRAME_FIELDS)) {
+      if (frame[field] !== undefined && !guard(frame[field])) throw new Error(`Recording frame ${i} has invalid ${field}.`);
+    }
+  });
+  return { version, width, height, frames: frames as RecordedFrame[] };
+}
+
+/**
+ * Parses a recording written by `encodeRecording` in either format, see
+ * `parseRecording`.
+ */
+export function decodeRecording(buffer: ArrayBuffer): Recording {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode(...bytes.subarray(0, BINARY_MAGIC.length));
+  if (magic !== BINARY_MAGIC) return parseRecording(JSON.parse(new TextDecoder().decode(bytes)));
+
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(8, true);
+  const header: unknown = JSON.parse(new TextDecoder().decode(bytes.subarray(BINARY_HEADER_SIZE, BINARY_HEADER_SIZE + headerLength)));
+  if (!isRecord(header) || !Array.isArray(header.frames)) return parseRecording(header);
+
+  const floats = new Float32Array(buffer.slice(BINARY_HEADER_SIZE + headerLength));
+  const unpack = ({ offset, count }: PackedRange) => Array.from(floats.subarray(offset, offset + count));
+
+  // Malformed ranges are left in place for `parseRecording` to reject.
+  const frames = header.frames.map((packed: unknown) => {
+    if (!isRecord(packed)) return packed;
+    const frame = { ...packed };
+    for (const field of LANDMARK_FIELDS) {
+      const ranges = packed[field];
+      if (!Array.isArray(ranges)) continue;
+      frame[field] = ranges.map((range) => {
+        if (!isPackedRange(range)) return range;
+        const values = unpack(range);
+        const points: Landmark[] = [];
+        for (let i = 0; i < values.length; i += LANDMARK_STRIDE) {
+          points.push({ x: values[i], y: values[i + 1], z: values[i + 2], visibility: values[i + 3] });
+        }
+        return points;
+      });
+    }
+    if (Array.isArray(packed.facialTransformationMatrixes)) {
+      frame.facialTransformationMatrixes = packed.facialTransformationMatrixes.map((matrix) => {
+        if (!isPackedRange(matrix)) return matrix;
+        const { rows, columns } = matrix as PackedMatrix;
+        return { rows, columns, data: unpack(matrix) };
+      });
+    }
+    return frame;
+  });
+  return parseRecording({ ...header, frames });
+}
+
+/**
+ * Collects detection results while `recording` is set. Call `record()` right
+ * after every `detectForVideo`/`recognizeForVideo`.
+ */
+export class LandmarkRecorder {
+  recording = false;
+  frames: RecordedFrame[] = [];
+  width = 0;
+  height = 0;
+
+  start(width: number, height: number) {
+    this.frames = [];
+    this.width = width;
+    this.height = height;
+    this.recording = true;
+  }
+
+  stop(): Recording {
+    this.recording = false;
+    return {
+      version: RECORDING_VERSION,
+      width: this.width,
+      height: this.height,
+      frames: this.frames,
+    };
+  }
+
+  record(timestamp: number, result: Partial<FaceLandmarkerResult & GestureRecognizerResult>) {
+    if (!this.recording) return;
+    this.frames.push(toRecordedFrame(timestamp, result));
+  }
+}
+
+/**
+ * Saves `recording` through a temporary download link.
+ */
+export function downloadRecording(recording: Recording, format: RecordingFormat = "json", filename = "landmarks") {
+  const blob = new Blob([encodeRecording(recording, format)], {
+    type: format === "json" ? "application/json" : "application/octet-stream",
+  });
+  downloadBlob(blob, `${filename}.${format === "json" ? "json" : "lmrc"}`);
+}
+
+/**
+ * Adds a floating record/stop button for `recorder`. Stopping downloads the
+ * recording in the format given by `?recordFormat=json|binary`.
+ */
+export function attachRecorderControls(recorder: LandmarkRecorder, source: FrameSource): HTMLButtonElement {
+  const params = new URLSearchParams(window.location.search);
+  const format: RecordingFormat = params.get("recordFormat") === "binary" ? "binary" : "json";
+
+  const button = document.createElement("button");
+  button.className = "record-button";
+  button.style.cssText = "position: fixed; bottom: 1rem; left: 1rem; z-index: 10;";
+  button.textContent = "Record";
+  document.body.appendChild(button);
+
+  button.addEventListener("click", () => {
+    if (recorder.recording) {
+      downloadRecording(recorder.stop(), format);
+      button.textContent = "Record";
+    } else {
+      recorder.start(source.width, source.height);
+      button.textContent = `Stop (${format})`;
+    }
+  });
+
+  return button;
+}
+
+/**
+ * Plays a recording back as both the frame source and the detector, so the
+ * demos run unchanged without a camera or a model. Frames are handed out in
+ * order with their recorded spacing, one per `onFrame` tick; the canvas shows
+ * the recorded landmarks.
+ */
+export class RecordingPlayer extends CanvasElementSource implements FaceDetector, GestureDetector {
+  recording: Recording | null = null;
+  url: string | null = null;
+
+  private frame = 0;
+  private startTime = 0;
+  private loopOffset = 0;
+  private current: RecordedFrame = { timestamp: 0 };
+
+  constructor(recording: Recording | string) {
+    super();
+    if (typeof recording === "string") {
+      this.url = recording;
+    } else {
+      this.recording = recording;
+    }
+  }
+
+  /**
+   * Creates a player for `?playback=<url>`, or returns `null` when the page
+   * was not asked to play anything back.
+   */
+  static fromQuery(): RecordingPlayer | null {
+    const url = new URLSearchParams(window.location.search).get("playback");
+    return url ? new RecordingPlayer(url) : null;
+  }
+
+  async start() {
+    if (this.url) {
+      const response = await fetch(this.url);
+      if (!response.ok) throw new Error(`Failed to load recording ${this.url}: ${response.status}`);
+      this.recording = decodeRecording(await response.arrayBuffer());
+    }
+    if (!this.recording?.frames.length) throw new Error("Recording has no frames.");
+
+    this.element.width = this.recording.width;
+    this.element.height = this.recording.height;
+    this.frame = 0;
+    this.loopOffset = 0;
+    this.startTime = performance.now();
+    this.animate();
+  }
+
+  protected draw(time: DOMHighResTimeStamp): DOMHighResTimeStamp | null {
+    const frames = this.recording?.frames;
+    if (!frames?.length) return null;
+
+    const first = frames[0].timestamp;
+    if (this.frame >= frames.length) {
+      const last = frames[frames.length - 1].timestamp;
+      const interval = frames.length > 1 ? (last - first) / (frames.length - 1) : 1000 / 30;
+      this.loopOffset += last - first + interval;
+      this.frame = 0;
+    }
+
+    const elapsed = frames[this.frame].timestamp - first + this.loopOffset;
+    if (time - this.startTime < elapsed) return null;
+
+    this.current = frames[this.frame++];
+    this.paint(this.current);
+
+    return this.startTime + elapsed;
+  }
+
+  private paint(frame: RecordedFrame) {
+    const { width, height } = this;
+    this.ctx.fillStyle = "#202020";
+    this.ctx.fillRect(0, 0, width, height);
+
+    this.ctx.fillStyle = "#C0C0C0";
+    for (const points of [...frame.faceLandmarks ?? [], ...frame.landmarks ?? []]) {
+      for (const { x, y } of points) {
+        this.ctx.fillRect(x * width - 1, y * height - 1, 2, 2);
+      }
+    }
+  }
+
+  detectForVideo(_videoFrame: ImageSource, _timestamp: number): FaceLandmarkerResult {
+    return toFaceLandmarkerResult(this.current);
+  }
+
+  recognizeForVideo(_videoFrame: ImageSource, _timestamp: number): GestureRecognizerResult {
+    return toGestureRecognizerResult(this.current);
+  }
+}
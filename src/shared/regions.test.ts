@@ -0,0 +1,106 @@
+import { FaceLandmarker } from "@mediapipe/tasks-vision";
+import { Vector2 } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import {
+  FACE_REGIONS,
+  getConnectionLandmarks,
+  getPolygonArea,
+  getPolygonBounds,
+  getPolygonCentroid,
+  getPolygonOrientation,
+  getPolygonPoints,
+  getRegion,
+  triangulateRegion,
+} from "./regions";
+import { CANONICAL_LANDMARKS } from "./tessellation";
+
+const face = faceRecording.frames[0].faceLandmarks![0];
+
+/** Unit square drawn clockwise in the image, y pointing down. */
+const square = [new Vector2(0, 0), new Vector2(2, 0), new Vector2(2, 2), new Vector2(0, 2)];
+
+/** Whether consecutive landmarks of a closed polygon are all connected. */
+function isClosedPath(polygon: number[], connections: { start: number, end: number }[]) {
+  const edges = new Set(connections.flatMap(({ start, end }) => [`${start}-${end}`, `${end}-${start}`]));
+  return polygon.every((landmark, i) => edges.has(`${landmark}-${polygon[(i + 1) % polygon.length]}`));
+}
+
+describe("getRegion", () => {
+  it("orders a closed contour", () => {
+    const { outline, holes } = FACE_REGIONS.faceOval;
+
+    expect(outline).toHaveLength(36);
+    expect(holes).toEqual([]);
+    expect(isClosedPath(outline, FaceLandmarker.FACE_LANDMARKS_FACE_OVAL)).toBe(true);
+  });
+
+  it("cuts the inner lip contour out of the outer one", () => {
+    const { outline, holes } = FACE_REGIONS.lips;
+
+    expect(outline).toContain(61);
+    expect(holes).toHaveLength(1);
+    expect(holes[0]).toContain(78);
+    expect(isClosedPath(holes[0], FaceLandmarker.FACE_LANDMARKS_LIPS)).toBe(true);
+  });
+
+  it("joins the open edges of an eyebrow into one polygon", () => {
+    const { outline } = FACE_REGIONS.leftEyebrow;
+
+    expect([...outline].sort()).toEqual(getConnectionLandmarks(FaceLandmarker.FACE_LANDMARKS_LEFT_EYEBROW).sort());
+    // The lower edge runs on into the nearest end of the upper one.
+    expect(outline.slice(4, 6)).toEqual([285, 336]);
+  });
+
+  it("takes the boundary of a triangulation", () => {
+    const { outline, holes } = getRegion(FaceLandmarker.FACE_LANDMARKS_TESSELATION);
+
+    expect([...outline].sort()).toEqual([...FACE_REGIONS.faceOval.outline].sort());
+    expect(holes).toHaveLength(3);
+  });
+
+  it("rejects connections that branch", () => {
+    expect(() => getRegion([{ start: 0, end: 1 }, { start: 0, end: 2 }, { start: 0, end: 3 }])).toThrow(/branch/);
+  });
+});
+
+describe("polygons", () => {
+  it("measures area, orientation, centroid and bounds", () => {
+    expect(getPolygonArea(square)).toBeCloseTo(4);
+    expect(getPolygonOrientation(square)).toBe("clockwise");
+    expect(getPolygonOrientation([...square].reverse())).toBe("counterclockwise");
+    expect(getPolygonCentroid(square).toArray()).toEqual([1, 1]);
+
+    const bounds = getPolygonBounds(square);
+    expect(bounds.min.toArray()).toEqual([0, 0]);
+    expect(bounds.max.toArray()).toEqual([2, 2]);
+  });
+
+  it("falls back to the mean for polygons without area", () => {
+    const line = [new Vector2(0, 0), new Vector2(2, 0)];
+    expect(getPolygonCentroid(line).toArray()).toEqual([1, 0]);
+  });
+
+  it("scales the landmarks of a polygon to the image", () => {
+    const points = getPolygonPoints(FACE_REGIONS.rightEye.outline, face, 640, 480);
+
+    expect(points[0].x).toBeCloseTo(face[33].x * 640);
+    expect(points[0].y).toBeCloseTo(face[33].y * 480);
+    expect(getPolygonBounds(points).containsPoint(getPolygonCentroid(points))).toBe(true);
+  });
+});
+
+describe("triangulateRegion", () => {
+  it("covers the area of the region with landmark triangles", () => {
+    const region = FACE_REGIONS.lips;
+    const triangles = triangulateRegion(region, CANONICAL_LANDMARKS);
+    const toPoints = (polygon: number[]) => getPolygonPoints(polygon, CANONICAL_LANDMARKS);
+
+    const area = triangles.reduce((sum, triangle) => sum + getPolygonArea(toPoints(triangle)), 0);
+    const expected = getPolygonArea(toPoints(region.outline)) - getPolygonArea(toPoints(region.holes[0]));
+    expect(triangles).toHaveLength(region.outline.length + region.holes[0].length);
+    expect(area).toBeCloseTo(expected, 6);
+    expect(triangles.flat().every((index) => [region.outline, ...region.holes].flat().includes(index))).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { FaceLandmarker, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { Box2, ShapeUtils, Vector2 } from "three";
+
+import { CoordinateOptions, normalizedToPixel } from "./coords";
+import { CANONICAL_LANDMARK_COUNT, CANONICAL_UVS, Connection, Triangle } from "./tessellation";
+
+/**
+ * Area of the face bounded by landmarks, as closed polygons of landmark
+ * indices. The last landmark of a polygon connects back to the first.
+ */
+export interface FaceRegion {
+  outline: number[];
+  /** Polygons cut out of the outline, like the open mouth out of the lips. */
+  holes: number[][];
+}
+
+/** Which way a polygon turns as seen in the image, with y pointing down. */
+export type Orientation = "clockwise" | "counterclockwise";
+
+/** Every landmark the connections touch, in order of appearance. */
+export function getConnectionLandmarks(connections: Connection[]): number[] {
+  return [...new Set(connections.flatMap(({ start, end }) => [start, end]))];
+}
+
+function getEdgeKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+/**
+ * Edges of the connections without duplicates. In a triangulation, like
+ * `FACE_LANDMARKS_TESSELATION`, every inner edge is listed by two triangles,
+ * and only the boundary edges, listed once, are kept.
+ */
+function getBoundaryEdges(connections: Connection[]): [number, number][] {
+  const edges = new Map<string, { edge: [number, number], count: number }>();
+  for (const { start, end } of connections) {
+    const key = getEdgeKey(start, end);
+    const entry = edges.get(key) ?? { edge: [start, end], count: 0 };
+    entry.count++;
+    edges.set(key, entry);
+  }
+
+  const entries = [...edges.values()];
+  const triangulated = entries.some(({ count }) => count > 1);
+  return entries.filter(({ count }) => !triangulated || count === 1).map(({ edge }) => edge);
+}
+
+/**
+ * Splits edges into chains of landmarks, following the order of the
+ * connections. A chain that ends where it starts is closed.
+ */
+function getChains(edges: [number, number][]): { landmarks: number[], closed: boolean }[] {
+  const neighbors = new Map<number, number[]>();
+  for (const [a, b] of edges) {
+    neighbors.set(a, [...neighbors.get(a) ?? [], b]);
+    neighbors.set(b, [...neighbors.get(b) ?? [], a]);
+  }
+  for (const [landmark, next] of neighbors) {
+    if (next.length > 2) throw new Error(`Connections branch at landmark ${landmark}`);
+  }
+
+  const visited = new Set<number>();
+  const walk = (start: number) => {
+    const landmarks = [start];
+    visited.add(start);
+    for (let next = neighbors.get(start)!.find((n) => !visited.has(n)); next !== undefined;) {
+      landmarks.push(next);
+      visited.add(next);
+      next = neighbors.get(next)!.find((n) => !visited.has(n));
+    }
+    const closed = landmarks.length > 2 && neighbors.get(landmarks[landmarks.length - 1])!.includes(start);
+    return { landmarks, closed };
+  };
+
+  // Open chains are walked from an end, the remaining closed ones from anywhere.
+  const chains = [];
+  for (const [landmark, next] of neighbors) {
+    if (next.length === 1 && !visited.has(landmark)) chains.push(walk(landmark));
+  }
+  for (const [a] of edges) {
+    if (!visited.has(a)) chains.push(walk(a));
+  }
+  return chains;
+}
+
+function getCanonicalUV(landmark: number): Vector2 {
+  if (landmark >= CANONICAL_LANDMARK_COUNT) return new Vector2();
+  return new Vector2(CANONICAL_UVS[landmark * 2], CANONICAL_UVS[landmark * 2 + 1]);
+}
+
+/**
+ * Joins open chains into one polygon, each continuing from the nearest end of
+ * the ones left, like the upper and lower edges of an eyebrow.
+ */
+function joinChains(chains: number[][]): number[] {
+  const [first, ...rest] = chains;
+  const polygon = [...first];
+  while (rest.length) {
+    const end = getCanonicalUV(polygon[polygon.length - 1]);
+    let best = { index: 0, reversed: false, distance: Infinity };
+    rest.forEach((chain, index) => {
+      for (const reversed of [false, true]) {
+        const distance = end.distanceTo(getCanonicalUV(reversed ? chain[chain.length - 1] : chain[0]));
+        if (distance < best.distance) best = { index, reversed, distance };
+      }
+    });
+    const [chain] = rest.splice(best.index, 1);
+    polygon.push(...(best.reversed ? [...chain].reverse() : chain));
+  }
+  return polygon;
+}
+
+/**
+ * Turns connections, like the `FaceLandmarker.FACE_LANDMARKS_*` lists, into a
+ * region. The largest closed chain, by its area on the canonical face, is the
+ * outline and the other closed chains are holes. Without closed chains, the
+ * open ones are joined into the outline. A triangulation gives its boundary.
+ */
+export function getRegion(connections: Connection[]): FaceRegion {
+  const chains = getChains(getBoundaryEdges(connections));
+  const closed = chains.filter(({ closed }) => closed).map(({ landmarks }) => landmarks);
+  if (!closed.length) {
+    if (!chains.length) throw new Error("No connections to build a region from");
+    return { outline: joinChains(chains.map(({ landmarks }) => landmarks)), holes: [] };
+  }
+
+  const areas = closed.map((polygon) => getPolygonArea(polygon.map(getCanonicalUV)));
+  const outline = areas.indexOf(Math.max(...areas));
+  return { outline: closed[outline], holes: closed.filter((_, i) => i !== outline) };
+}
+
+export const FACE_REGIONS = {
+  lips: getRegion(FaceLandmarker.FACE_LANDMARKS_LIPS),
+  leftEye: getRegion(FaceLandmarker.FACE_LANDMARKS_LEFT_EYE),
+  rightEye: getRegion(FaceLandmarker.FACE_LANDMARKS_RIGHT_EYE),
+  leftEyebrow: getRegion(FaceLandmarker.FACE_LANDMARKS_LEFT_EYEBROW),
+  rightEyebrow: getRegion(FaceLandmarker.FACE_LANDMARKS_RIGHT_EYEBROW),
+  leftIris: getRegion(FaceLandmarker.FACE_LANDMARKS_LEFT_IRIS),
+  rightIris: getRegion(FaceLandmarker.FACE_LANDMARKS_RIGHT_IRIS),
+  faceOval: getRegion(FaceLandmarker.FACE_LANDMARKS_FACE_OVAL),
+};
+export type FaceRegionName = keyof typeof FACE_REGIONS;
+
+/**
+ * Points of a polygon of landmarks in an image of `width` x `height`, see
+ * `normalizedToPixel`.
+ */
+export function getPolygonPoints(
+  polygon: number[],
+  landmarks: readonly NormalizedLandmark[],
+  width = 1,
+  height = 1,
+  options?: CoordinateOptions
+): Vector2[] {
+  return polygon.map((index) => {
+    const { x, y } = normalizedToPixel(landmarks[index], width, height, options);
+    return new Vector2(x, y);
+  });
+}
+
+/** Shoelace sum, positive for clockwise polygons in the image. */
+function getSignedArea(points: Vector2[]): number {
+  let area = 0;
+  points.forEach((point, i) => {
+    area += point.cross(points[(i + 1) % points.length]);
+  });
+  return area / 2;
+}
+
+export function getPolygonArea(points: Vector2[]): number {
+  return Math.abs(getSignedArea(points));
+}
+
+export function getPolygonOrientation(points: Vector2[]): Orientation {
+  return getSignedArea(points) >= 0 ? "clockwise" : "counterclockwise";
+}
+
+/**
+ * Center of mass of the polygon, or the mean of its points when it has no
+ * area.
+ */
+export function getPolygonCentroid(points: Vector2[]): Vector2 {
+  const area = getSignedArea(points);
+  if (Math.abs(area) < 1e-12) {
+    return points.reduce((sum, point) => sum.add(point), new Vector2()).divideScalar(points.length || 1);
+  }
+
+  const centroid = new Vector2();
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    centroid.addScaledVector(point.clone().add(next), point.cross(next));
+  });
+  return centroid.divideScalar(6 * area);
+}
+
+export function getPolygonBounds(points: Vector2[]): Box2 {
+  return new Box2().setFromPoints(points);
+}
+
+/**
+ * Whether `point` is inside the polygon, by the even-odd rule. Points on its
+ * edges may fall either way.
+ */
+export function isInsidePolygon(point: Vector2, points: Vector2[]): boolean {
+  let inside = false;
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + (point.y - a.y) / (b.y - a.y) * (b.x - a.x)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+/**
+ * Triangulates a region over the current landmarks, holes left out, as
+ * landmark indices.
+ */
+export function triangulateRegion(region: FaceRegion, landmarks: readonly NormalizedLandmark[]): Triangle[] {
+  const toPoints = (polygon: number[]) => getPolygonPoints(polygon, landmarks);
+  const indices = [region.outline, ...region.holes].flat();
+  return ShapeUtils.triangulateShape(toPoints(region.outline), region.holes.map(toPoints))
+    .map(([a, b, c]): Triangle => [indices[a], indices[b], indices[c]]);
+}
@@ -0,0 +1,392 @@
+import { CanvasTexture, Texture, VideoTexture } from "three";
+
+export type FrameCallback = (timestamp: DOMHighResTimeStamp) => void;
+
+/**
+ * Anything the landmarkers can run on. `element` is handed to
+ * `detectForVideo`/`recognizeForVideo` and to the background texture.
+ */
+export interface FrameSource {
+  readonly element: HTMLVideoElement | HTMLCanvasElement;
+  readonly width: number;
+  readonly height: number;
+
+  start(): Promise<void>;
+  stop(): void;
+
+  /**
+   * Registers `callback` to be called once per new frame with a monotonically
+   * increasing timestamp, as required by the `VIDEO` running mode.
+   * Returns a function that unregisters it.
+   */
+  onFrame(callback: FrameCallback): () => void;
+}
+
+abstract class BaseFrameSource {
+  private callbacks = new Set<FrameCallback>();
+
+  onFrame(callback: FrameCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  protected emit(timestamp: DOMHighResTimeStamp) {
+    for (const callback of this.callbacks) {
+      callback(timestamp);
+    }
+  }
+}
+
+/**
+ * Base for sources backed by a `<video>` element. Frames are reported through
+ * `requestVideoFrameCallback`, so every callback sees a new decoded frame.
+ */
+abstract class VideoElementSource extends BaseFrameSource implements FrameSource {
+  readonly element: HTMLVideoElement;
+  private frameRequest = 0;
+
+  constructor(video: HTMLVideoElement) {
+    super();
+    this.element = video;
+  }
+
+  get width() { return this.element.videoWidth; }
+  get height() { return this.element.videoHeight; }
+
+  abstract start(): Promise<void>;
+
+  protected async play() {
+    const video = this.element;
+    if (video.readyState < HTMLMediaElement.HAVE_METADATA) {
+      await new Promise((resolve) => video.addEventListener("loadedmetadata", resolve, { once: true }));
+    }
+    await video.play();
+
+    const onVideoFrame = (now: DOMHighResTimeStamp) => {
+      this.emit(now);
+      this.frameRequest = video.requestVideoFrameCallback(onVideoFrame);
+    };
+    this.frameRequest = video.requestVideoFrameCallback(onVideoFrame);
+  }
+
+  stop() {
+    this.element.cancelVideoFrameCallback(this.frameRequest);
+    this.element.pause();
+  }
+}
+
+/**
+ * Live camera feed from `getUserMedia`.
+ */
+export class CameraSource extends VideoElementSource {
+  constraints: MediaTrackConstraints;
+
+  constructor(video: HTMLVideoElement, constraints: MediaTrackConstraints = { facingMode: "user" }) {
+    super(video);
+    this.constraints = constraints;
+  }
+
+  async start() {
+    this.element.srcObject = await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: this.constraints,
+    });
+    await this.play();
+  }
+
+  stop() {
+    super.stop();
+    const stream = this.element.srcObject as MediaStream | null;
+    stream?.getTracks().forEach((track) => track.stop());
+    this.element.srcObject = null;
+  }
+}
+
+/**
+ * Local video file. When no file is given, `start()` asks the user to pick one.
+ */
+export class VideoFileSource extends VideoElementSource {
+  file: File | string | null;
+  private objectUrl: string | null = null;
+
+  constructor(video: HTMLVideoElement, file: File | string | null = null, loop = true) {
+    super(video);
+    this.file = file;
+    this.element.loop = loop;
+    this.element.muted = true;
+  }
+
+  async start() {
+    const file = this.file ?? await pickFile("video/*");
+    if (typeof file === "string") {
+      this.element.src = file;
+    } else {
+      this.objectUrl = URL.createObjectURL(file);
+      this.element.src = this.objectUrl;
+    }
+    await this.play();
+  }
+
+  stop() {
+    super.stop();
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+  }
+}
+
+/**
+ * Base for sources that paint their frames into a canvas on every animation
+ * frame.
+ */
+export abstract class CanvasElementSource extends BaseFrameSource implements FrameSource {
+  readonly element: HTMLCanvasElement;
+  protected ctx: CanvasRenderingContext2D;
+  private animationFrame = 0;
+
+  constructor(width = 640, height = 480) {
+    super();
+    this.element = document.createElement("canvas");
+    this.element.width = width;
+    this.element.height = height;
+
+    const ctx = this.element.getContext("2d");
+    if (!ctx) throw new Error("Failed to get 2D context from the frame source canvas.");
+    this.ctx = ctx;
+  }
+
+  get width() { return this.element.width; }
+  get height() { return this.element.height; }
+
+  abstract start(): Promise<void>;
+
+  /**
+   * Paints the frame for `time` and returns its timestamp, or `null` when the
+   * canvas did not change.
+   */
+  protected abstract draw(time: DOMHighResTimeStamp): DOMHighResTimeStamp | null;
+
+  protected animate() {
+    const onAnimationFrame = (time: DOMHighResTimeStamp) => {
+      const timestamp = this.draw(time);
+      if (timestamp !== null) this.emit(timestamp);
+      this.animationFrame = requestAnimationFrame(onAnimationFrame);
+    };
+    this.animationFrame = requestAnimationFrame(onAnimationFrame);
+  }
+
+  stop() {
+    cancelAnimationFrame(this.animationFrame);
+  }
+}
+
+/**
+ * Numbered still images played back at a fixed frame rate. Timestamps advance
+ * by exactly one frame interval per image, so runs are reproducible.
+ */
+export class ImageSequenceSource extends CanvasElementSource {
+  urls: string[];
+  fps: number;
+  loop: boolean;
+
+  private images: HTMLImageElement[] = [];
+  private frame = 0;
+  private startTime = 0;
+
+  constructor(urls: string[], fps = 30, loop = true) {
+    super();
+    this.urls = urls;
+    this.fps = fps;
+    this.loop = loop;
+  }
+
+  /**
+   * Expands a printf-style `pattern` such as `/frames/frame_%04d.png` into
+   * `count` URLs starting at `first`.
+   */
+  static fromPattern(pattern: string, count: number, first = 0, fps = 30): ImageSequenceSource {
+    const urls = Array.from({ length: count }, (_, i) =>
+      pattern.replace(/%0?(\d*)d/, (_match, width: string) =>
+        String(first + i).padStart(Number(width) || 0, "0")
+      )
+    );
+    return new ImageSequenceSource(urls, fps);
+  }
+
+  async start() {
+    this.images = await Promise.all(this.urls.map(loadImage));
+    if (!this.images.length) throw new Error("Image sequence is empty.");
+
+    this.element.width = this.images[0].naturalWidth;
+    this.element.height = this.images[0].naturalHeight;
+    this.frame = 0;
+    this.startTime = performance.now();
+    this.animate();
+  }
+
+  protected draw(time: DOMHighResTimeStamp): DOMHighResTimeStamp | null {
+    const interval = 1000 / this.fps;
+    if (time - this.startTime < this.frame * interval) return null;
+    if (!this.loop && this.frame >= this.images.length) return null;
+
+    const image = this.images[this.frame % this.images.length];
+    this.ctx.drawImage(image, 0, 0, this.width, this.height);
+
+    return this.startTime + this.frame++ * interval;
+  }
+}
+
+export type CanvasDrawFunction = (ctx: CanvasRenderingContext2D, time: DOMHighResTimeStamp) => void;
+
+/**
+ * Synthetic frames painted by `drawFrame`. Defaults to a moving test pattern,
+ * which is enough to exercise the pipeline on machines without a camera.
+ */
+export class CanvasSource extends CanvasElementSource {
+  drawFrame: CanvasDrawFunction;
+
+  constructor(drawFrame: CanvasDrawFunction = drawTestPattern, width = 640, height = 480) {
+    super(width, height);
+    this.drawFrame = drawFrame;
+  }
+
+  async start() {
+    this.animate();
+  }
+
+  protected draw(time: DOMHighResTimeStamp): DOMHighResTimeStamp {
+    this.drawFrame(this.ctx, time);
+    return time;
+  }
+}
+
+function drawTestPattern(ctx: CanvasRenderingContext2D, time: DOMHighResTimeStamp) {
+  const { width, height } = ctx.canvas;
+  const t = time / 1000;
+
+  ctx.fillStyle = `hsl(${(t * 20) % 360}, 40%, 30%)`;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = "#f0d0b0";
+  ctx.beginPath();
+  ctx.arc(width / 2 + Math.sin(t) * width / 6, height / 2, height / 4, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load frame ${url}`));
+    image.src = url;
+  });
+}
+
+/**
+ * Shows a file input on top of the page and resolves with the chosen file.
+ */
+export function pickFile(accept: string): Promise<File> {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = accept;
+  input.className = "file-picker";
+  input.style.cssText = "position: fixed; top: 1rem; left: 1rem; z-index: 10;";
+  document.body.appendChild(input);
+
+  return new Promise((resolve) => {
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      input.remove();
+      resolve(file);
+    });
+  });
+}
+
+/**
+ * Calls `callback` with every file dropped onto `target` whose name ends with
+ * one of `extensions`. Returns a function that stops listening.
+ */
+export function onFileDrop(
+  target: HTMLElement,
+  extensions: string[],
+  callback: (file: File) => void
+): () => void {
+  const accepts = (file: File) => extensions.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+  const onDragOver = (event: DragEvent) => event.preventDefault();
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault();
+    const file = [...(event.dataTransfer?.files ?? [])].find(accepts);
+    if (file) callback(file);
+  };
+
+  target.addEventListener("dragover", onDragOver);
+  target.addEventListener("drop", onDrop);
+  return () => {
+    target.removeEventListener("dragover", onDragOver);
+    target.removeEventListener("drop", onDrop);
+  };
+}
+
+/**
+ * Builds the frame source requested by the page's query string, using
+ * `video` for the video-backed sources:
+ *
+ * - `?source=camera` (default)
+ * - `?source=file[&url=/clip.mp4]`
+ * - `?source=sequence&pattern=/frames/%04d.png&count=120[&first=0][&fps=30]`
+ * - `?source=synthetic`
+ */
+export function selectFrameSource(video: HTMLVideoElement): FrameSource {
+  const params = new URLSearchParams(window.location.search);
+
+  let source: FrameSource;
+  switch (params.get("source")) {
+    case "file":
+      source = new VideoFileSource(video, params.get("url"));
+      break;
+    case "sequence":
+      source = ImageSequenceSource.fromPattern(
+        params.get("pattern") ?? "/frames/%04d.png",
+        Number(params.get("count") ?? 1),
+        Number(params.get("first") ?? 0),
+        Number(params.get("fps") ?? 30)
+      );
+      break;
+    case "synthetic":
+      source = new CanvasSource();
+      break;
+    default:
+      source = new CameraSource(video);
+  }
+
+  return mountFrameSource(source, video);
+}
+
+/**
+ * Puts a canvas-backed `source` in the place of `video` in the DOM, keeping its
+ * id, classes and inline style so the page layout stays the same.
+ */
+export function mountFrameSource<T extends FrameSource>(source: T, video: HTMLVideoElement): T {
+  if (source.element !== video) {
+    source.element.id = video.id;
+    source.element.className = video.className;
+    source.element.style.cssText = video.style.cssText;
+    video.replaceWith(source.element);
+  }
+
+  return source;
+}
+
+/**
+ * Creates a texture that follows the frames of `source`.
+ */
+export function createFrameTexture(source: FrameSource): Texture {
+  if (source.element instanceof HTMLVideoElement) {
+    return new VideoTexture(source.element);
+  }
+
+  const texture = new CanvasTexture(source.element);
+  source.onFrame(() => { texture.needsUpdate = true });
+  return texture;
+}
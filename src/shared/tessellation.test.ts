@@ -0,0 +1,78 @@
+import { BufferAttribute } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import { normalizedToPixel } from "./coords";
+import { CANONICAL_POSITIONS, CANONICAL_UVS, FACE_TRIANGLES, FaceGeometry, getTriangles, selectTriangles } from "./tessellation";
+
+const landmarks = faceRecording.frames[0].faceLandmarks![0];
+
+describe("triangles", () => {
+  it("groups the tessellation three connections at a time", () => {
+    expect(FACE_TRIANGLES).toHaveLength(852);
+    expect(getTriangles([{ start: 1, end: 2 }, { start: 2, end: 3 }, { start: 3, end: 1 }])).toEqual([[1, 2, 3]]);
+  });
+
+  it("keeps the triangles with every corner selected", () => {
+    const triangles = selectTriangles(FACE_TRIANGLES, FACE_TRIANGLES[0]);
+    expect(triangles).toEqual([FACE_TRIANGLES[0]]);
+    expect(selectTriangles(FACE_TRIANGLES, FACE_TRIANGLES[0].slice(1))).toEqual([]);
+  });
+});
+
+describe("canonical face", () => {
+  it("has a position and UV per landmark", () => {
+    expect(CANONICAL_POSITIONS).toHaveLength(468 * 3);
+    expect(CANONICAL_UVS).toHaveLength(468 * 2);
+  });
+
+  it("puts the forehead above the chin", () => {
+    expect(CANONICAL_UVS[10 * 2 + 1]).toBeGreaterThan(CANONICAL_UVS[152 * 2 + 1]);
+    expect(CANONICAL_POSITIONS[10 * 3 + 1]).toBeGreaterThan(CANONICAL_POSITIONS[152 * 3 + 1]);
+  });
+});
+
+describe("FaceGeometry", () => {
+  it("indexes a vertex per landmark of the whole face", () => {
+    const face = new FaceGeometry();
+    expect(face.geometry.index!.count).toBe(852 * 3);
+    expect(face.landmarks).toHaveLength(468);
+  });
+
+  it("updates positions and video UVs in place", () => {
+    const face = new FaceGeometry({ width: 4 / 3, height: 1, mirrored: true });
+    const position = face.geometry.getAttribute("position") as BufferAttribute;
+    face.update(landmarks);
+
+    expect(face.geometry.getAttribute("position")).toBe(position);
+    const expected = normalizedToPixel(landmarks[10], 4 / 3, 1, { mirrored: true });
+    const i = face.landmarks.indexOf(10);
+    expect(position.getX(i)).toBeCloseTo(expected.x);
+    expect(position.getY(i)).toBeCloseTo(expected.y);
+    expect(position.getZ(i)).toBeCloseTo(expected.z);
+    expect((face.geometry.getAttribute("uv") as BufferAttribute).getX(i)).toBeCloseTo(landmarks[10].x);
+    expect(face.geometry.boundingSphere).not.toBeNull();
+  });
+
+  it("takes the video UVs from the source landmarks", () => {
+    const face = new FaceGeometry();
+    const source = faceRecording.frames[2].faceLandmarks![0];
+    face.update(landmarks, source);
+
+    const uv = face.geometry.getAttribute("uv") as BufferAttribute;
+    const i = face.landmarks.indexOf(10);
+    expect(uv.getX(i)).toBeCloseTo(source[10].x);
+    expect(uv.getY(i)).toBeCloseTo(source[10].y);
+  });
+
+  it("puts the canonical UVs in uv when asked", () => {
+    const face = new FaceGeometry({ landmarks: FACE_TRIANGLES[0], uvs: "canonical" });
+    const uv = face.geometry.getAttribute("uv") as BufferAttribute;
+    const landmark = face.landmarks[0];
+
+    expect(face.triangles).toEqual([FACE_TRIANGLES[0]]);
+    expect(uv.getX(0)).toBeCloseTo(CANONICAL_UVS[landmark * 2]);
+    expect(uv.getY(0)).toBeCloseTo(CANONICAL_UVS[landmark * 2 + 1]);
+    expect(face.geometry.getAttribute("uv2").count).toBe(3);
+  });
+});
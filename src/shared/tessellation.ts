@@ -0,0 +1,141 @@
+import { FaceLandmarker, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { BufferAttribute, BufferGeometry, DynamicDrawUsage } from "three";
+
+import canonicalFace from "./canonical_face.json";
+import { CoordinateOptions, normalizedToPixel } from "./coords";
+
+export type Triangle = [number, number, number];
+/** Landmark connections, which the package does not export a type for. */
+export type Connection = typeof FaceLandmarker.FACE_LANDMARKS_TESSELATION[number];
+
+/** Number of landmarks of the canonical face; the iris landmarks come after them. */
+export const CANONICAL_LANDMARK_COUNT = 468;
+
+/**
+ * Positions of the canonical face model in cm, 3 per landmark, in face space
+ * (see `coords.ts`). Extracted from `public/canonical_face_model.fbx`, whose
+ * vertices are in landmark order.
+ */
+export const CANONICAL_POSITIONS: readonly number[] = canonicalFace.positions;
+
+/**
+ * UVs of the canonical face model, 2 per landmark, from the same file. They
+ * unwrap the face onto [0, 1] with the forehead at the top, v pointing up.
+ */
+export const CANONICAL_UVS: readonly number[] = canonicalFace.uvs;
+
+/**
+ * The UV unwrap of the canonical face as landmarks of an image, y pointing
+ * down, to lay out shapes on a face that is always open and front facing.
+ */
+export const CANONICAL_LANDMARKS: readonly NormalizedLandmark[] = Array.from(
+  { length: CANONICAL_LANDMARK_COUNT },
+  (_, i) => ({ x: CANONICAL_UVS[i * 2], y: 1 - CANONICAL_UVS[i * 2 + 1], z: 0, visibility: 0 })
+);
+
+/**
+ * Groups connections listed a triangle at a time, like
+ * `FACE_LANDMARKS_TESSELATION`, into triangles.
+ */
+export function getTriangles(connections: Connection[]): Triangle[] {
+  const triangles: Triangle[] = [];
+  for (let i = 0; i + 2 < connections.length; i += 3) {
+    triangles.push([connections[i].start, connections[i + 1].start, connections[i + 2].start]);
+  }
+  return triangles;
+}
+
+/** Triangles of the face mesh, as landmark indices. */
+export const FACE_TRIANGLES: readonly Triangle[] = getTriangles(FaceLandmarker.FACE_LANDMARKS_TESSELATION);
+
+/**
+ * Keeps the triangles whose corners are all in `landmarks`.
+ */
+export function selectTriangles(triangles: readonly Triangle[], landmarks: Iterable<number>): Triangle[] {
+  const selected = new Set(landmarks);
+  return triangles.filter((triangle) => triangle.every((index) => selected.has(index)));
+}
+
+export interface FaceGeometryOptions extends CoordinateOptions {
+  /** Landmarks to build the mesh over, all of the face mesh by default. */
+  landmarks?: Iterable<number>;
+  /** Triangles to pick from, `FACE_TRIANGLES` by default. */
+  triangles?: readonly Triangle[];
+  /** Size of the image in the scene, see `normalizedToPixel`. */
+  width?: number;
+  height?: number;
+  /**
+   * Which UVs go in the `uv` attribute, the other ones go in `uv2`.
+   * "video" UVs are the normalized landmark coordinates, for frame textures
+   * with `flipY` off; "canonical" ones stick a texture to the face.
+   */
+  uvs?: "video" | "canonical";
+}
+
+/**
+ * Mesh over some or all of the face landmarks, triangulated by the face mesh
+ * tessellation. Its geometry is allocated once and `update` rewrites it in
+ * place every frame.
+ */
+export class FaceGeometry {
+  readonly geometry = new BufferGeometry();
+  /** Landmark of every vertex. */
+  readonly landmarks: number[];
+  readonly triangles: Triangle[];
+
+  private width: number;
+  private height: number;
+  private mirrored: boolean;
+  private positions: BufferAttribute;
+  private videoUVs: BufferAttribute;
+
+  constructor({
+    landmarks,
+    triangles = FACE_TRIANGLES,
+    width = 1,
+    height = 1,
+    mirrored = false,
+    uvs = "video",
+  }: FaceGeometryOptions = {}) {
+    this.triangles = landmarks ? selectTriangles(triangles, landmarks) : [...triangles];
+    this.landmarks = [...new Set(this.triangles.flat())].sort((a, b) => a - b);
+    this.width = width;
+    this.height = height;
+    this.mirrored = mirrored;
+
+    const vertex = new Map(this.landmarks.map((landmark, i) => [landmark, i]));
+    this.geometry.setIndex(this.triangles.flatMap((triangle) => triangle.map((index) => vertex.get(index)!)));
+
+    this.positions = new BufferAttribute(new Float32Array(this.landmarks.length * 3), 3).setUsage(DynamicDrawUsage);
+    this.videoUVs = new BufferAttribute(new Float32Array(this.landmarks.length * 2), 2).setUsage(DynamicDrawUsage);
+    const canonicalUVs = new BufferAttribute(new Float32Array(this.landmarks.length * 2), 2);
+    this.landmarks.forEach((landmark, i) => {
+      if (landmark < CANONICAL_LANDMARK_COUNT) canonicalUVs.setXY(i, CANONICAL_UVS[landmark * 2], CANONICAL_UVS[landmark * 2 + 1]);
+    });
+
+    this.geometry.setAttribute("position", this.positions);
+    this.geometry.setAttribute(uvs === "video" ? "uv" : "uv2", this.videoUVs);
+    this.geometry.setAttribute(uvs === "video" ? "uv2" : "uv", canonicalUVs);
+  }
+
+  /**
+   * Moves the mesh onto a detected face.
+   * @param landmarks Every landmark of the face.
+   * @param source Landmarks the video UVs come from, another face to warp
+   * its image onto this one triangle by triangle.
+   */
+  update(landmarks: NormalizedLandmark[], source: readonly NormalizedLandmark[] = landmarks) {
+    this.landmarks.forEach((landmark, i) => {
+      const { x, y, z } = normalizedToPixel(landmarks[landmark], this.width, this.height, { mirrored: this.mirrored });
+      this.positions.setXYZ(i, x, y, z);
+      this.videoUVs.setXY(i, source[landmark].x, source[landmark].y);
+    });
+    this.positions.needsUpdate = true;
+    this.videoUVs.needsUpdate = true;
+    this.geometry.computeBoundingSphere();
+  }
+
+  dispose() {
+    this.geometry.dispose();
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { MeshBasicMaterial, PerspectiveCamera } from "three";
+
+import { createCameraPlaneMesh, fitCameraPlaneMesh, getViewportSizeAtDepth } from "./viewport";
+
+describe("getViewportSizeAtDepth", () => {
+  it("covers 2 * depth vertically for a 90 degree camera", () => {
+    const camera = new PerspectiveCamera(90, 4 / 3);
+    const size = getViewportSizeAtDepth(camera, 10);
+
+    expect(size.y).toBeCloseTo(20);
+    expect(size.x).toBeCloseTo(20 * 4 / 3);
+  });
+
+  it("grows linearly with depth", () => {
+    const camera = new PerspectiveCamera(60, 1);
+    const near = getViewportSizeAtDepth(camera, 1);
+    const far = getViewportSizeAtDepth(camera, 500);
+
+    expect(far.y / near.y).toBeCloseTo(500);
+  });
+});
+
+describe("createCameraPlaneMesh", () => {
+  it("places the plane at -depth", () => {
+    const camera = new PerspectiveCamera(60, 1, 0.01, 5000);
+    const mesh = createCameraPlaneMesh(camera, 500, new MeshBasicMaterial());
+
+    mesh.geometry.computeBoundingBox();
+    expect(mesh.geometry.boundingBox?.min.z).toBeCloseTo(-500);
+    expect(mesh.geometry.boundingBox?.max.z).toBeCloseTo(-500);
+  });
+});
+
+describe("fitCameraPlaneMesh", () => {
+  it("follows the field of view of the camera", () => {
+    const camera = new PerspectiveCamera(60, 1, 0.01, 5000);
+    const mesh = createCameraPlaneMesh(camera, 500, new MeshBasicMaterial());
+
+    camera.fov = 90;
+    fitCameraPlaneMesh(mesh, camera, 500);
+    mesh.geometry.computeBoundingBox();
+    expect(mesh.geometry.boundingBox?.max.y).toBeCloseTo(500);
+  });
+});
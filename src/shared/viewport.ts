@@ -0,0 +1,52 @@
+import * as THREE from "three";
+
+/**
+ * Returns the world-space dimensions of the viewport at `depth` units away from
+ * the camera.
+ */
+export function getViewportSizeAtDepth(
+  camera: THREE.PerspectiveCamera,
+  depth: number
+): THREE.Vector2 {
+  const viewportHeightAtDepth =
+    2 * depth * Math.tan(THREE.MathUtils.degToRad(0.5 * camera.fov));
+  const viewportWidthAtDepth = viewportHeightAtDepth * camera.aspect;
+  return new THREE.Vector2(viewportWidthAtDepth, viewportHeightAtDepth);
+}
+
+/**
+ * Creates a `THREE.Mesh` which fully covers the `camera` viewport, is `depth`
+ * units away from the camera and uses `material`.
+ */
+export function createCameraPlaneMesh(
+  camera: THREE.PerspectiveCamera,
+  depth: number,
+  material: THREE.Material
+): THREE.Mesh {
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+  fitCameraPlaneMesh(mesh, camera, depth);
+  return mesh;
+}
+
+/**
+ * Resizes a mesh made by `createCameraPlaneMesh` to the viewport of `camera`,
+ * after its field of view or aspect changed.
+ */
+export function fitCameraPlaneMesh(
+  mesh: THREE.Mesh,
+  camera: THREE.PerspectiveCamera,
+  depth: number
+) {
+  if (camera.near > depth || depth > camera.far) {
+    console.warn("Camera plane geometry will be clipped by the `camera`!");
+  }
+  const viewportSize = getViewportSizeAtDepth(camera, depth);
+  const cameraPlaneGeometry = new THREE.PlaneGeometry(
+    viewportSize.width,
+    viewportSize.height
+  );
+  cameraPlaneGeometry.translate(0, 0, -depth);
+
+  mesh.geometry.dispose();
+  mesh.geometry = cameraPlaneGeometry;
+}
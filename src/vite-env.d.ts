@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MEDIAPIPE_WASM_URL?: string;
+  readonly VITE_MEDIAPIPE_MODEL_URL?: string;
+  readonly VITE_MEDIAPIPE_DELEGATE?: "CPU" | "GPU";
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
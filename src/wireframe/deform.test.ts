@@ -0,0 +1,47 @@
+import { Texture } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import { createDeformMaterial, createDeformSettings, getBlendshapeScore, updateDeformMaterial } from "./deform";
+
+describe("getBlendshapeScore", () => {
+  const blendshapes = faceRecording.frames[2].faceBlendshapes![0];
+
+  it("finds the score of a category by name", () => {
+    const { categoryName, score } = blendshapes.categories[25];
+    expect(getBlendshapeScore(blendshapes, categoryName)).toBe(score);
+  });
+
+  it("is 0 without the blendshape", () => {
+    expect(getBlendshapeScore(blendshapes, "notABlendshape")).toBe(0);
+    expect(getBlendshapeScore(undefined, "jawOpen")).toBe(0);
+  });
+});
+
+describe("updateDeformMaterial", () => {
+  it("leaves the mesh as it is by default", () => {
+    const material = createDeformMaterial(new Texture());
+    updateDeformMaterial(material, createDeformSettings(), { radius: 0.2, weight: 1, time: 3 });
+
+    const { scale, curvature, bulge, wobble } = material.uniforms;
+    expect([scale.value, curvature.value, bulge.value, wobble.value]).toEqual([1, 0, 0, 0]);
+  });
+
+  it("scales the wobble by the blendshape and the size of the mesh", () => {
+    const material = createDeformMaterial(new Texture());
+    const settings = { ...createDeformSettings(), wobble: 0.5, wobbleSpeed: 2 };
+    updateDeformMaterial(material, settings, { radius: 0.2, weight: 0.5, time: 1 });
+
+    expect(material.uniforms.wobble.value).toBeCloseTo(0.05);
+    expect(material.uniforms.phase.value).toBeCloseTo(2);
+    expect(material.uniforms.radius.value).toBe(0.2);
+  });
+
+  it("keeps the phase in one turn", () => {
+    const material = createDeformMaterial(new Texture());
+    updateDeformMaterial(material, createDeformSettings(), { radius: 1, weight: 0, time: 1000 });
+
+    expect(material.uniforms.phase.value).toBeGreaterThanOrEqual(0);
+    expect(material.uniforms.phase.value).toBeLessThan(2 * Math.PI);
+  });
+});
@@ -0,0 +1,110 @@
+import { Classifications } from "@mediapipe/tasks-vision";
+import { DoubleSide, ShaderMaterial, Texture } from "three";
+
+/**
+ * Deformations of a region mesh, done in its vertex shader. The mesh must be
+ * centered on the centroid of the region, like `landmarksToGeometry` does.
+ */
+export interface DeformSettings {
+  /** Scale around the centroid. */
+  scale: number;
+  /** Bends the mesh up or down towards its sides, by up to its radius. */
+  curvature: number;
+  /** Pushes the middle of the mesh out, or pulls it in when negative. */
+  bulge: number;
+  /** Height of the wave running along the mesh, relative to its radius. */
+  wobble: number;
+  /** Blendshape the wobble is scaled by, so it only shows with the expression. */
+  wobbleBlendshape: string;
+  /** Speed of the wave, in radians per second. */
+  wobbleSpeed: number;
+}
+
+export function createDeformSettings(): DeformSettings {
+  return { scale: 1, curvature: 0, bulge: 0, wobble: 0, wobbleBlendshape: "jawOpen", wobbleSpeed: 10 };
+}
+
+/**
+ * Score of a blendshape of a face, 0 without blendshapes or without that
+ * category.
+ */
+export function getBlendshapeScore(blendshapes: Classifications | undefined, categoryName: string): number {
+  return blendshapes?.categories.find((category) => category.categoryName === categoryName)?.score ?? 0;
+}
+
+const vertexShader = /* glsl */ `
+  uniform float scale;
+  uniform float curvature;
+  uniform float bulge;
+  uniform float radius;
+  uniform float wobble;
+  uniform float phase;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec3 p = position;
+
+    // Bulge fades out towards the radius, so the border stays in place.
+    float falloff = 1.0 - min(length(p.xy) / radius, 1.0);
+    p.xy *= 1.0 + bulge * falloff * falloff;
+
+    float side = position.x / radius;
+    p.y += curvature * radius * side * side;
+    p.y += wobble * sin(phase + side * 6.2831853);
+
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(p * scale, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D map;
+
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = texture2D(map, vUv);
+  }
+`;
+
+/**
+ * Material showing `map` with video UVs on a region mesh, deformed by
+ * `updateDeformMaterial`.
+ */
+export function createDeformMaterial(map: Texture): ShaderMaterial {
+  return new ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    side: DoubleSide,
+    uniforms: {
+      map: { value: map },
+      scale: { value: 1 },
+      curvature: { value: 0 },
+      bulge: { value: 0 },
+      radius: { value: 1 },
+      wobble: { value: 0 },
+      phase: { value: 0 },
+    },
+  });
+}
+
+/**
+ * Sets the deformations of a material from `createDeformMaterial`.
+ * @param radius Bounding radius of the mesh, the scale of the effects.
+ * @param weight Score of `settings.wobbleBlendshape`.
+ * @param time Seconds, to move the wobble along.
+ */
+export function updateDeformMaterial(
+  material: ShaderMaterial,
+  settings: DeformSettings,
+  { radius, weight, time }: { radius: number, weight: number, time: number }
+) {
+  const { uniforms } = material;
+  uniforms.scale.value = settings.scale;
+  uniforms.curvature.value = settings.curvature;
+  uniforms.bulge.value = settings.bulge;
+  uniforms.radius.value = Math.max(radius, 1e-6);
+  uniforms.wobble.value = settings.wobble * weight * radius;
+  uniforms.phase.value = (time * settings.wobbleSpeed) % (2 * Math.PI);
+}
@@ -0,0 +1,79 @@
+import { BufferAttribute } from "three";
+import { describe, expect, it } from "vitest";
+
+import { faceRecording } from "../__fixtures__";
+import { FACE_REGIONS } from "../shared/regions";
+import { CANONICAL_LANDMARKS } from "../shared/tessellation";
+import { MOUTH_REGION, landmarksToGeometry } from "./mesh";
+
+const face = faceRecording.frames[2].faceLandmarks![0];
+
+describe("MOUTH_REGION", () => {
+  it("follows the outer lip contour with the mouth filled", () => {
+    expect(MOUTH_REGION.outline).toEqual(FACE_REGIONS.lips.outline);
+    expect(MOUTH_REGION.outline).toHaveLength(20);
+    expect(MOUTH_REGION.holes).toEqual([]);
+  });
+});
+
+describe("landmarksToGeometry", () => {
+  it("returns nothing for an empty landmark list", () => {
+    expect(landmarksToGeometry([])).toBeUndefined();
+    expect(landmarksToGeometry(undefined)).toBeUndefined();
+  });
+
+  it("triangulates the outline into two triangles fewer than its landmarks", () => {
+    const { geometry } = landmarksToGeometry(face)!;
+
+    const triangles = MOUTH_REGION.outline.length - 2;
+    expect(geometry.attributes.position.count).toBe(triangles * 3);
+    expect(geometry.attributes.uv.count).toBe(triangles * 3);
+  });
+
+  it("leaves the holes of a region out", () => {
+    // The inner lips of the fixture are not inside the outer ones, unlike the canonical face's.
+    const { geometry } = landmarksToGeometry(CANONICAL_LANDMARKS, FACE_REGIONS.lips)!;
+
+    // A ring of n + m points splits into n + m triangles.
+    const points = FACE_REGIONS.lips.outline.length + FACE_REGIONS.lips.holes[0].length;
+    expect(geometry.attributes.position.count).toBe(points * 3);
+  });
+
+  it("translates the geometry by the mouth centroid it reports", () => {
+    const mouth = MOUTH_REGION.outline.map((index) => face[index]);
+    const { geometry, center } = landmarksToGeometry(face)!;
+
+    const meanX = mouth.reduce((sum, { x }) => sum + x * 2, 0) / mouth.length;
+    const meanY = mouth.reduce((sum, { y }) => sum + y * 2, 0) / mouth.length;
+    expect(center.x).toBeCloseTo(meanX);
+    expect(center.y).toBeCloseTo(meanY);
+
+    const position = geometry.attributes.position as BufferAttribute;
+    const uv = geometry.attributes.uv as BufferAttribute;
+    expect(position.getX(0) + center.x).toBeCloseTo(uv.getX(0) * 2);
+    expect(position.getY(0) + center.y).toBeCloseTo(uv.getY(0) * 2);
+  });
+
+  it("updates a given geometry in place", () => {
+    const { geometry } = landmarksToGeometry(faceRecording.frames[0].faceLandmarks![0])!;
+    const position = geometry.attributes.position as BufferAttribute;
+    const uv = geometry.attributes.uv;
+    const expected = landmarksToGeometry(face)!.geometry.attributes.position as BufferAttribute;
+    const updated = landmarksToGeometry(face, MOUTH_REGION, geometry)!;
+
+    expect(updated.geometry).toBe(geometry);
+    expect(geometry.attributes.position).toBe(position);
+    expect(geometry.attributes.uv).toBe(uv);
+    expect(position.version).toBeGreaterThan(1);
+    expect(Array.from(position.array)).toEqual(Array.from(expected.array));
+  });
+
+  it("uses the normalized coordinates as UVs", () => {
+    const { geometry } = landmarksToGeometry(face)!;
+
+    const uvs = MOUTH_REGION.outline.map((index) => [face[index].x, face[index].y]);
+    const uv = geometry.attributes.uv as BufferAttribute;
+    const first = [uv.getX(0), uv.getY(0)];
+    expect(uvs.some(([x, y]) => Math.abs(x - first[0]) < 1e-6 && Math.abs(y - first[1]) < 1e-6)).toBe(true);
+  });
+});
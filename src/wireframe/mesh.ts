@@ -0,0 +1,71 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { BufferAttribute, BufferGeometry, DynamicDrawUsage, Vector3 } from "three";
+
+import { normalizedToPixel } from "../shared/coords";
+import { FACE_REGIONS, FaceRegion, triangulateRegion } from "../shared/regions";
+
+/** Region the mouth mesh covers: the outer lip contour, open mouth included. */
+export const MOUTH_REGION: FaceRegion = { outline: FACE_REGIONS.lips.outline, holes: [] };
+
+/** Size of the image in the wireframe scene, which spans [0, SCENE_SIZE] on both axes. */
+export const SCENE_SIZE = 2;
+
+export interface LandmarkGeometry {
+  /** Geometry centered on the centroid of the outline, with video-projected UVs. */
+  geometry: BufferGeometry;
+  /** Centroid of the outline the geometry was centered on, in scene units. */
+  center: Vector3;
+}
+
+/**
+ * Triangulates `region` over the landmarks of a face. Positions are the
+ * landmarks in the scene, see `SCENE_SIZE`, UVs the normalized coordinates.
+ * Pass the geometry of the previous frame as `geometry` to update it in
+ * place; its attributes are only replaced when the triangle count changes.
+ */
+export function landmarksToGeometry(
+  landmarks: readonly NormalizedLandmark[] | undefined,
+  region: FaceRegion = MOUTH_REGION,
+  geometry = new BufferGeometry()
+): LandmarkGeometry | undefined {
+  if(!landmarks?.length) return;
+
+  const center = new Vector3();
+  for(const index of region.outline) {
+    center.add(normalizedToPixel(landmarks[index], SCENE_SIZE, SCENE_SIZE));
+  }
+  center.divideScalar(region.outline.length);
+
+  const triangles = triangulateRegion(region, landmarks);
+  const positions = getAttribute(geometry, "position", triangles.length * 3, 3);
+  const uvs = getAttribute(geometry, "uv", triangles.length * 3, 2);
+
+  // Setup vertices, relative to the center
+  let vertex = 0;
+  for(const triangle of triangles) {
+    for(const index of triangle) {
+      const { x, y, z } = normalizedToPixel(landmarks[index], SCENE_SIZE, SCENE_SIZE).sub(center);
+      positions.setXYZ(vertex, x, y, z);
+      uvs.setXY(vertex, landmarks[index].x, landmarks[index].y);
+      vertex++;
+    }
+  }
+  positions.needsUpdate = true;
+  uvs.needsUpdate = true;
+
+  return { geometry, center };
+}
+
+/**
+ * Returns the `name` attribute of `geometry`, replaced by a new one when it
+ * does not hold `count` items.
+ */
+function getAttribute(geometry: BufferGeometry, name: string, count: number, itemSize: number): BufferAttribute {
+  const attribute = geometry.getAttribute(name);
+  if (attribute instanceof BufferAttribute && attribute.count === count && attribute.itemSize === itemSize) {
+    return attribute;
+  }
+  const created = new BufferAttribute(new Float32Array(count * itemSize), itemSize).setUsage(DynamicDrawUsage);
+  geometry.setAttribute(name, created);
+  return created;
+}
@@ -0,0 +1,71 @@
+import { Vector2 } from "three";
+import { describe, expect, it } from "vitest";
+
+import { CANONICAL_UVS } from "../shared/tessellation";
+import { PAINT_REGIONS, convexHull, createPaintSettings, getRegionHulls } from "./paint";
+
+function uvOf(landmark: number) {
+  return new Vector2(CANONICAL_UVS[landmark * 2], CANONICAL_UVS[landmark * 2 + 1]);
+}
+
+/** Whether `point` is inside a counterclockwise convex polygon. */
+function inside(hull: Vector2[], point: Vector2) {
+  return hull.every((a, i) => {
+    const b = hull[(i + 1) % hull.length];
+    return (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x) >= 0;
+  });
+}
+
+describe("convexHull", () => {
+  it("drops the points inside", () => {
+    const corners = [new Vector2(0, 0), new Vector2(1, 0), new Vector2(1, 1), new Vector2(0, 1)];
+    const hull = convexHull([new Vector2(0.5, 0.5), ...corners, new Vector2(0.2, 0.7)]);
+
+    expect(hull).toHaveLength(4);
+    expect(hull).toEqual(expect.arrayContaining(corners));
+    expect(inside(hull, new Vector2(0.5, 0.5))).toBe(true);
+  });
+});
+
+describe("getRegionHulls", () => {
+  it("outlines every region in UV space", () => {
+    for (const region of PAINT_REGIONS) {
+      for (const hull of getRegionHulls(region)) {
+        expect(hull.length).toBeGreaterThanOrEqual(3);
+        hull.forEach(({ x, y }) => {
+          expect(x).toBeGreaterThanOrEqual(0);
+          expect(y).toBeLessThanOrEqual(1);
+        });
+      }
+    }
+  });
+
+  it("puts the lips around the mouth and inside the face", () => {
+    const [lips] = getRegionHulls("lips");
+    const [face] = getRegionHulls("face");
+    const mouth = uvOf(13);
+
+    expect(inside(lips, mouth)).toBe(true);
+    expect(inside(lips, uvOf(1))).toBe(false);
+    expect(lips.every((uv) => inside(face, uv))).toBe(true);
+  });
+
+  it("has an eye and a cheek on either side of the nose", () => {
+    for (const region of ["eyes", "cheeks"] as const) {
+      const hulls = getRegionHulls(region);
+      expect(hulls).toHaveLength(2);
+      expect(hulls.map((hull) => inside(hull, uvOf(1)))).toEqual([false, false]);
+    }
+
+    const [leftEye, rightEye] = getRegionHulls("eyes");
+    expect(inside(leftEye, uvOf(263))).toBe(true);
+    expect(inside(rightEye, uvOf(33))).toBe(true);
+  });
+});
+
+describe("createPaintSettings", () => {
+  it("paints the whole face by default", () => {
+    const settings = createPaintSettings();
+    expect(PAINT_REGIONS.filter((region) => settings.regions[region])).toEqual(["face"]);
+  });
+});
@@ -0,0 +1,223 @@
+import { FaceLandmarker } from "@mediapipe/tasks-vision";
+import { CanvasTexture, DoubleSide, ShaderMaterial, Texture, TextureLoader, Vector2 } from "three";
+
+import { getConnectionLandmarks } from "../shared/regions";
+import { CANONICAL_UVS, Connection } from "../shared/tessellation";
+
+/** Face paint authored in the UV layout of the canonical face, see `CANONICAL_UVS`. */
+export const PAINT_TEXTURE_URL = "/texture.png";
+
+/** How the paint combines with the video under it. */
+export const BLEND_MODES = ["alpha", "multiply", "overlay"] as const;
+export type BlendMode = typeof BLEND_MODES[number];
+
+/** Parts of the face the paint can be limited to; "face" is all of it. */
+export const PAINT_REGIONS = ["face", "lips", "eyes", "cheeks"] as const;
+export type PaintRegion = typeof PAINT_REGIONS[number];
+
+export interface PaintSettings {
+  blendMode: BlendMode;
+  opacity: number;
+  /** Regions the paint shows in, all of them together. */
+  regions: Record<PaintRegion, boolean>;
+}
+
+export function createPaintSettings(): PaintSettings {
+  return {
+    blendMode: "multiply",
+    opacity: 1,
+    regions: { face: true, lips: false, eyes: false, cheeks: false },
+  };
+}
+
+function getUV(landmark: number): Vector2 {
+  return new Vector2(CANONICAL_UVS[landmark * 2], CANONICAL_UVS[landmark * 2 + 1]);
+}
+
+/**
+ * Convex hull of `points`, counterclockwise, by the monotone chain algorithm.
+ */
+export function convexHull(points: Vector2[]): Vector2[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Vector2, a: Vector2, b: Vector2) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const chain = (points: Vector2[]) => {
+    const hull: Vector2[] = [];
+    for (const point of points) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+      hull.push(point);
+    }
+    hull.pop();
+    return hull;
+  };
+  return [...chain(sorted), ...chain(sorted.reverse())];
+}
+
+/**
+ * Each cheek reaches from its eye to the side of the face and down to the
+ * corner of the mouth. The eyes and lips drawn over it are cut out of it.
+ */
+function getCheekHulls(): Vector2[][] {
+  const oval = getConnectionLandmarks(FaceLandmarker.FACE_LANDMARKS_FACE_OVAL).map(getUV);
+  const lips = getConnectionLandmarks(FaceLandmarker.FACE_LANDMARKS_LIPS).map(getUV);
+
+  return [FaceLandmarker.FACE_LANDMARKS_LEFT_EYE, FaceLandmarker.FACE_LANDMARKS_RIGHT_EYE].map((connections) => {
+    const eye = getConnectionLandmarks(connections).map(getUV);
+    const center = eye.reduce((sum, uv) => sum.add(uv), new Vector2()).divideScalar(eye.length);
+    const side = Math.sign(center.x - 0.5);
+
+    const corner = lips.reduce((best, uv) => (uv.x - best.x) * side > 0 ? uv : best);
+    const edge = oval.filter((uv) => Math.sign(uv.x - 0.5) === side && uv.y >= corner.y && uv.y <= center.y);
+    return convexHull([...eye, corner, ...edge]);
+  });
+}
+
+/**
+ * Outlines of a region in canonical UV space, v pointing up, as convex hulls
+ * of the landmarks of its `FACE_LANDMARKS_*` connections.
+ */
+export function getRegionHulls(region: PaintRegion): Vector2[][] {
+  const hull = (...sets: Connection[][]) => convexHull(getConnectionLandmarks(sets.flat()).map(getUV));
+
+  switch (region) {
+    case "face":
+      return [hull(FaceLandmarker.FACE_LANDMARKS_FACE_OVAL)];
+    case "lips":
+      return [hull(FaceLandmarker.FACE_LANDMARKS_LIPS)];
+    case "eyes":
+      return [
+        hull(FaceLandmarker.FACE_LANDMARKS_LEFT_EYE, FaceLandmarker.FACE_LANDMARKS_LEFT_EYEBROW),
+        hull(FaceLandmarker.FACE_LANDMARKS_RIGHT_EYE, FaceLandmarker.FACE_LANDMARKS_RIGHT_EYEBROW),
+      ];
+    case "cheeks":
+      return getCheekHulls();
+  }
+}
+
+const vertexShader = /* glsl */ `
+  attribute vec2 uv2;
+
+  varying vec2 vVideoUv;
+  varying vec2 vFaceUv;
+
+  void main() {
+    vVideoUv = uv;
+    vFaceUv = uv2;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D video;
+  uniform sampler2D paint;
+  uniform sampler2D mask;
+  uniform int blendMode;
+  uniform float opacity;
+
+  varying vec2 vVideoUv;
+  varying vec2 vFaceUv;
+
+  void main() {
+    vec3 base = texture2D(video, vVideoUv).rgb;
+    vec4 color = texture2D(paint, vFaceUv);
+
+    vec3 blended = color.rgb;
+    if (blendMode == 1) {
+      blended = base * color.rgb;
+    } else if (blendMode == 2) {
+      vec3 dark = 2.0 * base * color.rgb;
+      vec3 light = 1.0 - 2.0 * (1.0 - base) * (1.0 - color.rgb);
+      blended = mix(dark, light, step(0.5, base));
+    }
+
+    float amount = color.a * opacity * texture2D(mask, vFaceUv).r;
+    gl_FragColor = vec4(mix(base, blended, amount), 1.0);
+  }
+`;
+
+/**
+ * Material drawing a face paint texture over the video on a `FaceGeometry`
+ * with video UVs in `uv` and canonical ones in `uv2`, blended and masked by
+ * `update`.
+ */
+export class FacePaint {
+  readonly material: ShaderMaterial;
+  private paint: Texture;
+  private mask = document.createElement("canvas");
+  private maskTexture = new CanvasTexture(this.mask);
+  /** Regions the mask was drawn for, to redraw it only when they change. */
+  private maskKey = "";
+
+  constructor(video: Texture, url = PAINT_TEXTURE_URL) {
+    this.paint = new TextureLoader().load(url, undefined, undefined, (error) => console.error(error));
+    this.mask.width = this.mask.height = 256;
+
+    this.material = new ShaderMaterial({
+      vertexShader,
+      fragmentShader,
+      side: DoubleSide,
+      uniforms: {
+        video: { value: video },
+        paint: { value: this.paint },
+        mask: { value: this.maskTexture },
+        blendMode: { value: 0 },
+        opacity: { value: 1 },
+      },
+    });
+  }
+
+  update(settings: PaintSettings) {
+    this.material.uniforms.blendMode.value = BLEND_MODES.indexOf(settings.blendMode);
+    this.material.uniforms.opacity.value = settings.opacity;
+
+    const regions = PAINT_REGIONS.filter((region) => settings.regions[region]);
+    const key = regions.join();
+    if (key === this.maskKey) return;
+    this.maskKey = key;
+    this.drawMask(regions);
+  }
+
+  dispose() {
+    this.material.dispose();
+    this.paint.dispose();
+    this.maskTexture.dispose();
+  }
+
+  /** Fills the regions white on black, the way the canvas texture flips v. */
+  private drawMask(regions: PaintRegion[]) {
+    const ctx = this.mask.getContext("2d");
+    if (!ctx) throw new Error("Mask canvas context is null");
+    const size = this.mask.width;
+
+    const fill = (region: PaintRegion, operation: GlobalCompositeOperation) => {
+      ctx.globalCompositeOperation = operation;
+      ctx.beginPath();
+      for (const hull of getRegionHulls(region)) {
+        hull.forEach(({ x, y }, i) => i ? ctx.lineTo(x * size, (1 - y) * size) : ctx.moveTo(x * size, (1 - y) * size));
+        ctx.closePath();
+      }
+      ctx.fill();
+    };
+
+    ctx.globalCompositeOperation = "source-over";
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = "white";
+
+    if (regions.includes("cheeks")) {
+      fill("cheeks", "source-over");
+      fill("eyes", "destination-out");
+      fill("lips", "destination-out");
+    }
+    for (const region of regions) {
+      if (region !== "cheeks") fill(region, "source-over");
+    }
+    // Cut out parts go back to black rather than transparent.
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, size, size);
+
+    this.maskTexture.needsUpdate = true;
+  }
+}
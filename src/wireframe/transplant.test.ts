@@ -0,0 +1,60 @@
+import { Color } from "three";
+import { describe, expect, it } from "vitest";
+
+import { FACE_REGIONS } from "../shared/regions";
+import { FACE_TRIANGLES } from "../shared/tessellation";
+import { getColorGain, getEdgeLandmarks, getMeanColor, getRegionLandmarks, getTransplantTriangles } from "./transplant";
+
+describe("getRegionLandmarks", () => {
+  it("takes the landmarks inside the outline too", () => {
+    const mouth = getRegionLandmarks("mouth");
+
+    expect(mouth.has(61)).toBe(true);
+    expect(FACE_REGIONS.lips.holes[0].every((landmark) => mouth.has(landmark))).toBe(true);
+    expect(mouth.has(1)).toBe(false);
+    expect(getRegionLandmarks("face").size).toBe(468);
+  });
+});
+
+describe("getTransplantTriangles", () => {
+  it("fills the openings inside the region", () => {
+    const [inner] = FACE_REGIONS.lips.holes;
+    const opening = getTransplantTriangles("mouth").filter((triangle) => triangle.every((landmark) => inner.includes(landmark)));
+
+    expect(opening).toHaveLength(inner.length - 2);
+    expect(getTransplantTriangles("face").length).toBe(FACE_TRIANGLES.length + 16 - 2 + 16 - 2 + 20 - 2);
+  });
+
+  it("fades out a ring beyond the region", () => {
+    for (const region of ["mouth", "eyes"] as const) {
+      const landmarks = getRegionLandmarks(region);
+      const edge = getEdgeLandmarks(getTransplantTriangles(region));
+
+      expect(edge.size).toBeGreaterThan(0);
+      expect([...edge].some((landmark) => landmarks.has(landmark))).toBe(false);
+    }
+  });
+
+  it("fades out the whole face at its oval", () => {
+    const edge = getEdgeLandmarks(getTransplantTriangles("face"));
+    expect([...edge].sort()).toEqual([...FACE_REGIONS.faceOval.outline].sort());
+  });
+});
+
+describe("color matching", () => {
+  const image = { width: 2, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]) };
+  const landmarks = [{ x: 0.25, y: 0.5, z: 0, visibility: 0 }, { x: 0.75, y: 0.5, z: 0, visibility: 0 }];
+
+  it("averages the pixels under the landmarks", () => {
+    expect(getMeanColor(image, landmarks, [0, 1]).toArray()).toEqual([0.5, 0, 0.5]);
+    expect(getMeanColor(image, landmarks, [1]).toArray()).toEqual([0, 0, 1]);
+  });
+
+  it("scales the source to the target within limits", () => {
+    const gain = getColorGain(new Color(0.2, 0.5, 0), new Color(0.3, 0.1, 0.4));
+
+    expect(gain.r).toBeCloseTo(1.5);
+    expect(gain.g).toBeCloseTo(0.5);
+    expect(gain.b).toBe(1);
+  });
+});
@@ -0,0 +1,211 @@
+import { FaceLandmarker, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { BufferAttribute, Color, DoubleSide, MathUtils, Mesh, ShaderMaterial, Texture, Vector3 } from "three";
+
+import { normalizedToPixel } from "../shared/coords";
+import { FACE_REGIONS, FaceRegion, getPolygonPoints, getRegion, isInsidePolygon, triangulateRegion } from "../shared/regions";
+import { CANONICAL_LANDMARKS, FACE_TRIANGLES, FaceGeometry, Triangle } from "../shared/tessellation";
+
+/** Parts of a face that can be transplanted onto another. */
+export const TRANSPLANT_REGIONS = ["mouth", "eyes", "face"] as const;
+export type TransplantRegion = typeof TRANSPLANT_REGIONS[number];
+
+/**
+ * Where the transplanted region comes from: the next tracked face, so two
+ * faces swap, or a loaded still image.
+ */
+export const TRANSPLANT_SOURCES = ["face", "image"] as const;
+export type TransplantSource = typeof TRANSPLANT_SOURCES[number];
+
+export interface TransplantSettings {
+  region: TransplantRegion;
+  source: TransplantSource;
+  /** Whether the colors of the region are scaled to the ones of the target. */
+  colorMatch: boolean;
+  opacity: number;
+}
+
+export function createTransplantSettings(): TransplantSettings {
+  return { region: "mouth", source: "face", colorMatch: true, opacity: 1 };
+}
+
+/** Outlines the landmarks of each region lie in, on the canonical face. */
+const REGION_OUTLINES: Record<TransplantRegion, FaceRegion[]> = {
+  mouth: [FACE_REGIONS.lips],
+  eyes: [FACE_REGIONS.leftEye, FACE_REGIONS.rightEye],
+  face: [FACE_REGIONS.faceOval],
+};
+
+/**
+ * Landmarks of a region: the ones on or inside its outlines.
+ */
+export function getRegionLandmarks(region: TransplantRegion): Set<number> {
+  const outlines = REGION_OUTLINES[region].map(({ outline }) => outline);
+  const polygons = outlines.map((outline) => getPolygonPoints(outline, CANONICAL_LANDMARKS));
+  const points = getPolygonPoints(CANONICAL_LANDMARKS.map((_, i) => i), CANONICAL_LANDMARKS);
+
+  const landmarks = new Set(outlines.flat());
+  points.forEach((point, i) => {
+    if (polygons.some((polygon) => isInsidePolygon(point, polygon))) landmarks.add(i);
+  });
+  return landmarks;
+}
+
+/** Eye and mouth openings, which the tessellation leaves out. */
+const OPENINGS = getRegion(FaceLandmarker.FACE_LANDMARKS_TESSELATION).holes;
+
+/**
+ * Triangles of the patch a region is copied with: every triangle touching one
+ * of its landmarks, so the patch reaches a ring further to fade out over,
+ * and the openings inside the region, like the open mouth.
+ */
+export function getTransplantTriangles(region: TransplantRegion): Triangle[] {
+  const landmarks = getRegionLandmarks(region);
+  const openings = OPENINGS.filter((opening) => opening.every((landmark) => landmarks.has(landmark)));
+  return [
+    ...FACE_TRIANGLES.filter((triangle) => triangle.some((landmark) => landmarks.has(landmark))),
+    ...openings.flatMap((outline) => triangulateRegion({ outline, holes: [] }, CANONICAL_LANDMARKS)),
+  ];
+}
+
+/** Landmarks on the border of a triangle patch, where it fades out. */
+export function getEdgeLandmarks(triangles: Triangle[]): Set<number> {
+  const counts = new Map<string, number>();
+  for (const [a, b, c] of triangles) {
+    for (const [start, end] of [[a, b], [b, c], [c, a]]) {
+      const key = start < end ? `${start}-${end}` : `${end}-${start}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const edge = new Set<number>();
+  for (const [key, count] of counts) {
+    if (count === 1) key.split("-").forEach((landmark) => edge.add(Number(landmark)));
+  }
+  return edge;
+}
+
+/**
+ * Mean color of an image at the given landmarks, with channels in [0, 1].
+ */
+export function getMeanColor(
+  image: Pick<ImageData, "data" | "width" | "height">,
+  landmarks: readonly NormalizedLandmark[],
+  indices: Iterable<number>
+): Color {
+  const sum = new Vector3();
+  let count = 0;
+  for (const index of indices) {
+    const pixel = normalizedToPixel(landmarks[index], image.width, image.height).floor();
+    const x = MathUtils.clamp(pixel.x, 0, image.width - 1);
+    const y = MathUtils.clamp(pixel.y, 0, image.height - 1);
+    const offset = (y * image.width + x) * 4;
+    sum.add(new Vector3(image.data[offset], image.data[offset + 1], image.data[offset + 2]));
+    count++;
+  }
+  sum.divideScalar(Math.max(count, 1) * 255);
+  return new Color(sum.x, sum.y, sum.z);
+}
+
+/** Limit of the per channel gain, so a dark region is not blown out. */
+const MAX_GAIN = 2;
+
+/**
+ * Per channel factor taking the mean color of the source region to the one
+ * of the target, within [1 / MAX_GAIN, MAX_GAIN].
+ */
+export function getColorGain(source: Color, target: Color): Color {
+  const gain = (from: number, to: number) => from > 0 ? Math.min(Math.max(to / from, 1 / MAX_GAIN), MAX_GAIN) : 1;
+  return new Color(gain(source.r, target.r), gain(source.g, target.g), gain(source.b, target.b));
+}
+
+const vertexShader = /* glsl */ `
+  attribute float feather;
+
+  varying vec2 vUv;
+  varying float vFeather;
+
+  void main() {
+    vUv = uv;
+    vFeather = feather;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D map;
+  uniform vec3 gain;
+  uniform float opacity;
+
+  varying vec2 vUv;
+  varying float vFeather;
+
+  void main() {
+    gl_FragColor = vec4(texture2D(map, vUv).rgb * gain, vFeather * opacity);
+  }
+`;
+
+/**
+ * Patch over a region of one face showing that region of another face,
+ * warped triangle by triangle onto it, color matched and faded out at its
+ * border.
+ */
+export class FaceTransplant {
+  readonly region: TransplantRegion;
+  /** Landmarks of the region, see `getRegionLandmarks`. */
+  readonly landmarks: Set<number>;
+  readonly face: FaceGeometry;
+  readonly mesh: Mesh;
+  private material: ShaderMaterial;
+
+  /**
+   * @param width Size of the image in the scene, see `FaceGeometry`.
+   */
+  constructor(region: TransplantRegion, width: number, height: number) {
+    this.region = region;
+    this.landmarks = getRegionLandmarks(region);
+    const triangles = getTransplantTriangles(region);
+    this.face = new FaceGeometry({ triangles, width, height });
+
+    const edge = getEdgeLandmarks(triangles);
+    const feather = new Float32Array(this.face.landmarks.map((landmark) => edge.has(landmark) ? 0 : 1));
+    this.face.geometry.setAttribute("feather", new BufferAttribute(feather, 1));
+
+    this.material = new ShaderMaterial({
+      vertexShader,
+      fragmentShader,
+      side: DoubleSide,
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+      uniforms: {
+        map: { value: null },
+        gain: { value: new Color(1, 1, 1) },
+        opacity: { value: 1 },
+      },
+    });
+    this.mesh = new Mesh(this.face.geometry, this.material);
+  }
+
+  /**
+   * Moves the patch onto the target face and shows the source one in it.
+   * @param image Texture of the source landmarks, with `flipY` off.
+   * @param gain Color gain, see `getColorGain`.
+   */
+  update(
+    target: NormalizedLandmark[],
+    source: readonly NormalizedLandmark[],
+    image: Texture,
+    gain: Color,
+    opacity: number
+  ) {
+    this.face.update(target, source);
+    this.material.uniforms.map.value = image;
+    this.material.uniforms.gain.value.copy(gain);
+    this.material.uniforms.opacity.value = opacity;
+  }
+
+  dispose() {
+    this.face.dispose();
+    this.material.dispose();
+  }
+}
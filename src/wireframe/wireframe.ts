@@ -1,5 +1,17 @@
-import { Category, DrawingUtils, FaceLandmarker, FaceLandmarkerResult, FilesetResolver, NormalizedLandmark } from "@mediapipe/tasks-vision";
-import { BufferAttribute, BufferGeometry, DoubleSide, Float32BufferAttribute, LineBasicMaterial, Mesh, MeshBasicMaterial, OrthographicCamera, RepeatWrapping, Scene, TextureLoader, Vector3, VideoTexture, WebGLRenderer, WebGLRenderTarget } from "three";
+import { Category, Classifications, DrawingUtils, FaceLandmarker, FaceLandmarkerResult, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { normalizedToPixel } from "../shared/coords";
+import { FaceTracker } from "../shared/faces";
+import { drawGazeRays } from "../shared/gaze";
+import { createFaceLandmarker, resolveNumFaces } from "../shared/landmarker";
+import { LIVE_LINK_FACE_BLENDSHAPES } from "../shared/motion";
+import { FaceDetector, LandmarkRecorder, RecordingPlayer, attachRecorderControls } from "../shared/recording";
+import { createFrameTexture, mountFrameSource, pickFile, selectFrameSource } from "../shared/source";
+import { FaceGeometry } from "../shared/tessellation";
+import { createDeformMaterial, createDeformSettings, getBlendshapeScore, updateDeformMaterial } from "./deform";
+import { MOUTH_REGION, SCENE_SIZE, landmarksToGeometry } from "./mesh";
+import { BLEND_MODES, FacePaint, PAINT_REGIONS, createPaintSettings } from "./paint";
+import { FaceTransplant, TRANSPLANT_REGIONS, TRANSPLANT_SOURCES, createTransplantSettings, getColorGain, getMeanColor } from "./transplant";
+import { BufferAttribute, BufferGeometry, Color, DoubleSide, Group, Mesh, MeshBasicMaterial, OrthographicCamera, RepeatWrapping, Scene, ShaderMaterial, Texture, Vector3, WebGLRenderer, WebGLRenderTarget } from "three";
 
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 import { AxesHelper } from "three";
@@ -13,6 +25,8 @@ import Stats from "three/examples/jsm/libs/stats.module";
 const CONFIGS = {
   "DRAW_NUMBERS": false,
   "DRAW_CONNECTORS": false,
+  "DRAW_GAZE_RAYS": false,
+  "DRAW_FACE_MESH": false,
   "SEPARATE_MOUTH_RENDER": false,
   "AXIS_HELPER": false,
   "ENABLE_CAMERA": false,
@@ -34,38 +48,45 @@ const CONFIGS = {
 }
 
 const MODIFICATIONS = {
-  scale: 1,
   flipX: false,
   flipY: false,
-  curvature: 0,
+  paint: false,
+  transplant: false,
+  loadTransplantImage: () => loadStillFace().catch((e) => console.error(`Failed to load transplant image: ${e}`)),
 }
 
+/** Deformations of the mouth meshes, see `deform.ts`. */
+const DEFORM = createDeformSettings();
+/** Face paint drawn over the face meshes while `MODIFICATIONS.paint` is on. */
+const PAINT = createPaintSettings();
+/** Region copied between faces while `MODIFICATIONS.transplant` is on. */
+const TRANSPLANT = createTransplantSettings();
+
 const videoBlendShapes = document.getElementById("video-blend-shapes");
 
-let faceLandmarker: FaceLandmarker;
+let faceLandmarker: FaceDetector;
 let runningMode: "IMAGE" | "VIDEO" = "VIDEO";
 const videoWidth = 480;
 
-// Before we can use HandLandmarker class we must wait for it to finish
+const video = document.getElementById("webcam") as HTMLVideoElement;
+const player = RecordingPlayer.fromQuery();
+const source = player ? mountFrameSource(player, video) : selectFrameSource(video);
+const recorder = new LandmarkRecorder();
+
+// Before we can use FaceLandmarker class we must wait for it to finish
 // loading. Machine Learning models can be large and take a moment to
-// get everything needed to run.
-async function createFaceLandmarker() {
-  const filesetResolver = await FilesetResolver.forVisionTasks("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm");
-  faceLandmarker = await FaceLandmarker.createFromOptions(
-    filesetResolver, {
-    baseOptions: {
-      modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task`,
-      delegate: "GPU"
-    },
+// get everything needed to run. Recordings play back without a model.
+if (player) {
+  faceLandmarker = player;
+} else {
+  createFaceLandmarker({
     outputFaceBlendshapes: true,
     outputFacialTransformationMatrixes: true,
     runningMode,
-    numFaces: 1
-  });
+    numFaces: resolveNumFaces()
+  }).then((landmarker) => { faceLandmarker = landmarker });
 }
-createFaceLandmarker();
 
-const video = document.getElementById("webcam") as HTMLVideoElement;
 const meshOutput = document.getElementById("mesh-output") as HTMLCanvasElement;
 const mouthOverlay = document.getElementById("mouth-overlay") as HTMLCanvasElement;
 const imageOutput = document.getElementById("image-output") as HTMLCanvasElement;
@@ -92,7 +113,7 @@ camera.rotateY(Math.PI);
 scene.add(camera);
 
 // Get video texture
-const texture = new VideoTexture(video);
+const texture = createFrameTexture(source);
 texture.flipY = false;
 
 const axesHelper = new AxesHelper(1);
@@ -115,6 +136,8 @@ const gui = new GUI();
 const folder = gui.addFolder("Configs");
 folder.add(CONFIGS, "DRAW_NUMBERS").name("Draw Numbers");
 folder.add(CONFIGS, "DRAW_CONNECTORS").name("Draw Connectors");
+folder.add(CONFIGS, "DRAW_GAZE_RAYS").name("Draw Gaze Rays");
+folder.add(CONFIGS, "DRAW_FACE_MESH").name("Draw Face Mesh");
 folder.add(CONFIGS, "SEPARATE_MOUTH_RENDER").name("Separate Mouth Render");
 folder.add(CONFIGS, "AXIS_HELPER").name("Axis Helper");
 folder.add(CONFIGS, "ENABLE_CAMERA").name("Enable Camera");
@@ -122,10 +145,26 @@ folder.add(CONFIGS, "RESET_CAMERA").name("Reset Camera");
 folder.open();
 
 const modFolder = gui.addFolder("Modifications");
-modFolder.add(MODIFICATIONS, "scale").min(0.1).max(10).step(0.1).name("Scale");
+modFolder.add(DEFORM, "scale").min(0.1).max(10).step(0.1).name("Scale");
 modFolder.add(MODIFICATIONS, "flipX").name("Flip X");
 modFolder.add(MODIFICATIONS, "flipY").name("Flip Y");
-modFolder.add(MODIFICATIONS, "curvature").min(-1).max(1).step(0.1).name("Curvature");
+modFolder.add(DEFORM, "curvature").min(-1).max(1).step(0.1).name("Curvature");
+modFolder.add(DEFORM, "bulge").min(-1).max(1).step(0.05).name("Bulge / Pinch");
+modFolder.add(DEFORM, "wobble").min(0).max(1).step(0.05).name("Wobble");
+modFolder.add(DEFORM, "wobbleBlendshape", LIVE_LINK_FACE_BLENDSHAPES).name("Wobble Blendshape");
+modFolder.add(DEFORM, "wobbleSpeed").min(0).max(30).step(0.5).name("Wobble Speed");
+modFolder.add(MODIFICATIONS, "paint").name("Face Paint");
+modFolder.add(PAINT, "blendMode", [...BLEND_MODES]).name("Paint Blend Mode");
+modFolder.add(PAINT, "opacity").min(0).max(1).step(0.05).name("Paint Opacity");
+for (const region of PAINT_REGIONS) {
+  modFolder.add(PAINT.regions, region).name(`Paint ${region[0].toUpperCase()}${region.slice(1)}`);
+}
+modFolder.add(MODIFICATIONS, "transplant").name("Transplant");
+modFolder.add(TRANSPLANT, "region", [...TRANSPLANT_REGIONS]).name("Transplant Region");
+const transplantSourceController = modFolder.add(TRANSPLANT, "source", [...TRANSPLANT_SOURCES]).name("Transplant Source");
+modFolder.add(TRANSPLANT, "colorMatch").name("Transplant Color Match");
+modFolder.add(TRANSPLANT, "opacity").min(0).max(1).step(0.05).name("Transplant Opacity");
+modFolder.add(MODIFICATIONS, "loadTransplantImage").name("Load Transplant Image");
 
 function drawLoop() {  
   requestAnimationFrame(drawLoop);
@@ -148,81 +187,103 @@ function drawLoop() {
 drawLoop();
 
 
-// Enable the live webcam view and start detection.
-navigator.mediaDevices
-  .getUserMedia({ video: true })
-  .then((stream) => {
-    video.srcObject = stream;
-    video.addEventListener("loadeddata", predictWebcam);
-  });
-
-let lastVideoTime = -1;
 let results: FaceLandmarkerResult;
+/** Id of every face of `results`, see `FaceTracker`. */
+let faceIds: number[] = [];
+
+/**
+ * Mouth mesh of every tracked face. Its geometry is swapped every frame and
+ * its material, deformed on the GPU, kept.
+ */
+const mouthMeshes = new Map<number, Mesh<BufferGeometry, ShaderMaterial>>();
+const mouthMeshGroup = new Group();
+scene.add(mouthMeshGroup);
+/** Landmark numbers of the mouth meshes, rebuilt every frame. */
+const labelGroup = new Group();
+scene.add(labelGroup);
+const labelMaterial = new MeshBasicMaterial({ color: 0x000000 });
+
+/** Video-textured mesh over the whole face of every tracked face. */
+const faceMeshes = new Map<number, { face: FaceGeometry, mesh: Mesh }>();
+const faceMeshGroup = new Group();
+scene.add(faceMeshGroup);
+const faceMeshMaterial = new MeshBasicMaterial({ map: texture, side: DoubleSide });
+const facePaint = new FacePaint(texture);
+
+/** Region of another face warped onto every tracked face. */
+const transplants = new Map<number, FaceTransplant>();
+const transplantGroup = new Group();
+scene.add(transplantGroup);
+
+/** Face of the still image transplants can come from, see `loadStillFace`. */
+let stillFace: { landmarks: NormalizedLandmark[], texture: Texture, colors: ImageData } | undefined;
+let stillLandmarker: Promise<FaceLandmarker> | undefined;
+
+/** Small copy of a frame to average the colors of regions on. */
+const colorCanvas = document.createElement("canvas");
+colorCanvas.width = colorCanvas.height = 64;
+
+function removeTransplant(id: number) {
+  const transplant = transplants.get(id);
+  transplant?.mesh.removeFromParent();
+  transplant?.dispose();
+  transplants.delete(id);
+}
 
-const meshDrawingUtils = new DrawingUtils(meshCanvasCtx);
-// const imageDrawingUtils = new DrawingUtils(imageCanvasCtx);
-
-let mouthMesh: Mesh;
-
-// Based on
-// https://i.sstatic.net/5Mohl.jpg
-const MOUTH_POINTS = [
-  { start: 0, end: 267 },
-  { start: 267, end: 269 },
-  { start: 269, end: 270 },
-  { start: 270, end: 409 },
-  { start: 409, end: 291 },
-  { start: 291, end: 375 },
-  { start: 375, end: 321 },
-  { start: 321, end: 405 },
-  { start: 405, end: 314 },
-  { start: 314, end: 17 },
-  { start: 17, end: 84 },
-  { start: 84, end: 181 },
-  { start: 181, end: 91 },
-  { start: 91, end: 146 },
-  { start: 146, end: 61 },
-  { start: 61, end: 185 },
-  { start: 185, end: 40 },
-  { start: 40, end: 39 },
-  { start: 39, end: 37 },
-  { start: 37, end: 0 },
-];
-
-const MOUTH_INDICES = new Set<number>();
-MOUTH_POINTS.forEach(({ start, end }) => {
-  MOUTH_INDICES.add(start);
-  MOUTH_INDICES.add(end);
+const tracker = new FaceTracker();
+tracker.onLeave = (id) => {
+  removeTransplant(id);
+
+  const mesh = mouthMeshes.get(id);
+  mesh?.removeFromParent();
+  mesh?.geometry.dispose();
+  mesh?.material.dispose();
+  mouthMeshes.delete(id);
+
+  const faceMesh = faceMeshes.get(id);
+  faceMesh?.mesh.removeFromParent();
+  faceMesh?.face.dispose();
+  faceMeshes.delete(id);
+};
+
+// Enable the live view and start detection.
+source.onFrame((time) => {
+  if (!faceLandmarker) return;
+  results = faceLandmarker.detectForVideo(source.element, time);
+  recorder.record(time, results);
+  faceIds = tracker.update(results);
 });
+source.start()
+  .then(() => {
+    attachRecorderControls(recorder, source);
+    predictWebcam();
+  })
+  .catch((e) => console.error(`Failed to start frame source: ${e}`));
 
-const MOUTH_INDICES_SORTED = [ 15, 16, 14, 17, 13, 18, 12, 19, 11, 0, 10, 1, 9, 2, 8, 3, 7, 4, 6, 5 ];
-
-const lineMaterial = new LineBasicMaterial({ color: 0xffffff });
+const meshDrawingUtils = new DrawingUtils(meshCanvasCtx);
+// const imageDrawingUtils = new DrawingUtils(imageCanvasCtx);
 
 async function predictWebcam() {
-  const ratio = video.videoHeight / video.videoWidth;
-  video.style.width = videoWidth + "px";
-  video.style.height = videoWidth * ratio + "px";
+  const ratio = source.height / source.width;
+  source.element.style.width = videoWidth + "px";
+  source.element.style.height = videoWidth * ratio + "px";
 
   meshOutput.style.width = videoWidth + "px";
   meshOutput.style.height = videoWidth * ratio + "px";
-  meshOutput.width = video.videoWidth;
-  meshOutput.height = video.videoHeight;
+  meshOutput.width = source.width;
+  meshOutput.height = source.height;
 
   mouthOverlay.style.width = videoWidth + "px";
   mouthOverlay.style.height = videoWidth * ratio + "px";
-  mouthOverlay.width = video.videoWidth;
-  mouthOverlay.height = video.videoHeight;
+  mouthOverlay.width = source.width;
+  mouthOverlay.height = source.height;
 
-  // Now let's start detecting the stream.
-
-  let startTimeMs = performance.now();
-
-  if (lastVideoTime !== video.currentTime) {
-    lastVideoTime = video.currentTime;
-    results = faceLandmarker.detectForVideo(video, startTimeMs);
+  // Wait for the first detection of the stream.
+  if (!results) {
+    window.requestAnimationFrame(predictWebcam);
+    return;
   }
-  
+
   if (results.faceLandmarks) {
     if(CONFIGS.DRAW_CONNECTORS) {
       for (const landmarks of results.faceLandmarks) {
@@ -240,57 +301,117 @@ async function predictWebcam() {
         meshDrawingUtils.drawConnectors(landmarks, FaceLandmarker.FACE_LANDMARKS_LEFT_IRIS,     { color: "#30FF30" } );
       }
     }
-  
-    const mouthLandmarks = [];
-    if(results.faceLandmarks[0]) {
-      for(const index of MOUTH_INDICES) {
-        mouthLandmarks.push(results.faceLandmarks[0][index]);
+    if(CONFIGS.DRAW_GAZE_RAYS && meshCanvasCtx) {
+      for (const landmarks of results.faceLandmarks) {
+        drawGazeRays(meshCanvasCtx, landmarks);
       }
     }
-    
-    const mesh = await landmarksToMesh(mouthLandmarks);
-
-    if(mesh) {
-      scene.remove(mouthMesh);
-
-      mesh.scale.set(MODIFICATIONS.scale, MODIFICATIONS.scale, MODIFICATIONS.scale);
-      if(MODIFICATIONS.flipX) mesh.scale.x *= -1;
-      if(MODIFICATIONS.flipY) mesh.scale.y *= -1;
-
-      if(MODIFICATIONS.curvature && "array" in mesh.geometry.attributes.position) {
-        const vertices = mesh.geometry.attributes.position.array as number[];
-
-        for(let i = 0; i < vertices.length; i+=3) {
-          const [x, y, z] = [vertices[i], vertices[i+1], vertices[i+2]];
-
-          const lineGeometry = new BufferGeometry().setFromPoints([
-            new Vector3(x, y, z),
-            mesh.position,
-          ]);
-          const line = new Mesh(lineGeometry, lineMaterial);
-          
-          scene.add(line);
-
-          const distX = Math.abs(x - mesh.position.x);
+  
+    // Reuses the geometry of each face, rewritten in place.
+    faceMeshGroup.visible = CONFIGS.DRAW_FACE_MESH || MODIFICATIONS.paint;
+    if (faceMeshGroup.visible) {
+      facePaint.update(PAINT);
+      results.faceLandmarks.forEach((faceLandmarks, i) => {
+        let faceMesh = faceMeshes.get(faceIds[i]);
+        if (!faceMesh) {
+          const face = new FaceGeometry({ width: SCENE_SIZE, height: SCENE_SIZE });
+          faceMesh = { face, mesh: new Mesh(face.geometry, faceMeshMaterial) };
+          faceMeshGroup.add(faceMesh.mesh);
+          faceMeshes.set(faceIds[i], faceMesh);
+        }
+        faceMesh.mesh.material = MODIFICATIONS.paint ? facePaint.material : faceMeshMaterial;
+        faceMesh.face.update(faceLandmarks);
+      });
+    }
 
-          vertices[i+1] = y + Math.sin(distX * MODIFICATIONS.curvature) * 0.1;
+    transplantGroup.visible = MODIFICATIONS.transplant;
+    if (MODIFICATIONS.transplant) updateTransplants(results.faceLandmarks, faceIds);
 
-        }
-      }
+    // Number labels of the previous frame
+    for (const label of [...labelGroup.children] as Mesh[]) {
+      label.removeFromParent();
+      label.geometry.dispose();
+    }
 
-      scene.add(mesh);
-      mouthMesh = mesh;
-    };    
+    results.faceLandmarks.forEach((faceLandmarks, i) => {
+      updateMouthMesh(faceIds[i], faceLandmarks, results.faceBlendshapes?.[i]);
+    });
   }
   
   if(!videoBlendShapes) throw new Error("videoBlendShapes is null");;
-  drawBlendShapes(videoBlendShapes, results.faceBlendshapes);
+  // Show the face that has been tracked the longest.
+  const first = faceIds.indexOf(Math.min(...faceIds));
+  drawBlendShapes(videoBlendShapes, first >= 0 ? results.faceBlendshapes.slice(first, first + 1) : []);
   
   // Call this function again to keep predicting when the browser is ready.
   window.requestAnimationFrame(predictWebcam);
 }
 
 
+function readColors(image: CanvasImageSource): ImageData {
+  const ctx = colorCanvas.getContext("2d", { willReadFrequently: true });
+  if(!ctx) throw new Error("Color canvas context is null");
+
+  ctx.drawImage(image, 0, 0, colorCanvas.width, colorCanvas.height);
+  return ctx.getImageData(0, 0, colorCanvas.width, colorCanvas.height);
+}
+
+/**
+ * Warps the transplanted region onto every face, from the next face so two
+ * faces swap, or from the still image.
+ */
+function updateTransplants(faces: NormalizedLandmark[][], ids: number[]) {
+  const colors = TRANSPLANT.colorMatch ? readColors(source.element) : undefined;
+
+  faces.forEach((target, i) => {
+    let transplant = transplants.get(ids[i]);
+    if (transplant?.region !== TRANSPLANT.region) {
+      removeTransplant(ids[i]);
+      transplant = new FaceTransplant(TRANSPLANT.region, SCENE_SIZE, SCENE_SIZE);
+      transplantGroup.add(transplant.mesh);
+      transplants.set(ids[i], transplant);
+    }
+
+    const from = TRANSPLANT.source === "image"
+      ? stillFace
+      : faces.length > 1 ? { landmarks: faces[(i + 1) % faces.length], texture, colors } : undefined;
+    transplant.mesh.visible = !!from;
+    if (!from) return;
+
+    const gain = colors && from.colors
+      ? getColorGain(getMeanColor(from.colors, from.landmarks, transplant.landmarks), getMeanColor(colors, target, transplant.landmarks))
+      : new Color(1, 1, 1);
+    transplant.update(target, from.landmarks, from.texture, gain, TRANSPLANT.opacity);
+  });
+}
+
+/**
+ * Detects the face of a picked image for transplants and switches them to
+ * it. The image landmarker is only created the first time.
+ */
+async function loadStillFace() {
+  const image = await createImageBitmap(await pickFile("image/*"));
+  // A failed creation is retried on the next image.
+  stillLandmarker ??= createFaceLandmarker({ runningMode: "IMAGE", numFaces: 1 }).catch((e: unknown) => {
+    stillLandmarker = undefined;
+    throw e;
+  });
+  const [landmarks] = (await stillLandmarker).detect(image).faceLandmarks;
+  if (!landmarks) {
+    console.warn("No face found in the transplant image");
+    return;
+  }
+
+  const texture = new Texture(image);
+  texture.flipY = false;
+  texture.needsUpdate = true;
+
+  stillFace?.texture.dispose();
+  stillFace = { landmarks, texture, colors: readColors(image) };
+  TRANSPLANT.source = "image";
+  transplantSourceController.updateDisplay();
+}
+
 function drawBlendShapes(el: HTMLElement, blendShapes: any[]) {
   if (!blendShapes.length) {
     return;
@@ -313,93 +434,18 @@ function drawBlendShapes(el: HTMLElement, blendShapes: any[]) {
   el.innerHTML = htmlMaker;
 }
 
-function drawClippingRegion(landmarks: NormalizedLandmark[], connections: typeof FaceLandmarker.FACE_LANDMARKS_FACE_OVAL, image: HTMLCanvasElement) {
-  const ctx = image.getContext("2d");
-  if(!ctx) throw new Error("Canvas context is null");
-
-  ctx.save(); 
-
-  const path = connections.map((connection) => {
-    return [landmarks[connection.start], landmarks[connection.end]];
-  });
-
-  const averagePoint = path.reduce((acc, [from, to]) => {
-    return { x: acc.x + (from.x + to.x) / 2, y: acc.y + (from.y + to.y) / 2 };
-  }, { x: 0, y: 0 });
-
-  ctx.beginPath();
-  path.forEach(([from, to], i) => {
-    if (i === 0) {
-      ctx.moveTo(from.x * image.width, from.y * image.height);
-    }
-    ctx.lineTo(to.x * image.width, to.y * image.height);
-  });
-  ctx.closePath();
-
-  ctx.clip();
-  ctx.drawImage(video, 0, 0, image.width, image.height);
+/**
+ * Moves the mouth mesh of a face onto its landmarks and deforms it.
+ */
+function updateMouthMesh(id: number, landmarks: NormalizedLandmark[], blendshapes?: Classifications) {
+  let mesh = mouthMeshes.get(id);
+  const built = landmarksToGeometry(landmarks, MOUTH_REGION, mesh?.geometry);
+  if(!built) return;
 
-  ctx.translate(averagePoint.x * image.width, averagePoint.y * image.height);
-  ctx.rotate(Math.PI);
-  ctx.drawImage(video, 0, 0, image.width, image.height);
-  
-  ctx.restore();
-}
-
-async function landmarksToMesh(landmarks: NormalizedLandmark[]): Promise<Mesh | undefined> {
-  if(!landmarks?.length) return;
-
-  const mesh = new Mesh();
-
-  let landmarksCopy = [...landmarks];
-
-  let vertices = [];
-  let uvs = [];
-
-  const sum = { x: 0, y: 0, z: 0 };
-
-  // Setup vertices
-  for(let i = 0; i < MOUTH_INDICES_SORTED.length-2; i++) {
-    let [i1, i2, i3] = [MOUTH_INDICES_SORTED[i], MOUTH_INDICES_SORTED[i+1], MOUTH_INDICES_SORTED[i+2]];
-    let [x1, y1, z1] = [landmarksCopy[i1].x * 2, landmarksCopy[i1].y * 2, landmarksCopy[i1].z * 2];
-    let [x2, y2, z2] = [landmarksCopy[i2].x * 2, landmarksCopy[i2].y * 2, landmarksCopy[i2].z * 2];
-    let [x3, y3, z3] = [landmarksCopy[i3].x * 2, landmarksCopy[i3].y * 2, landmarksCopy[i3].z * 2];
-    vertices.push([x1, y1, z1]);
-    vertices.push([x2, y2, z2]);
-    vertices.push([x3, y3, z3]);
-
-    uvs.push([landmarksCopy[i1].x, landmarksCopy[i1].y]);
-    uvs.push([landmarksCopy[i2].x, landmarksCopy[i2].y]);
-    uvs.push([landmarksCopy[i3].x, landmarksCopy[i3].y]);
-
-    if(i===0) {
-      sum.x += x1;
-      sum.y += y1;
-      sum.z += z1;
-    }
-    if(i===MOUTH_INDICES_SORTED.length-3) {
-      sum.x += x3;
-      sum.y += y3;
-      sum.z += z3;
-    }
-
-    sum.x += x2;
-    sum.y += y2;
-    sum.z += z2;
-  }
-
-  const averagePoint = { 
-    x: sum.x / MOUTH_INDICES_SORTED.length, 
-    y: sum.y / MOUTH_INDICES_SORTED.length, 
-    z: sum.z / MOUTH_INDICES_SORTED.length 
-  };
-  
   // Draw numbers
-  let textMeshes = scene.children.filter((child) => child instanceof Mesh);
-  for(const textMesh of textMeshes) scene.remove(textMesh);
   if(CONFIGS.DRAW_NUMBERS) {
-    for(let i = 0; i < landmarksCopy.length; i++) {
-      const landmark = landmarksCopy[i];
+    for(const i of MOUTH_REGION.outline) {
+      const landmark = landmarks[i];
       let text = new TextGeometry(`${i}`, {
         font,
         size: 0.03,
@@ -407,27 +453,26 @@ async function landmarksToMesh(landmarks: NormalizedLandmark[]): Promise<Mesh |
         curveSegments: 12,
       });
 
-      let textMesh = new Mesh(text, new MeshBasicMaterial({ color: 0x000000 }));
-      textMesh.position.set(landmark.x * 2, landmark.y * 2, landmark.z * 2);
+      let textMesh = new Mesh(text, labelMaterial);
+      textMesh.position.copy(normalizedToPixel(landmark, SCENE_SIZE, SCENE_SIZE));
       text.rotateZ(Math.PI);
       text.scale(-1, 1, 1);
-      scene.add(textMesh);
+      labelGroup.add(textMesh);
     }
   }
 
-  // Create geometry
-  const geometry = new BufferGeometry();
-  
-  // Set attributes
-  geometry.setAttribute("position", new Float32BufferAttribute(vertices.flat(), 3));
-  geometry.setAttribute("uv", new Float32BufferAttribute(uvs.flat(), 2));
-  geometry.center();
-
-  // Create final mesh
-  const material = new MeshBasicMaterial({ map: texture, side: DoubleSide });
-  mesh.geometry = geometry;
-  mesh.material = material;
-  mesh.position.set(averagePoint.x, averagePoint.y, averagePoint.z);
-
-  return mesh;
+  if (!mesh) {
+    mesh = new Mesh(built.geometry, createDeformMaterial(texture));
+    mouthMeshGroup.add(mesh);
+    mouthMeshes.set(id, mesh);
+  }
+  mesh.position.copy(built.center);
+  mesh.scale.set(MODIFICATIONS.flipX ? -1 : 1, MODIFICATIONS.flipY ? -1 : 1, 1);
+
+  built.geometry.computeBoundingSphere();
+  updateDeformMaterial(mesh.material, DEFORM, {
+    radius: built.geometry.boundingSphere!.radius,
+    weight: getBlendshapeScore(blendshapes, DEFORM.wobbleBlendshape),
+    time: performance.now() / 1000,
+  });
 }
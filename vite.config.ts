@@ -1,7 +1,42 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
+import { createReadStream, readdirSync, readFileSync, statSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { join } from 'node:path';
+
+const MEDIAPIPE_WASM_DIR = fileURLToPath(new URL('./node_modules/@mediapipe/tasks-vision/wasm', import.meta.url));
+
+/**
+ * Serves the WASM fileset of the installed `@mediapipe/tasks-vision` under
+ * `/wasm` in dev and copies it into the build output, so the demos never
+ * reach out to a CDN.
+ */
+function mediapipeWasm(): Plugin {
+    return {
+        name: 'mediapipe-wasm',
+        configureServer(server) {
+            server.middlewares.use('/wasm', (req, res, next) => {
+                const file = join(MEDIAPIPE_WASM_DIR, (req.url ?? '').split('?')[0]);
+                if (!file.startsWith(MEDIAPIPE_WASM_DIR) || !statSync(file, { throwIfNoEntry: false })?.isFile()) return next();
+
+                res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+                createReadStream(file).on('error', () => next()).pipe(res);
+            });
+        },
+        generateBundle() {
+            for (const fileName of readdirSync(MEDIAPIPE_WASM_DIR)) {
+                this.emitFile({
+                    type: 'asset',
+                    fileName: `wasm/${fileName}`,
+                    source: readFileSync(join(MEDIAPIPE_WASM_DIR, fileName)),
+                });
+            }
+        },
+    };
+}
 
 export default defineConfig({
+    plugins: [mediapipeWasm()],
     server: {
         port: 3000,
     },
-})
\ No newline at end of file
+})